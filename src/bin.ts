@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+import { runCli } from './cli';
+
+runCli(process.argv.slice(2)).then(
+    exitCode => {
+        process.exitCode = exitCode;
+    },
+    error => {
+        console.error(error);
+        process.exitCode = 1;
+    }
+);
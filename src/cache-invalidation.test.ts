@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { HttpPurgeInvalidator, NextRevalidateInvalidator, TriggerFileInvalidator } from './cache-invalidation';
+
+interface ReceivedRequest {
+    method: string;
+    url: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+type Respond = (request: ReceivedRequest, res: http.ServerResponse) => void;
+
+async function withServer(respond: Respond, test: (baseUrl: string, received: ReceivedRequest[]) => Promise<void>): Promise<void> {
+    const received: ReceivedRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.setEncoding('utf-8');
+        req.on('data', chunk => {
+            body += chunk;
+        });
+        req.on('end', () => {
+            const request = { method: req.method || '', url: req.url || '', headers: req.headers, body };
+            received.push(request);
+            respond(request, res);
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+        await test(`http://127.0.0.1:${(server.address() as AddressInfo).port}`, received);
+    } finally {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+    }
+}
+
+const ok: Respond = (_request, res) => {
+    res.end('ok');
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('HttpPurgeInvalidator', () => {
+    it('sends one request per path with limited concurrency', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const respond: Respond = (_request, res) => {
+            maxInFlight = Math.max(maxInFlight, ++inFlight);
+            setTimeout(() => {
+                inFlight--;
+                res.end();
+            }, 10);
+        };
+
+        await withServer(respond, async (baseUrl, received) => {
+            const paths = ['/', '/blog/a post', '/c', '/d', '/e', '/f', '/g'];
+            const invalidator = new HttpPurgeInvalidator({ url: `${baseUrl}/purge{path}`, concurrency: 3 });
+
+            await invalidator.invalidate({ domain: 'example.com', paths, files: [] });
+
+            expect(received.map(request => request.method)).toEqual(Array(paths.length).fill('PURGE'));
+            expect(received.map(request => request.url).sort()).toEqual(['/purge/', '/purge/blog/a%20post', '/purge/c', '/purge/d', '/purge/e', '/purge/f', '/purge/g']);
+            expect(maxInFlight).toBe(3);
+        });
+    });
+
+    it('stops sending at the first failure', async () => {
+        let slowDone: () => void = () => undefined;
+        const slowFinished = new Promise<void>(resolve => {
+            slowDone = resolve;
+        });
+        const respond: Respond = (request, res) => {
+            if (request.url === '/purge/fail') {
+                res.writeHead(500).end('broken');
+                return;
+            }
+            setTimeout(() => {
+                res.end();
+                slowDone();
+            }, 50);
+        };
+
+        await withServer(respond, async (baseUrl, received) => {
+            const invalidator = new HttpPurgeInvalidator({ url: `${baseUrl}/purge{path}`, concurrency: 2 });
+
+            await expect(invalidator.invalidate({ domain: 'example.com', paths: ['/fail', '/slow', '/c', '/d', '/e'], files: [] }))
+                .rejects.toThrow(`PURGE ${baseUrl}/purge/fail returned 500: broken`);
+            await slowFinished;
+            await delay(20);
+
+            expect(received.map(request => request.url).sort()).toEqual(['/purge/fail', '/purge/slow']);
+        });
+    });
+
+    it('sends JSON batches of batchSize paths', async () => {
+        await withServer(ok, async (baseUrl, received) => {
+            const invalidator = new HttpPurgeInvalidator({ url: `${baseUrl}/purge`, batchSize: 2, headers: { 'X-Api-Key': 'key' } });
+
+            await invalidator.invalidate({ domain: 'example.com', paths: ['/a', '/b', '/c', '/d', '/e'], files: [] });
+
+            expect(received.map(request => JSON.parse(request.body))).toEqual([
+                { domain: 'example.com', paths: ['/a', '/b'] },
+                { domain: 'example.com', paths: ['/c', '/d'] },
+                { domain: 'example.com', paths: ['/e'] }
+            ]);
+            expect(received[0]?.method).toBe('POST');
+            expect(received[0]?.headers['content-type']).toBe('application/json');
+            expect(received[0]?.headers['x-api-key']).toBe('key');
+        });
+    });
+
+    it('uses a custom body for each batch', async () => {
+        await withServer(ok, async (baseUrl, received) => {
+            const invalidator = new HttpPurgeInvalidator({ url: `${baseUrl}/purge`, method: 'PUT', body: paths => ({ files: paths.map(urlPath => `https://example.com${urlPath}`) }) });
+
+            await invalidator.invalidate({ domain: 'example.com', paths: ['/a'], files: [] });
+
+            expect(received[0]?.method).toBe('PUT');
+            expect(JSON.parse(received[0]?.body || '')).toEqual({ files: ['https://example.com/a'] });
+        });
+    });
+
+    it('reports non-2xx responses without the query string', async () => {
+        await withServer((_request, res) => res.writeHead(403).end('forbidden'), async baseUrl => {
+            const invalidator = new HttpPurgeInvalidator({ url: `${baseUrl}/purge?token=secret-token` });
+
+            const error = await invalidator.invalidate({ domain: 'example.com', paths: ['/a'], files: [] }).catch((caught: Error) => caught);
+
+            expect(error).toBeInstanceOf(Error);
+            expect((error as Error).message).toBe(`POST ${baseUrl}/purge returned 403: forbidden`);
+        });
+    });
+
+    it('times out a request that gets no response', async () => {
+        await withServer(() => undefined, async baseUrl => {
+            const invalidator = new HttpPurgeInvalidator({ url: `${baseUrl}/purge?token=secret-token`, timeoutMs: 50 });
+
+            await expect(invalidator.invalidate({ domain: 'example.com', paths: ['/a'], files: [] }))
+                .rejects.toThrow(new Error(`POST ${baseUrl}/purge timed out after 50ms`));
+        });
+    });
+
+    it('stops when the sync is aborted', async () => {
+        await withServer(() => undefined, async (baseUrl, received) => {
+            const controller = new AbortController();
+            const invalidator = new HttpPurgeInvalidator({ url: `${baseUrl}/purge{path}`, concurrency: 1 });
+
+            const invalidation = invalidator.invalidate({ domain: 'example.com', paths: ['/a', '/b'], files: [], signal: controller.signal });
+            await delay(20);
+            controller.abort(new Error('Sync cancelled'));
+
+            await expect(invalidation).rejects.toThrow('Sync cancelled');
+            expect(received.map(request => request.url)).toEqual(['/purge/a']);
+        });
+    });
+
+    it('does not send anything when the sync was already aborted', async () => {
+        await withServer(ok, async (baseUrl, received) => {
+            const invalidator = new HttpPurgeInvalidator({ url: `${baseUrl}/purge` });
+
+            await expect(invalidator.invalidate({ domain: 'example.com', paths: ['/a'], files: [], signal: AbortSignal.abort(new Error('Shutting down')) }))
+                .rejects.toThrow('Shutting down');
+            expect(received).toEqual([]);
+        });
+    });
+});
+
+describe('NextRevalidateInvalidator', () => {
+    it('posts batches of paths to the revalidate route with the secret', async () => {
+        await withServer(ok, async (baseUrl, received) => {
+            const invalidator = new NextRevalidateInvalidator({ url: `${baseUrl}/api/revalidate`, secret: 'shh', batchSize: 2 });
+
+            await invalidator.invalidate({ domain: 'example.com', paths: ['/a', '/b', '/c'], files: [] });
+
+            expect(received.map(request => JSON.parse(request.body))).toEqual([{ paths: ['/a', '/b'] }, { paths: ['/c'] }]);
+            expect(received[0]?.headers['authorization']).toBe('Bearer shh');
+        });
+    });
+
+    it('calls revalidatePath for every path', async () => {
+        const revalidated: string[] = [];
+        const invalidator = new NextRevalidateInvalidator({ revalidatePath: urlPath => revalidated.push(urlPath) });
+
+        await invalidator.invalidate({ domain: 'example.com', paths: ['/a', '/b'], files: [] });
+
+        expect(revalidated).toEqual(['/a', '/b']);
+    });
+});
+
+describe('TriggerFileInvalidator', () => {
+    async function withDirectory(test: (directory: string) => Promise<void>): Promise<void> {
+        const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-trigger-'));
+        try {
+            await test(directory);
+        } finally {
+            await fs.rm(directory, { recursive: true, force: true });
+        }
+    }
+
+    it('writes the domain, sync time and paths as JSON', () => withDirectory(async directory => {
+        const file = path.join(directory, 'hooks', 'synced.json');
+
+        await new TriggerFileInvalidator({ file }).invalidate({ domain: 'example.com', paths: ['/a', '/b'], files: ['a.html', 'b.html'] });
+
+        const written = JSON.parse(await fs.readFile(file, 'utf-8'));
+        expect(written).toEqual({ domain: 'example.com', syncedAt: expect.any(String), paths: ['/a', '/b'] });
+        expect(new Date(written.syncedAt).toISOString()).toBe(written.syncedAt);
+    }));
+
+    it('writes only the sync time in timestamp format', () => withDirectory(async directory => {
+        const file = path.join(directory, 'synced');
+
+        await new TriggerFileInvalidator({ file, format: 'timestamp' }).invalidate({ domain: 'example.com', paths: ['/a'], files: [] });
+
+        expect(await fs.readFile(file, 'utf-8')).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z\n$/);
+    }));
+});
@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheInvalidator, FetchFunction, HttpPurgeOptions, InvalidationRequest, NextRevalidateOptions, TriggerFileOptions } from './types';
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const PATH_PLACEHOLDER = '{path}';
+
+/**
+ * Revalidates Next.js ISR pages - with `revalidatePath` from next/cache when the sync runs inside
+ * the Next.js server, or through a revalidate route (POST { paths }) when it runs elsewhere.
+ */
+export class NextRevalidateInvalidator implements CacheInvalidator {
+    readonly name: string;
+    private options: NextRevalidateOptions;
+
+    constructor(options: NextRevalidateOptions) {
+        if (!options.revalidatePath && !options.url) {
+            throw new Error('NextRevalidateInvalidator needs revalidatePath or url');
+        }
+        this.name = options.name || 'nextjs';
+        this.options = options;
+    }
+
+    async invalidate(request: InvalidationRequest): Promise<void> {
+        const { revalidatePath, url } = this.options;
+        if (revalidatePath) {
+            for (const urlPath of request.paths) {
+                await revalidatePath(urlPath);
+            }
+            return;
+        }
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json', ...this.options.headers };
+        if (this.options.secret) {
+            headers['Authorization'] = `Bearer ${this.options.secret}`;
+        }
+        for (const paths of chunk(request.paths, this.options.batchSize || DEFAULT_BATCH_SIZE)) {
+            await send(this.options.fetch, url as string, { method: 'POST', headers, body: JSON.stringify({ paths }) }, this.options.timeoutMs, request.signal);
+        }
+    }
+}
+
+/**
+ * Calls a CDN or proxy purge endpoint. A url with a {path} placeholder gets one request per path
+ * (Varnish-style PURGE); otherwise the paths are sent in JSON batches.
+ */
+export class HttpPurgeInvalidator implements CacheInvalidator {
+    readonly name: string;
+    private options: HttpPurgeOptions;
+
+    constructor(options: HttpPurgeOptions) {
+        if (!options.url) {
+            throw new Error('HttpPurgeInvalidator needs a url');
+        }
+        this.name = options.name || 'http-purge';
+        this.options = options;
+    }
+
+    async invalidate(request: InvalidationRequest): Promise<void> {
+        const { url, headers = {}, timeoutMs } = this.options;
+
+        if (url.includes(PATH_PLACEHOLDER)) {
+            const method = this.options.method || 'PURGE';
+            const queue = [...request.paths];
+            const worker = async () => {
+                for (let urlPath = queue.shift(); urlPath !== undefined; urlPath = queue.shift()) {
+                    try {
+                        await send(this.options.fetch, url.split(PATH_PLACEHOLDER).join(encodeURI(urlPath)), { method, headers }, timeoutMs, request.signal);
+                    } catch (error) {
+                        // Stop the other workers at the first failure
+                        queue.length = 0;
+                        throw error;
+                    }
+                }
+            };
+            const workers = Math.min(this.options.concurrency || DEFAULT_CONCURRENCY, queue.length);
+            await Promise.all(Array.from({ length: workers }, worker));
+            return;
+        }
+
+        const method = this.options.method || 'POST';
+        for (const paths of chunk(request.paths, this.options.batchSize || DEFAULT_BATCH_SIZE)) {
+            const body = this.options.body ? this.options.body(paths, request) : { domain: request.domain, paths };
+            await send(this.options.fetch, url, {
+                method,
+                headers: { 'Content-Type': 'application/json', ...headers },
+                body: JSON.stringify(body)
+            }, timeoutMs, request.signal);
+        }
+    }
+}
+
+/**
+ * Rewrites a file after every sync that changed something, for build watchers, systemd path
+ * units or deploy hooks that react to file changes
+ */
+export class TriggerFileInvalidator implements CacheInvalidator {
+    readonly name: string;
+    private options: TriggerFileOptions;
+
+    constructor(options: TriggerFileOptions) {
+        if (!options.file) {
+            throw new Error('TriggerFileInvalidator needs a file');
+        }
+        this.name = options.name || 'trigger-file';
+        this.options = options;
+    }
+
+    async invalidate(request: InvalidationRequest): Promise<void> {
+        const file = path.resolve(this.options.file);
+        const syncedAt = new Date().toISOString();
+        const content = this.options.format === 'timestamp'
+            ? `${syncedAt}\n`
+            : `${JSON.stringify({ domain: request.domain, syncedAt, paths: request.paths }, null, 2)}\n`;
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, content, 'utf-8');
+    }
+}
+
+/**
+ * Send one request with a timeout, failing on non-2xx responses. The query string is left out of
+ * error messages as it may carry a token.
+ */
+async function send(fetchFn: FetchFunction | undefined, url: string, init: RequestInit, timeoutMs: number = DEFAULT_TIMEOUT_MS, signal?: AbortSignal): Promise<void> {
+    const controller = new AbortController();
+    const loggedUrl = url.split('?')[0];
+    const timer = setTimeout(() => controller.abort(new Error(`${init.method} ${loggedUrl} timed out after ${timeoutMs}ms`)), timeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+    if (signal?.aborted) {
+        onAbort();
+    } else {
+        signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    try {
+        const response = await (fetchFn || globalThis.fetch)(url, { ...init, signal: controller.signal });
+        const body = await response.text();
+        if (!response.ok) {
+            throw new Error(`${init.method} ${loggedUrl} returned ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`);
+        }
+    } catch (error) {
+        if (controller.signal.aborted) {
+            throw controller.signal.reason instanceof Error ? controller.signal.reason : new Error(`${init.method} ${loggedUrl} was aborted`);
+        }
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let index = 0; index < items.length; index += size) {
+        chunks.push(items.slice(index, index + size));
+    }
+    return chunks;
+}
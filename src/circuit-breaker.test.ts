@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    function openBreaker(): CircuitBreaker {
+        const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+        breaker.recordFailure();
+        breaker.recordFailure();
+        return breaker;
+    }
+
+    it('opens after the failure threshold and rejects requests until the reset timeout', () => {
+        const breaker = openBreaker();
+
+        expect(breaker.getState()).toBe('open');
+        expect(breaker.canRequest()).toBe(false);
+        expect(breaker.getRetryAt()).toBe(Date.now() + 1000);
+    });
+
+    it('stays closed while failures are interrupted by successes', () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 2 });
+        breaker.recordFailure();
+        breaker.recordSuccess();
+        breaker.recordFailure();
+
+        expect(breaker.getState()).toBe('closed');
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it('lets a single trial request through while half-open', () => {
+        const breaker = openBreaker();
+        vi.advanceTimersByTime(1000);
+
+        expect(breaker.getState()).toBe('half-open');
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.canRequest()).toBe(false);
+        expect(breaker.canRequest()).toBe(false);
+    });
+
+    it('does not use up the trial when only the state is read', () => {
+        const breaker = openBreaker();
+        vi.advanceTimersByTime(1000);
+
+        breaker.getState();
+        breaker.getState();
+
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it('closes when the trial succeeds', () => {
+        const breaker = openBreaker();
+        vi.advanceTimersByTime(1000);
+        breaker.canRequest();
+
+        breaker.recordSuccess();
+
+        expect(breaker.getState()).toBe('closed');
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.canRequest()).toBe(true);
+    });
+
+    it('reopens when the trial fails, then allows a new trial after the timeout', () => {
+        const breaker = openBreaker();
+        vi.advanceTimersByTime(1000);
+        breaker.canRequest();
+
+        breaker.recordFailure();
+        expect(breaker.getState()).toBe('open');
+        expect(breaker.canRequest()).toBe(false);
+
+        vi.advanceTimersByTime(1000);
+        expect(breaker.canRequest()).toBe(true);
+        expect(breaker.canRequest()).toBe(false);
+    });
+
+    it('lets the next caller try when a trial is released without an outcome', () => {
+        const breaker = openBreaker();
+        vi.advanceTimersByTime(1000);
+        breaker.canRequest();
+
+        breaker.releaseTrial();
+
+        expect(breaker.getState()).toBe('half-open');
+        expect(breaker.canRequest()).toBe(true);
+    });
+});
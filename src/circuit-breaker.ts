@@ -0,0 +1,87 @@
+import { CircuitBreakerConfig, CircuitState } from './types';
+
+const DEFAULT_FAILURE_THRESHOLD = 5;
+const DEFAULT_RESET_TIMEOUT_MS = 60 * 1000;
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures: number = 0;
+    private openedAt: number = 0;
+    private trialInFlight: boolean = false;
+    private failureThreshold: number;
+    private resetTimeoutMs: number;
+
+    constructor(config: CircuitBreakerConfig = {}) {
+        this.failureThreshold = config.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+        this.resetTimeoutMs = config.resetTimeoutMs ?? DEFAULT_RESET_TIMEOUT_MS;
+    }
+
+    configure(config: CircuitBreakerConfig = {}): void {
+        this.failureThreshold = config.failureThreshold ?? this.failureThreshold;
+        this.resetTimeoutMs = config.resetTimeoutMs ?? this.resetTimeoutMs;
+    }
+
+    /**
+     * Whether a request may be sent. Moves an open circuit to half-open once the reset timeout has elapsed,
+     * letting a single trial request through - other callers are rejected until it is recorded or released.
+     */
+    canRequest(): boolean {
+        this.refreshState();
+        if (this.state === 'open') {
+            return false;
+        }
+        if (this.state === 'half-open') {
+            if (this.trialInFlight) {
+                return false;
+            }
+            this.trialInFlight = true;
+        }
+        return true;
+    }
+
+    /**
+     * Give up a half-open trial without an outcome (e.g. the caller aborted it), so the next caller can try
+     */
+    releaseTrial(): void {
+        this.trialInFlight = false;
+    }
+
+    recordSuccess(): void {
+        this.consecutiveFailures = 0;
+        this.trialInFlight = false;
+        this.state = 'closed';
+    }
+
+    recordFailure(): void {
+        this.consecutiveFailures++;
+        this.trialInFlight = false;
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    }
+
+    getState(): CircuitState {
+        // Re-evaluate so callers see half-open as soon as the reset timeout has passed
+        this.refreshState();
+        return this.state;
+    }
+
+    getRetryAt(): number | null {
+        return this.state === 'open' ? this.openedAt + this.resetTimeoutMs : null;
+    }
+
+    reset(): void {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.openedAt = 0;
+        this.trialInFlight = false;
+    }
+
+    private refreshState(): void {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+            this.state = 'half-open';
+            this.trialInFlight = false;
+        }
+    }
+}
@@ -0,0 +1,366 @@
+import http from 'http';
+import { createSchedulerFromConfig, loadConfig, LoadedConfig } from './config';
+import type { ContentFetcher } from './content-fetcher';
+import { ConfigError } from './errors';
+import { HealthHandler } from './health-handler';
+import type { ContentScheduler } from './scheduler';
+import { handleShutdownSignals } from './shutdown';
+import { Logger, LogLevel, SyncAllContentOptions, SyncResult } from './types';
+
+const USAGE = `Usage: seotrove <command> [site] [options]
+
+Commands:
+  sync [site]            Sync every configured site, or one site
+  dry-run [site]         Show what a sync would change without writing anything
+  status [site]          Show the last sync, tracked files and schedule of each site
+  daemon                 Run the scheduler for every site until SIGTERM or SIGINT
+
+Options:
+  -c, --config <file>    Config file (default: SEOTROVE_CONFIG, then ./seotrove.config.{ts,js,json,yaml,...})
+  --all-content          Sync previously published as well as new content (sync, dry-run)
+  --prune                Delete pages the API no longer returns - needs --all-content
+  --diff                 Print a unified diff of every changed file (dry-run)
+  --port <port>          Serve /health and /metrics on this port (daemon)
+  --log-level <level>    debug, info, warn, error or silent (default: warn, info for daemon)
+  --json                 Print results as JSON
+  -h, --help             Show this help
+`;
+
+const COMMANDS = ['sync', 'dry-run', 'status', 'daemon'];
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'];
+const DEFAULT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const EXIT_OK = 0;
+const EXIT_FAILED = 1;                      // A sync failed or status couldn't be read
+const EXIT_USAGE = 2;                       // Bad arguments or config
+
+interface CliOptions {
+    command?: string;
+    site?: string;
+    config?: string;
+    allContent: boolean;
+    prune: boolean;
+    diff: boolean;
+    port?: number;
+    logLevel?: LogLevel | 'silent';
+    json: boolean;
+    help: boolean;
+}
+
+export interface CliOutput {
+    stdout: { write(text: string): unknown };
+    stderr: { write(text: string): unknown };
+}
+
+class UsageError extends Error {}
+
+function parseArguments(argv: string[]): CliOptions {
+    const options: CliOptions = { allContent: false, prune: false, diff: false, json: false, help: false };
+    const positionals: string[] = [];
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i] as string;
+        const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=') ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)] : [arg, undefined];
+        const value = (): string => {
+            const next = inlineValue ?? argv[++i];
+            if (next === undefined || next === '') {
+                throw new UsageError(`${flag} needs a value`);
+            }
+            return next;
+        };
+
+        switch (flag) {
+            case '-c':
+            case '--config':
+                options.config = value();
+                break;
+            case '--all-content':
+                options.allContent = true;
+                break;
+            case '--prune':
+                options.prune = true;
+                break;
+            case '--diff':
+                options.diff = true;
+                break;
+            case '--port': {
+                const port = Number(value());
+                if (!Number.isInteger(port) || port < 0 || port > 65535) {
+                    throw new UsageError('--port must be a port number');
+                }
+                options.port = port;
+                break;
+            }
+            case '--log-level': {
+                const level = value();
+                if (!LOG_LEVELS.includes(level)) {
+                    throw new UsageError(`--log-level must be one of ${LOG_LEVELS.join(', ')}`);
+                }
+                options.logLevel = level as LogLevel | 'silent';
+                break;
+            }
+            case '--json':
+                options.json = true;
+                break;
+            case '-h':
+            case '--help':
+                options.help = true;
+                break;
+            default:
+                if (arg.startsWith('-') && arg !== '-') {
+                    throw new UsageError(`Unknown option ${arg}`);
+                }
+                positionals.push(arg);
+        }
+    }
+
+    const [command, site, ...extra] = positionals;
+    if (extra.length > 0 || (command === 'daemon' && site !== undefined)) {
+        throw new UsageError(`Unexpected argument ${command === 'daemon' ? site : extra[0]}`);
+    }
+    if (command !== undefined && !COMMANDS.includes(command)) {
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+    if (options.prune && !options.allContent) {
+        throw new UsageError('--prune needs --all-content');
+    }
+    if (command !== undefined) {
+        options.command = command;
+    }
+    if (site !== undefined) {
+        options.site = site;
+    }
+    return options;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) {
+        return `${bytes} B`;
+    }
+    return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} kB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function formatInterval(ms: number): string {
+    for (const [unit, size] of [['d', 86400000], ['h', 3600000], ['m', 60000], ['s', 1000]] as const) {
+        if (ms >= size && ms % size === 0) {
+            return `${ms / size}${unit}`;
+        }
+    }
+    return `${ms}ms`;
+}
+
+function describeOutcome(result: SyncResult): string {
+    if (result.skipped) {
+        return 'skipped';
+    }
+    if (result.aborted) {
+        return 'aborted';
+    }
+    return result.success ? 'ok' : 'failed';
+}
+
+function formatResult(id: string, fetcher: ContentFetcher, result: SyncResult): string {
+    const lines = [`${id} (${fetcher.getConfig().domain}): ${describeOutcome(result)} - ${result.message}`];
+    if (result.plan) {
+        for (const file of result.plan.files.filter(planned => planned.action !== 'unchanged')) {
+            const size = file.action === 'update' ? `${formatBytes(file.previousBytes ?? 0)} -> ${formatBytes(file.bytes)}`
+                : formatBytes(file.action === 'delete' ? file.previousBytes ?? 0 : file.bytes);
+            lines.push(`  ${file.action.padEnd(6)}  ${file.key} (${size})`);
+        }
+    }
+    if (result.audit) {
+        const { counts } = result.audit;
+        lines.push(`  audit: ${counts.error} errors, ${counts.warning} warnings, ${counts.info} notices`);
+    }
+    for (const invalidation of (result.invalidation || []).filter(entry => entry.success)) {
+        lines.push(`  invalidated: ${invalidation.paths} paths with ${invalidation.invalidator}`);
+    }
+    for (const error of result.errors || []) {
+        lines.push(`  error: ${error}`);
+    }
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Runs the sites' syncs in parallel. SIGTERM/SIGINT abort them gracefully - the results are still reported.
+ */
+async function runSyncs(scheduler: ContentScheduler, siteIds: string[], options: CliOptions, output: CliOutput): Promise<number> {
+    const dryRun = options.command === 'dry-run';
+    const removeSignalHandlers = handleShutdownSignals(scheduler, { exit: false, logger: stderrLogger(output) });
+    try {
+        const results = await Promise.all(siteIds.map(async id => {
+            const fetcher = scheduler.getFetcher(id) as ContentFetcher;
+            let result: SyncResult;
+            if (options.allContent) {
+                const syncOptions: SyncAllContentOptions = { dryRun };
+                if (options.prune) {
+                    syncOptions.prune = true;
+                }
+                result = await fetcher.syncAllContent(syncOptions);
+            } else {
+                result = await fetcher.syncContent({ dryRun });
+            }
+            return { id, fetcher, result };
+        }));
+
+        if (options.json) {
+            output.stdout.write(JSON.stringify(Object.fromEntries(results.map(({ id, result }) => [id, { ...result, failures: undefined }])), null, 2) + '\n');
+        } else {
+            for (const { id, fetcher, result } of results) {
+                output.stdout.write(formatResult(id, fetcher, result));
+                if (options.diff) {
+                    for (const file of result.plan?.files || []) {
+                        if (file.diff) {
+                            output.stdout.write(file.diff.endsWith('\n') ? file.diff : `${file.diff}\n`);
+                        }
+                    }
+                }
+            }
+        }
+        return results.every(({ result }) => result.success && !result.aborted) ? EXIT_OK : EXIT_FAILED;
+    } finally {
+        removeSignalHandlers();
+    }
+}
+
+async function showStatus(scheduler: ContentScheduler, siteIds: string[], options: CliOptions, output: CliOutput): Promise<number> {
+    let exitCode = EXIT_OK;
+    const statuses: Record<string, unknown> = {};
+
+    for (const id of siteIds) {
+        const fetcher = scheduler.getFetcher(id) as ContentFetcher;
+        const config = fetcher.getConfig();
+        const schedule = config.schedule?.cron ? `cron "${config.schedule.cron}"` : `every ${formatInterval(config.schedule?.intervalMs ?? DEFAULT_INTERVAL_MS)}`;
+        try {
+            const manifest = await fetcher.getManifest();
+            const releases = config.releases ? await fetcher.listReleases() : [];
+            const activeRelease = releases.find(release => release.active)?.id ?? null;
+            const status = {
+                domain: config.domain,
+                targetDirectory: config.targetDirectory,
+                lastSyncAt: manifest.lastSyncAt ?? null,
+                firstSyncCompletedAt: manifest.firstSyncCompletedAt ?? null,
+                trackedFiles: Object.keys(manifest.files).length,
+                schedule,
+                activeRelease
+            };
+            statuses[id] = status;
+            if (!options.json) {
+                const lines = [
+                    `${id} (${status.domain})`,
+                    `  target:     ${status.targetDirectory}`,
+                    `  last sync:  ${status.lastSyncAt ?? 'never'}`,
+                    `  first sync: ${status.firstSyncCompletedAt ? `completed ${status.firstSyncCompletedAt}` : 'pending'}`,
+                    `  files:      ${status.trackedFiles} tracked`,
+                    `  schedule:   ${schedule}`
+                ];
+                if (config.releases) {
+                    lines.push(`  release:    ${activeRelease ?? 'none'} (${releases.length} kept)`);
+                }
+                output.stdout.write(lines.join('\n') + '\n');
+            }
+        } catch (error) {
+            exitCode = EXIT_FAILED;
+            statuses[id] = { domain: config.domain, error: (error as Error).message };
+            if (!options.json) {
+                output.stdout.write(`${id} (${config.domain})\n  error: ${(error as Error).message}\n`);
+            }
+        }
+    }
+
+    if (options.json) {
+        output.stdout.write(JSON.stringify(statuses, null, 2) + '\n');
+    }
+    return exitCode;
+}
+
+/**
+ * Starts every site's scheduler and, with --port, the health and metrics endpoints. Runs until a
+ * signal shuts the scheduler down and exits the process.
+ */
+function runDaemon(scheduler: ContentScheduler, options: CliOptions, output: CliOutput): Promise<number> {
+    scheduler.startAll();
+    handleShutdownSignals(scheduler);
+    output.stdout.write(`Scheduling ${scheduler.getActiveSchedulers().join(', ')}\n`);
+
+    if (options.port !== undefined) {
+        const handler = new HealthHandler({ scheduler });
+        const health = handler.middleware();
+        const metrics = handler.metricsMiddleware();
+        const server = http.createServer((req, res) => {
+            const pathname = (req.url || '/').split('?')[0];
+            if (pathname === '/health') {
+                health(req, res);
+            } else if (pathname === '/metrics') {
+                metrics(req, res);
+            } else {
+                res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+                res.end('Not found');
+            }
+        });
+        server.listen(options.port, () => {
+            const address = server.address();
+            output.stdout.write(`Serving /health and /metrics on port ${typeof address === 'object' && address ? address.port : options.port}\n`);
+        });
+        server.unref();
+    }
+    return new Promise(() => undefined);
+}
+
+/**
+ * Shutdown messages from the signal handler go to stderr, keeping stdout for results
+ */
+function stderrLogger(output: CliOutput): Logger {
+    const write = (message: string) => {
+        output.stderr.write(`${message}\n`);
+    };
+    return { debug: () => undefined, info: write, warn: write, error: write };
+}
+
+/**
+ * Run the `seotrove` command line with the given arguments (without `node` and the script path).
+ * Resolves to the exit code; the daemon command only returns through a signal.
+ */
+export async function runCli(argv: string[], output: CliOutput = { stdout: process.stdout, stderr: process.stderr }): Promise<number> {
+    let options: CliOptions;
+    try {
+        options = parseArguments(argv);
+    } catch (error) {
+        output.stderr.write(`${(error as Error).message}\nRun seotrove --help for usage.\n`);
+        return EXIT_USAGE;
+    }
+    if (options.help || !options.command) {
+        (options.help ? output.stdout : output.stderr).write(USAGE);
+        return options.help ? EXIT_OK : EXIT_USAGE;
+    }
+
+    let config: LoadedConfig;
+    try {
+        config = await loadConfig(options.config !== undefined ? { file: options.config } : {});
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            output.stderr.write(`${error.message}\n`);
+            return EXIT_USAGE;
+        }
+        throw error;
+    }
+
+    const siteIds = Object.keys(config.sites);
+    if (options.site !== undefined && !siteIds.includes(options.site)) {
+        output.stderr.write(`Unknown site "${options.site}" - configured sites: ${siteIds.join(', ')}\n`);
+        return EXIT_USAGE;
+    }
+
+    const scheduler = createSchedulerFromConfig(config, {
+        logLevel: options.logLevel ?? config.logLevel ?? (options.command === 'daemon' ? 'info' : 'warn')
+    });
+    const selected = options.site !== undefined ? [options.site] : siteIds;
+    switch (options.command) {
+        case 'status':
+            return showStatus(scheduler, selected, options, output);
+        case 'daemon':
+            return runDaemon(scheduler, options, output);
+        default:
+            return runSyncs(scheduler, selected, options, output);
+    }
+}
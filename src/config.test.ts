@@ -0,0 +1,200 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { HttpPurgeInvalidator } from './cache-invalidation';
+import { CONFIG_FILE_NAMES, loadConfig, resolveConfig } from './config';
+import { ConfigError, ConfigIssue } from './errors';
+import { S3StorageAdapter } from './s3-storage-adapter';
+
+const site = { domain: 'blog.example.com', installId: 'install-1', targetDirectory: './public' };
+
+function issuesOf(run: () => unknown): ConfigIssue[] {
+    try {
+        run();
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            return error.issues;
+        }
+        throw error;
+    }
+    throw new Error('expected a ConfigError');
+}
+
+describe('loadConfig', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-config-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    const writeConfig = (name: string, domain: string) => fs.writeFile(path.join(directory, name), name.endsWith('.json')
+        ? JSON.stringify({ sites: { blog: { ...site, domain } } })
+        : `sites:\n  blog:\n    domain: ${domain}\n    installId: install-1\n    targetDirectory: ./public\n`);
+
+    it('picks the first of CONFIG_FILE_NAMES that exists', async () => {
+        expect(CONFIG_FILE_NAMES.indexOf('seotrove.config.json')).toBeLessThan(CONFIG_FILE_NAMES.indexOf('seotrove.config.yaml'));
+        await writeConfig('seotrove.config.yml', 'yml.example.com');
+        await writeConfig('seotrove.config.yaml', 'yaml.example.com');
+
+        expect((await loadConfig({ cwd: directory, env: {} })).sites['blog']?.domain).toBe('yaml.example.com');
+
+        await writeConfig('seotrove.config.json', 'json.example.com');
+        const loaded = await loadConfig({ cwd: directory, env: {} });
+        expect(loaded.file).toBe(path.join(directory, 'seotrove.config.json'));
+        expect(loaded.sites['blog']?.domain).toBe('json.example.com');
+    });
+
+    it('prefers a file named by SEOTROVE_CONFIG, and the file option over that', async () => {
+        await writeConfig('seotrove.config.json', 'json.example.com');
+        await writeConfig('other.yaml', 'env.example.com');
+        await writeConfig('explicit.yaml', 'option.example.com');
+
+        expect((await loadConfig({ cwd: directory, env: { SEOTROVE_CONFIG: 'other.yaml' } })).sites['blog']?.domain).toBe('env.example.com');
+        expect((await loadConfig({ cwd: directory, file: 'explicit.yaml', env: { SEOTROVE_CONFIG: 'other.yaml' } })).sites['blog']?.domain).toBe('option.example.com');
+        await expect(loadConfig({ cwd: directory, file: 'missing.yaml', env: {} })).rejects.toThrow(`Config file not found: ${path.join(directory, 'missing.yaml')}`);
+    });
+
+    it('reports invalid fields at their YAML line', async () => {
+        await fs.writeFile(path.join(directory, 'seotrove.config.yaml'), [
+            'sites:',
+            '  blog:',
+            '    domain: blog.example.com',
+            '    installId: install-1',
+            '    targetDirectory: ./public',
+            '    timeoutMs: soon',
+            '    sitemap:',
+            '      mode: append'
+        ].join('\n'));
+
+        const error = await loadConfig({ cwd: directory, env: {} }).catch((caught: unknown) => caught);
+
+        expect(error).toBeInstanceOf(ConfigError);
+        expect((error as ConfigError).issues).toEqual([
+            { path: 'sites.blog.timeoutMs', message: 'expected a number >= 1, got "soon"', source: expect.stringMatching(/seotrove\.config\.yaml:6$/) },
+            { path: 'sites.blog.sitemap.mode', message: 'expected one of "overwrite", "merge", "index", got "append"', source: expect.stringMatching(/seotrove\.config\.yaml:8$/) }
+        ]);
+    });
+
+    it('builds sites from the environment alone when there is no config file', async () => {
+        const loaded = await loadConfig({ cwd: directory, env: { SEOTROVE_DOMAIN: 'env.example.com', SEOTROVE_INSTALL_ID: 'install-1', SEOTROVE_TARGET_DIRECTORY: './public' } });
+
+        expect(loaded.file).toBeNull();
+        expect(Object.keys(loaded.sites)).toEqual(['default']);
+        expect(loaded.sites['default']?.domain).toBe('env.example.com');
+    });
+});
+
+describe('resolveConfig environment overrides', () => {
+    it('sets site fields from SEOTROVE_SITES__<ID>__<FIELD> and coerces them to the schema type', () => {
+        const loaded = resolveConfig({ sites: { blog: site } }, {
+            env: {
+                SEOTROVE_SITES__BLOG__TIMEOUT_MS: '5000',
+                SEOTROVE_SITES__BLOG__RETRY: 'false',
+                SEOTROVE_SITES__BLOG__SITEMAP__GZIP: 'yes',
+                SEOTROVE_SITES__BLOG__TRANSFORM__HEAD_TAGS: '<meta name="a">, <meta name="b">',
+                SEOTROVE_SITES__BLOG__TRANSPORT__HEADERS: '{"X-Team":"web"}',
+                SEOTROVE_SITES__BLOG__AUDIT: 'true'
+            }
+        });
+
+        expect(loaded.sites['blog']).toMatchObject({
+            timeoutMs: 5000,
+            retry: false,
+            sitemap: { gzip: true },
+            transform: { headTags: ['<meta name="a">', '<meta name="b">'] },
+            transport: { headers: { 'X-Team': 'web' } },
+            audit: true
+        });
+    });
+
+    it('applies top-level site fields as defaults and leaves unrelated variables alone', () => {
+        const config = { sites: { blog: { domain: 'blog.example.com', targetDirectory: './blog' }, docs: { domain: 'docs.example.com', targetDirectory: './docs' } } };
+
+        const loaded = resolveConfig(config, { env: { SEOTROVE_INSTALL_ID: 'shared', SEOTROVE_LOG_LEVEL: 'debug', SEOTROVE_UNRELATED_TOOL: 'x' } });
+
+        expect(loaded.sites['blog']?.installId).toBe('shared');
+        expect(loaded.sites['docs']?.installId).toBe('shared');
+        expect(loaded.logLevel).toBe('debug');
+        expect(config.sites.blog).not.toHaveProperty('installId');
+    });
+
+    it('reports a value that does not convert at its environment variable', () => {
+        const issues = issuesOf(() => resolveConfig({ sites: { blog: site } }, { env: { SEOTROVE_SITES__BLOG__CONCURRENCY: 'many', SEOTROVE_SITES__BLOG__NOPE: '1' } }));
+
+        expect(issues).toEqual([
+            { path: 'sites.blog', message: 'unknown field "NOPE"', source: 'SEOTROVE_SITES__BLOG__NOPE' },
+            { path: 'sites.blog.concurrency', message: 'expected an integer >= 1, got "many"', source: 'SEOTROVE_SITES__BLOG__CONCURRENCY' }
+        ]);
+    });
+});
+
+describe('resolveConfig validation', () => {
+    it('reports every invalid field at once', () => {
+        const issues = issuesOf(() => resolveConfig({
+            sites: {
+                blog: { ...site, target_directory: './public', pageSize: 0, installId: 42 }
+            }
+        }, { env: {} }));
+
+        expect(issues).toEqual([
+            { path: 'sites.blog.installId', message: 'expected a string, got 42 - quote it' },
+            { path: 'sites.blog.target_directory', message: 'unknown field "target_directory" - did you mean "targetDirectory"?' },
+            { path: 'sites.blog.pageSize', message: 'expected an integer >= 1, got 0' }
+        ]);
+    });
+
+    it('requires domain, installId and targetDirectory for every site', () => {
+        const issues = issuesOf(() => resolveConfig({ defaults: { installId: 'shared' }, sites: { docs: { domain: 'docs.example.com' } } }, { env: {} }));
+
+        expect(issues).toEqual([{ path: 'sites.docs.targetDirectory', message: 'required - set it for the site or under defaults' }]);
+    });
+
+    it('rejects a config without sites', () => {
+        expect(() => resolveConfig({}, { env: {} })).toThrow('No sites configured');
+    });
+
+    it('turns S3 storage and invalidator settings into instances', () => {
+        const loaded = resolveConfig({
+            sites: {
+                blog: {
+                    ...site,
+                    storage: { type: 's3', bucket: 'pages' },
+                    invalidators: [{ type: 'http', url: 'https://cdn.example.com/purge' }]
+                }
+            }
+        }, { env: { AWS_ACCESS_KEY_ID: 'key', AWS_SECRET_ACCESS_KEY: 'secret' } });
+
+        expect(loaded.sites['blog']?.storage).toBeInstanceOf(S3StorageAdapter);
+        expect(loaded.sites['blog']?.invalidators?.[0]).toBeInstanceOf(HttpPurgeInvalidator);
+    });
+
+    it('reports missing S3 credentials and invalidator urls', () => {
+        const issues = issuesOf(() => resolveConfig({
+            sites: { blog: { ...site, storage: { type: 's3', bucket: 'pages' }, invalidators: [{ type: 'http' }] } }
+        }, { env: {} }));
+
+        expect(issues).toEqual([
+            { path: 'sites.blog.storage.accessKeyId', message: 'required for S3 storage' },
+            { path: 'sites.blog.storage.secretAccessKey', message: 'required for S3 storage' },
+            { path: 'sites.blog.invalidators[0].url', message: 'required for http invalidators' }
+        ]);
+    });
+});
+
+describe('resolveConfig lock', () => {
+    it('accepts lock settings, from the file or the environment, and LockProvider objects', () => {
+        const redisLock = { acquire: async () => null };
+
+        const loaded = resolveConfig({ sites: { blog: { ...site, lock: { staleMs: 120000 } }, docs: { ...site, lock: redisLock } } }, {
+            env: { SEOTROVE_SITES__BLOG__LOCK__DIRECTORY: '/mnt/shared/locks' }
+        });
+
+        expect(loaded.sites['blog']?.lock).toEqual({ staleMs: 120000, directory: '/mnt/shared/locks' });
+        expect(loaded.sites['docs']?.lock).toEqual(redisLock);
+    });
+});
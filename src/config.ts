@@ -0,0 +1,704 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { HttpPurgeInvalidator, NextRevalidateInvalidator, TriggerFileInvalidator } from './cache-invalidation';
+import { ConfigError, ConfigIssue } from './errors';
+import { REDIRECT_FILE_NAMES } from './redirects';
+import { S3StorageAdapter } from './s3-storage-adapter';
+import { ContentScheduler } from './scheduler';
+import { DEFAULT_AUDIT_SEVERITIES } from './seo-audit';
+import { AuditConfig, CacheInvalidatorOptions, CircuitBreakerConfig, ContentFetcherConfig, ContentSchedulerOptions, HttpPurgeOptions, LockConfig, LockProvider, LogLevel, NextRevalidateOptions, OutputConfig, RedirectConfig, RedirectRule, ReleaseConfig, RetryConfig, RobotsOptions, S3StorageConfig, S3StorageOptions, ScheduleConfig, SeoTroveConfig, SitemapOptions, SiteConfig, SyncHooks, TransformConfig, TransportConfig, TriggerFileOptions } from './types';
+import { ConfigPath, formatPath, parseYaml } from './yaml';
+
+/**
+ * Looked up in this order in the working directory when no file is given
+ */
+export const CONFIG_FILE_NAMES = [
+    'seotrove.config.ts',
+    'seotrove.config.mts',
+    'seotrove.config.js',
+    'seotrove.config.mjs',
+    'seotrove.config.cjs',
+    'seotrove.config.json',
+    'seotrove.config.yaml',
+    'seotrove.config.yml'
+];
+
+const ENV_PREFIX = 'SEOTROVE_';
+const CONFIG_FILE_ENV = 'SEOTROVE_CONFIG';
+const REQUIRED_SITE_FIELDS = ['domain', 'installId', 'targetDirectory'] as const;
+const LOG_LEVELS = ['debug', 'info', 'warn', 'error', 'silent'];
+const REDIRECT_FORMATS = Object.keys(REDIRECT_FILE_NAMES);
+
+type Environment = Record<string, string | undefined>;
+
+export interface LoadConfigOptions {
+    file?: string;                          // Config file; default: SEOTROVE_CONFIG, then the first of CONFIG_FILE_NAMES that exists
+    cwd?: string;                           // Where config files are looked up and relative `file` is resolved (default: process.cwd())
+    env?: Environment;                      // Source of SEOTROVE_* overrides (default: process.env)
+}
+
+export interface ResolveConfigOptions {
+    file?: string | null;                   // Where the config came from, for error messages
+    env?: Environment;                      // Source of SEOTROVE_* overrides (default: process.env)
+    positions?: Map<string, number>;        // Line of each field in a YAML file, from parseYaml()
+}
+
+export interface LoadedConfig {
+    file: string | null;                    // null when the sites came from the environment only
+    sites: Record<string, ContentFetcherConfig>;    // Defaults merged in, storage settings turned into adapters
+    logLevel?: LogLevel | 'silent';
+}
+
+type Schema =
+    | { kind: 'string'; values?: readonly string[] }
+    | { kind: 'number'; integer: boolean; min: number }
+    | { kind: 'boolean' }
+    | { kind: 'false' }
+    | { kind: 'object'; fields: Record<string, Schema>; discriminator?: string }
+    | { kind: 'record'; values: Schema; keys?: readonly string[] }
+    | { kind: 'array'; items: Schema }
+    | { kind: 'union'; options: Schema[] }
+    | { kind: 'function' }
+    | { kind: 'instance'; description: string }
+    | { kind: 'regexp' }
+    | { kind: 'any' };
+
+const string = (values?: readonly string[]): Schema => values ? { kind: 'string', values } : { kind: 'string' };
+const number = (min: number): Schema => ({ kind: 'number', integer: false, min });
+const integer = (min: number): Schema => ({ kind: 'number', integer: true, min });
+const boolean: Schema = { kind: 'boolean' };
+const falseValue: Schema = { kind: 'false' };
+// Keys of every member of a union, so a discriminated object schema covers all of its variants
+type AllKeys<T> = T extends unknown ? keyof T : never;
+
+// One schema per option of T: an option added to T without a schema, or a schema for an option
+// T doesn't have, fails to compile
+type Fields<T> = { [K in AllKeys<T>]: Schema };
+
+const object = <T = Record<string, unknown>>(fields: Fields<T>, discriminator?: string): Schema => discriminator ? { kind: 'object', fields, discriminator } : { kind: 'object', fields };
+const record = (values: Schema, keys?: readonly string[]): Schema => keys ? { kind: 'record', values, keys } : { kind: 'record', values };
+const list = (items: Schema): Schema => ({ kind: 'array', items });
+const oneOf = (...options: Schema[]): Schema => ({ kind: 'union', options });
+const fn: Schema = { kind: 'function' };
+const instance = (description: string): Schema => ({ kind: 'instance', description });
+const anyValue: Schema = { kind: 'any' };
+
+const SITE_FIELDS: Fields<SiteConfig> = {
+    domain: string(),
+    installId: string(),
+    targetDirectory: string(),
+    baseUrl: string(),
+    transport: object<TransportConfig>({ fetch: fn, headers: record(string()), authToken: string(), dispatcher: anyValue, agent: anyValue }),
+    timeoutMs: number(1),
+    retry: oneOf(falseValue, object<RetryConfig>({ maxRetries: integer(0), baseDelayMs: number(0), maxDelayMs: number(0), jitter: boolean })),
+    circuitBreaker: oneOf(falseValue, object<CircuitBreakerConfig>({ failureThreshold: integer(1), resetTimeoutMs: number(0) })),
+    storage: oneOf(
+        object<S3StorageOptions>({
+            type: string(['s3']), bucket: string(), region: string(), endpoint: string(), prefix: string(),
+            accessKeyId: string(), secretAccessKey: string(), sessionToken: string(), forcePathStyle: boolean, fetch: fn
+        }, 'type'),
+        instance('a storage adapter')
+    ),
+    stateStore: instance('a SyncStateStore'),
+    releases: object<ReleaseConfig>({ directory: string(), keep: integer(1) }),
+    sitemap: object<SitemapOptions>({
+        mode: string(['overwrite', 'merge', 'index']), fileName: string(), indexFileName: string(), siteUrl: string(),
+        generate: string(['never', 'fallback', 'always']), priority: oneOf(number(0), fn), gzip: boolean,
+        maxUrlsPerFile: integer(1), maxBytesPerFile: integer(1)
+    }),
+    robots: object<RobotsOptions>({ mode: string(['overwrite', 'block']) }),
+    schedule: object<ScheduleConfig>({ cron: string(), intervalMs: number(1), jitterMs: number(0), overlap: string(['skip', 'queue']), runOnStart: boolean }),
+    lock: oneOf(
+        boolean,
+        object<LockProvider>({ acquire: fn, getHolder: fn }, 'acquire'),
+        object<LockConfig>({ directory: string(), staleMs: number(1), heartbeatMs: number(1) }),
+        instance('a LockProvider')
+    ),
+    hooks: object<SyncHooks>({ syncStart: fn, contentFetched: fn, beforePageWrite: fn, pageWritten: fn, syncComplete: fn, syncError: fn }),
+    transform: object<TransformConfig>({ layout: string(), layoutFile: string(), headTags: oneOf(list(string()), fn), canonical: boolean, rewriteLink: fn, transformers: list(fn) }),
+    output: object<OutputConfig>({ format: string(['html', 'clean-urls', 'markdown', 'mdx']), collection: oneOf(boolean, string()), collectionContent: boolean }),
+    audit: oneOf(boolean, object<AuditConfig>({
+        failOn: string(['error', 'warning', 'info', 'never']),
+        rules: record(string(['error', 'warning', 'info', 'off']), Object.keys(DEFAULT_AUDIT_SEVERITIES)),
+        ignoreLinks: list(oneOf(string(), { kind: 'regexp' }))
+    })),
+    redirects: oneOf(boolean, object<RedirectConfig>({
+        formats: list(string(REDIRECT_FORMATS)),
+        fileNames: record(string(), REDIRECT_FORMATS),
+        status: integer(300),
+        removed: string(['gone', 'ignore']),
+        rules: list(object<RedirectRule>({ from: string(), to: string(), status: integer(300) })),
+        gonePage: string()
+    })),
+    invalidators: list(oneOf(
+        object<CacheInvalidatorOptions>({
+            type: string(['nextjs', 'http', 'trigger-file']), name: string(), url: string(), secret: string(), headers: record(string()),
+            method: string(), batchSize: integer(1), concurrency: integer(1), timeoutMs: number(1), file: string(), format: string(['json', 'timestamp']),
+            revalidatePath: fn, body: fn, fetch: fn
+        }, 'type'),
+        instance('a CacheInvalidator')
+    )),
+    onInvalidPage: string(['quarantine', 'reject']),
+    concurrency: integer(1),
+    streaming: boolean,
+    pageSize: integer(1),
+    logger: instance('a Logger'),
+    logLevel: string(LOG_LEVELS)
+};
+
+const CONFIG_FIELDS: Fields<SeoTroveConfig> = {
+    sites: record(object(SITE_FIELDS)),
+    defaults: object(SITE_FIELDS),
+    logLevel: string(LOG_LEVELS)
+};
+
+const CONFIG_SCHEMA: Schema = object(CONFIG_FIELDS);
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+function setKey(target: Record<string, unknown>, key: string, value: unknown): void {
+    Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+/**
+ * Copy plain objects and arrays so overrides never touch the caller's config; adapters, loggers and
+ * functions are shared
+ */
+function cloneConfig(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(cloneConfig);
+    }
+    if (isPlainObject(value)) {
+        const copy: Record<string, unknown> = {};
+        for (const [key, item] of Object.entries(value)) {
+            setKey(copy, key, cloneConfig(item));
+        }
+        return copy;
+    }
+    return value;
+}
+
+function mergeConfig(base: unknown, override: unknown): unknown {
+    if (!isPlainObject(base) || !isPlainObject(override)) {
+        return override === undefined ? base : override;
+    }
+    const merged: Record<string, unknown> = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        setKey(merged, key, mergeConfig(base[key], value));
+    }
+    return merged;
+}
+
+function describeSchema(schema: Schema): string {
+    switch (schema.kind) {
+        case 'string':
+            return schema.values ? `one of ${schema.values.map(value => `"${value}"`).join(', ')}` : 'a string';
+        case 'number':
+            return `${schema.integer ? 'an integer' : 'a number'} >= ${schema.min}`;
+        case 'boolean':
+            return 'true or false';
+        case 'false':
+            return 'false';
+        case 'object':
+        case 'record':
+            return 'an object';
+        case 'array':
+            return 'a list';
+        case 'union':
+            return Array.from(new Set(schema.options.map(describeSchema))).join(' or ');
+        case 'function':
+            return 'a function';
+        case 'instance':
+            return schema.description;
+        case 'regexp':
+            return 'a regular expression';
+        case 'any':
+            return 'any value';
+    }
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'a list';
+    }
+    switch (typeof value) {
+        case 'string':
+            return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+        case 'number':
+        case 'boolean':
+            return String(value);
+        case 'function':
+            return 'a function';
+        default:
+            return 'an object';
+    }
+}
+
+/**
+ * Whether a union option is the one meant for this value - the option it is then validated against
+ */
+function matchesKind(schema: Schema, value: unknown): boolean {
+    switch (schema.kind) {
+        case 'string':
+        case 'boolean':
+        case 'function':
+            return typeof value === schema.kind;
+        case 'number':
+            return typeof value === 'number';
+        case 'false':
+            return value === false;
+        case 'object':
+            return isPlainObject(value) && (!schema.discriminator || schema.discriminator in value);
+        case 'record':
+            return isPlainObject(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'instance':
+            return typeof value === 'object' && value !== null && !Array.isArray(value);
+        case 'regexp':
+            return value instanceof RegExp;
+        case 'union':
+            return schema.options.some(option => matchesKind(option, value));
+        case 'any':
+            return true;
+    }
+}
+
+/**
+ * Navigate into an object-like schema, choosing the object option of unions such as `retry: false | {...}`
+ */
+function containerSchema(schema: Schema): Schema | null {
+    if (schema.kind === 'object' || schema.kind === 'record') {
+        return schema;
+    }
+    if (schema.kind === 'union') {
+        // Options made of functions only, such as a LockProvider, can't be set from the environment
+        return schema.options.find(option => option.kind === 'record'
+            || (option.kind === 'object' && !Object.values(option.fields).every(field => field.kind === 'function'))) || null;
+    }
+    return null;
+}
+
+function normalizeName(name: string): string {
+    return name.replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+}
+
+/**
+ * Turn an environment variable value into what the schema expects. Values that don't convert are
+ * left as strings for validation to report.
+ */
+function coerceEnvValue(raw: string, schema: Schema): unknown {
+    const trimmed = raw.trim();
+    switch (schema.kind) {
+        case 'number':
+            return trimmed !== '' && !Number.isNaN(Number(trimmed)) ? Number(trimmed) : raw;
+        case 'boolean':
+        case 'false':
+            if (/^(true|1|yes|on)$/i.test(trimmed)) {
+                return true;
+            }
+            return /^(false|0|no|off)$/i.test(trimmed) ? false : raw;
+        case 'array':
+            if (trimmed.startsWith('[')) {
+                return parseJson(raw);
+            }
+            return trimmed === '' ? [] : trimmed.split(',').map(item => item.trim());
+        case 'object':
+        case 'record':
+            return parseJson(raw);
+        case 'union':
+            for (const option of schema.options) {
+                const value = coerceEnvValue(raw, option);
+                if (matchesKind(option, value)) {
+                    return value;
+                }
+            }
+            return raw;
+        default:
+            return raw;
+    }
+}
+
+function parseJson(raw: string): unknown {
+    try {
+        return JSON.parse(raw);
+    } catch {
+        return raw;
+    }
+}
+
+/**
+ * Applies SEOTROVE_* environment overrides to a raw config, validates it and turns it into fetcher configs
+ */
+class ConfigResolver {
+    private issues: ConfigIssue[] = [];
+    private envSources: Map<string, string> = new Map();
+    private file: string | null;
+    private positions: Map<string, number>;
+
+    constructor(options: ResolveConfigOptions) {
+        this.file = options.file ? displayPath(options.file) : null;
+        this.positions = options.positions || new Map();
+    }
+
+    resolve(raw: unknown, env: Environment): LoadedConfig {
+        if (raw !== null && raw !== undefined && !isPlainObject(raw)) {
+            throw new ConfigError('Invalid SEOTrove config', [this.issue([], `expected an object, got ${describeValue(raw)}`)]);
+        }
+        const config = cloneConfig(raw || {}) as Record<string, unknown>;
+        this.applyEnv(config, env);
+        this.validate(config, CONFIG_SCHEMA, []);
+        this.throwIssues();
+
+        const typed = config as SeoTroveConfig;
+        const siteIds = Object.keys(typed.sites || {});
+        if (siteIds.length === 0 && typed.defaults?.domain) {
+            // Environment-only setup: SEOTROVE_DOMAIN, SEOTROVE_INSTALL_ID, SEOTROVE_TARGET_DIRECTORY
+            siteIds.push('default');
+        }
+        if (siteIds.length === 0) {
+            throw new ConfigError('No sites configured', [this.issue(['sites'],
+                `add a site to ${this.file || 'a config file'}, or set ${ENV_PREFIX}DOMAIN, ${ENV_PREFIX}INSTALL_ID and ${ENV_PREFIX}TARGET_DIRECTORY`)]);
+        }
+
+        const sites: Record<string, ContentFetcherConfig> = {};
+        for (const id of siteIds) {
+            const site = mergeConfig(typed.defaults || {}, typed.sites?.[id] || {}) as Record<string, unknown>;
+            for (const field of REQUIRED_SITE_FIELDS) {
+                if (typeof site[field] !== 'string' || (site[field] as string).trim() === '') {
+                    this.issues.push(this.issue(['sites', id, field], 'required - set it for the site or under defaults'));
+                }
+            }
+            sites[id] = this.createSite(id, site, env);
+        }
+        this.throwIssues();
+
+        const loaded: LoadedConfig = { file: this.file, sites };
+        if (typed.logLevel !== undefined) {
+            loaded.logLevel = typed.logLevel;
+        }
+        return loaded;
+    }
+
+    /**
+     * `SEOTROVE_SITES__BLOG__INSTALL_ID` sets sites.blog.installId - `__` separates levels. Site fields
+     * at the top level (`SEOTROVE_INSTALL_ID`) set defaults. Variables that don't start with a config
+     * or site field are left alone, since other tools may share the prefix.
+     */
+    private applyEnv(config: Record<string, unknown>, env: Environment): void {
+        for (const name of Object.keys(env).sort()) {
+            const raw = env[name];
+            if (!name.startsWith(ENV_PREFIX) || name === CONFIG_FILE_ENV || raw === undefined) {
+                continue;
+            }
+            const segments = name.slice(ENV_PREFIX.length).split('__');
+            const first = normalizeName(segments[0] as string);
+            if (!Object.keys(CONFIG_FIELDS).some(field => normalizeName(field) === first)) {
+                if (!Object.keys(SITE_FIELDS).some(field => normalizeName(field) === first)) {
+                    continue;
+                }
+                segments.unshift('DEFAULTS');
+            }
+
+            let schema: Schema = CONFIG_SCHEMA;
+            let target: Record<string, unknown> = config;
+            const fieldPath: ConfigPath = [];
+            for (const [index, segment] of segments.entries()) {
+                const container = containerSchema(schema);
+                let key: string | undefined;
+                if (container?.kind === 'object') {
+                    key = Object.keys(container.fields).find(field => normalizeName(field) === normalizeName(segment));
+                    schema = key !== undefined ? container.fields[key] as Schema : schema;
+                } else if (container?.kind === 'record') {
+                    // Match existing keys such as site ids loosely: MY_BLOG finds "my-blog"
+                    key = Object.keys(target).find(existing => normalizeName(existing) === normalizeName(segment))
+                        ?? segment.toLowerCase().replace(/_/g, '-');
+                    schema = container.values;
+                }
+                if (key === undefined) {
+                    this.issues.push({ path: formatPath(fieldPath), message: `unknown field "${segment}"`, source: name });
+                    break;
+                }
+                fieldPath.push(key);
+
+                if (index === segments.length - 1) {
+                    setKey(target, key, coerceEnvValue(raw, schema));
+                    this.envSources.set(formatPath(fieldPath), name);
+                } else {
+                    if (!isPlainObject(target[key])) {
+                        setKey(target, key, {});
+                    }
+                    target = target[key] as Record<string, unknown>;
+                }
+            }
+        }
+    }
+
+    private validate(value: unknown, schema: Schema, fieldPath: ConfigPath): void {
+        if (value === undefined) {
+            return;
+        }
+        const expected = () => this.issues.push(this.issue(fieldPath, `expected ${describeSchema(schema)}, got ${describeValue(value)}`));
+
+        switch (schema.kind) {
+            case 'string':
+                if (typeof value !== 'string') {
+                    this.issues.push(this.issue(fieldPath, `expected ${describeSchema(schema)}, got ${describeValue(value)}${typeof value === 'number' ? ' - quote it' : ''}`));
+                } else if (schema.values && !schema.values.includes(value)) {
+                    expected();
+                }
+                return;
+            case 'number':
+                if (typeof value !== 'number' || !Number.isFinite(value) || (schema.integer && !Number.isInteger(value)) || value < schema.min) {
+                    expected();
+                }
+                return;
+            case 'object':
+            case 'record':
+                if (!isPlainObject(value)) {
+                    expected();
+                    return;
+                }
+                for (const [key, item] of Object.entries(value)) {
+                    const itemPath = [...fieldPath, key];
+                    if (schema.kind === 'record') {
+                        if (schema.keys && !schema.keys.includes(key)) {
+                            this.issues.push(this.issue(itemPath, `unknown key "${key}"`));
+                        } else {
+                            this.validate(item, schema.values, itemPath);
+                        }
+                    } else if (schema.fields[key]) {
+                        this.validate(item, schema.fields[key] as Schema, itemPath);
+                    } else {
+                        const suggestion = Object.keys(schema.fields).find(field => normalizeName(field) === normalizeName(key));
+                        this.issues.push(this.issue(itemPath, `unknown field "${key}"${suggestion ? ` - did you mean "${suggestion}"?` : ''}`));
+                    }
+                }
+                return;
+            case 'array':
+                if (!Array.isArray(value)) {
+                    expected();
+                    return;
+                }
+                value.forEach((item, index) => this.validate(item, schema.items, [...fieldPath, index]));
+                return;
+            case 'union': {
+                const option = schema.options.find(candidate => matchesKind(candidate, value));
+                if (option) {
+                    this.validate(value, option, fieldPath);
+                } else {
+                    expected();
+                }
+                return;
+            }
+            default:
+                if (!matchesKind(schema, value)) {
+                    expected();
+                }
+        }
+    }
+
+    /**
+     * Turn S3 storage settings and built-in invalidator settings into instances
+     */
+    private createSite(id: string, site: Record<string, unknown>, env: Environment): ContentFetcherConfig {
+        const created: Record<string, unknown> = { ...site };
+        const storage = site['storage'];
+        if (isPlainObject(storage) && storage['type'] === 's3') {
+            created['storage'] = this.createS3Storage(id, storage, env);
+        }
+        const invalidators = site['invalidators'];
+        if (Array.isArray(invalidators)) {
+            created['invalidators'] = invalidators.map((invalidator, index) =>
+                isPlainObject(invalidator) ? this.createInvalidator(['sites', id, 'invalidators', index], invalidator) : invalidator);
+        }
+        return created as unknown as ContentFetcherConfig;
+    }
+
+    private createS3Storage(id: string, storage: Record<string, unknown>, env: Environment): unknown {
+        const { type: _type, ...settings } = storage;
+        const s3: Record<string, unknown> = { ...settings };
+        // The usual AWS variables fill in credentials and region that the config leaves out
+        const awsFallbacks = { accessKeyId: 'AWS_ACCESS_KEY_ID', secretAccessKey: 'AWS_SECRET_ACCESS_KEY', sessionToken: 'AWS_SESSION_TOKEN', region: 'AWS_REGION' };
+        for (const [field, variable] of Object.entries(awsFallbacks)) {
+            if (s3[field] === undefined && env[variable]) {
+                s3[field] = env[variable];
+            }
+        }
+        for (const field of ['bucket', 'accessKeyId', 'secretAccessKey']) {
+            if (typeof s3[field] !== 'string' || s3[field] === '') {
+                this.issues.push(this.issue(['sites', id, 'storage', field], 'required for S3 storage'));
+            }
+        }
+        if (this.issues.length > 0) {
+            return storage;
+        }
+        return new S3StorageAdapter(s3 as unknown as S3StorageConfig);
+    }
+
+    private createInvalidator(fieldPath: ConfigPath, settings: Record<string, unknown>): unknown {
+        const { type, ...options } = settings;
+        const required = type === 'trigger-file' ? 'file' : type === 'nextjs' && options['revalidatePath'] ? null : 'url';
+        if (required && (typeof options[required] !== 'string' || options[required] === '')) {
+            this.issues.push(this.issue([...fieldPath, required], `required for ${type} invalidators`));
+            return settings;
+        }
+        if (type === 'nextjs') {
+            return new NextRevalidateInvalidator(options as unknown as NextRevalidateOptions);
+        }
+        if (type === 'http') {
+            return new HttpPurgeInvalidator(options as unknown as HttpPurgeOptions);
+        }
+        return new TriggerFileInvalidator(options as unknown as TriggerFileOptions);
+    }
+
+    /**
+     * An issue located at the environment variable that set the field, or the file (and YAML line)
+     * it was read from. Fields missing from the file point at their closest parent.
+     */
+    private issue(fieldPath: ConfigPath, message: string): ConfigIssue {
+        const formatted = formatPath(fieldPath);
+        const issue: ConfigIssue = { path: formatted, message };
+        const envSource = this.envSources.get(formatted);
+        if (envSource) {
+            issue.source = envSource;
+            return issue;
+        }
+        if (this.file) {
+            for (let length = fieldPath.length; length > 0; length--) {
+                const line = this.positions.get(formatPath(fieldPath.slice(0, length)));
+                if (line !== undefined) {
+                    issue.source = `${this.file}:${line}`;
+                    return issue;
+                }
+            }
+            issue.source = this.file;
+        }
+        return issue;
+    }
+
+    private throwIssues(): void {
+        if (this.issues.length > 0) {
+            throw new ConfigError('Invalid SEOTrove config', this.issues);
+        }
+    }
+}
+
+function displayPath(file: string): string {
+    const relative = path.relative(process.cwd(), file);
+    return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : file;
+}
+
+async function fileExists(file: string): Promise<boolean> {
+    try {
+        return (await fs.stat(file)).isFile();
+    } catch {
+        return false;
+    }
+}
+
+async function importConfigModule(file: string): Promise<unknown> {
+    let module: Record<string, unknown>;
+    try {
+        module = await import(pathToFileURL(file).href);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_UNKNOWN_FILE_EXTENSION') {
+            throw new ConfigError(`Cannot load ${displayPath(file)}: TypeScript config files need Node.js 22.6+ with --experimental-strip-types `
+                + '(on by default since 23.6), or a loader such as `node --import tsx`');
+        }
+        throw new ConfigError(`Cannot load ${displayPath(file)}: ${(error as Error).message}`);
+    }
+    const exported = module['default'] ?? module;
+    return typeof exported === 'function' ? await exported() : exported;
+}
+
+async function readConfigFile(file: string, positions: Map<string, number>): Promise<unknown> {
+    const extension = path.extname(file).toLowerCase();
+    if (['.ts', '.mts', '.cts', '.js', '.mjs', '.cjs'].includes(extension)) {
+        return importConfigModule(file);
+    }
+
+    const text = await fs.readFile(file, 'utf-8');
+    if (extension === '.yaml' || extension === '.yml') {
+        return parseYaml(text, { source: displayPath(file), positions });
+    }
+    if (extension === '.json') {
+        try {
+            return JSON.parse(text);
+        } catch (error) {
+            throw new ConfigError('Invalid JSON', [{ path: '', message: (error as Error).message, source: displayPath(file) }]);
+        }
+    }
+    throw new ConfigError(`Unsupported config file type "${extension}" - use .json, .yaml, .yml, .js, .mjs, .cjs or .ts`);
+}
+
+/**
+ * Identity helper that types a `seotrove.config.ts`
+ */
+export function defineConfig(config: SeoTroveConfig): SeoTroveConfig {
+    return config;
+}
+
+/**
+ * Apply SEOTROVE_* environment overrides to a config object and validate it. Defaults are merged
+ * into every site and S3 storage settings become adapters. Throws a ConfigError listing every
+ * invalid field, with the file line or environment variable it came from.
+ */
+export function resolveConfig(config: unknown, options: ResolveConfigOptions = {}): LoadedConfig {
+    return new ConfigResolver(options).resolve(config, options.env || process.env);
+}
+
+/**
+ * Read a config file (JSON, YAML, or a JS/TS module exporting the config or a function returning
+ * it), apply environment overrides and validate it - see resolveConfig(). Without a config file,
+ * the sites come from the environment alone.
+ */
+export async function loadConfig(options: LoadConfigOptions = {}): Promise<LoadedConfig> {
+    const env = options.env || process.env;
+    const cwd = options.cwd || process.cwd();
+    const requested = options.file || env[CONFIG_FILE_ENV];
+
+    let file: string | null = null;
+    if (requested) {
+        file = path.resolve(cwd, requested);
+        if (!await fileExists(file)) {
+            throw new ConfigError(`Config file not found: ${file}`);
+        }
+    } else {
+        for (const name of CONFIG_FILE_NAMES) {
+            if (await fileExists(path.join(cwd, name))) {
+                file = path.join(cwd, name);
+                break;
+            }
+        }
+    }
+
+    const positions = new Map<string, number>();
+    const raw = file ? await readConfigFile(file, positions) : {};
+    return resolveConfig(raw, { file, env, positions });
+}
+
+/**
+ * A ContentScheduler with a fetcher for every configured site, keyed by site id. Schedulers aren't started.
+ */
+export function createSchedulerFromConfig(config: LoadedConfig, options: ContentSchedulerOptions = {}): ContentScheduler {
+    const schedulerOptions: ContentSchedulerOptions = { ...options };
+    if (schedulerOptions.logLevel === undefined && config.logLevel !== undefined) {
+        schedulerOptions.logLevel = config.logLevel;
+    }
+    const scheduler = new ContentScheduler(schedulerOptions);
+    for (const [id, site] of Object.entries(config.sites)) {
+        scheduler.addFetcher(id, site);
+    }
+    return scheduler;
+}
@@ -0,0 +1,255 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+import { ContentFetcher } from './content-fetcher';
+import { MemoryStorageAdapter } from './memory-storage-adapter';
+import { ContentFetcherConfig, ContentPage, FetchFunction } from './types';
+
+function contentResponse(pages: unknown[]): Response {
+    return new Response(JSON.stringify({ pages, sitemapXml: '', robotTxt: '' }), { status: 200 });
+}
+
+function createFetcher(fetch: FetchFunction, overrides: Partial<ContentFetcherConfig> = {}): { fetcher: ContentFetcher; storage: MemoryStorageAdapter } {
+    const storage = new MemoryStorageAdapter();
+    const fetcher = new ContentFetcher({
+        domain: 'example.com',
+        installId: 'install-1',
+        targetDirectory: '/tmp/unused',
+        storage,
+        circuitBreaker: false,
+        retry: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, jitter: false },
+        logger: { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined },
+        ...overrides,
+        transport: { fetch, ...overrides.transport }
+    });
+    return { fetcher, storage };
+}
+
+const page = (urlPath: string, html: string = `<h1>${urlPath}</h1>`): ContentPage => ({ urlPath, html });
+
+describe('ContentFetcher overlapping syncs', () => {
+    it('reports only its own request attempts and quarantined pages', async () => {
+        const responses = [
+            () => new Response('busy', { status: 503 }),
+            () => contentResponse([page('/b')]),
+            () => contentResponse([page('/a'), { urlPath: '/broken' }])
+        ];
+        const { fetcher } = createFetcher(async () => (responses.shift() as () => Response)());
+
+        const [first, second] = await Promise.all([fetcher.syncNewContentOnly(), fetcher.syncNewContentOnly()]);
+
+        expect(first.attempts?.map(attempt => attempt.status)).toEqual([503, 200]);
+        expect(first.errors).toEqual([expect.stringContaining('Invalid page /broken')]);
+        expect(second.attempts?.map(attempt => attempt.status)).toEqual([200]);
+        expect(second.success).toBe(true);
+    });
+});
+
+describe('ContentFetcher dry runs', () => {
+    it('leave the manifest of an overlapping sync alone and plan against its finished files', async () => {
+        let release: () => void = () => undefined;
+        let calls = 0;
+        const fetch: FetchFunction = () => {
+            calls++;
+            if (calls > 1) {
+                return Promise.resolve(contentResponse([page('/a'), page('/b')]));
+            }
+            return new Promise(resolve => {
+                release = () => resolve(contentResponse([page('/a')]));
+            });
+        };
+        const { fetcher, storage } = createFetcher(fetch);
+
+        const sync = fetcher.syncNewContentOnly();
+        await vi.waitFor(() => expect(calls).toBe(1));
+        const dryRun = fetcher.syncNewContentOnly({ dryRun: true });
+        release();
+
+        expect((await sync).success).toBe(true);
+        const plan = (await dryRun).plan;
+        expect(plan?.files.find(file => file.key === 'a.html')?.action).toBe('unchanged');
+        expect(plan?.files.find(file => file.key === 'b.html')?.action).toBe('create');
+        const manifest = JSON.parse(await storage.read('.seotrove-manifest.json') || '{}');
+        expect(Object.keys(manifest.files)).toEqual(['a.html']);
+        expect(await storage.exists('b.html')).toBe(false);
+    });
+});
+
+describe('ContentFetcher abort', () => {
+    it('aborts only the sync whose signal fired', async () => {
+        const pending: Array<() => void> = [];
+        const fetch: FetchFunction = (_url, init) => new Promise((resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+            pending.push(() => resolve(contentResponse([page('/a')])));
+        });
+        const { fetcher } = createFetcher(fetch);
+        const controller = new AbortController();
+
+        const aborted = fetcher.syncNewContentOnly({ signal: controller.signal });
+        const running = fetcher.syncNewContentOnly();
+        await vi.waitFor(() => expect(pending).toHaveLength(2));
+        controller.abort(new Error('stop'));
+
+        expect((await aborted).aborted).toBe(true);
+        pending[1]?.();
+        const result = await running;
+        expect(result.success).toBe(true);
+        expect(result.aborted).toBeUndefined();
+        expect(result.filesCreated).toContain('a.html');
+    });
+});
+
+describe('ContentFetcher sitemap merge', () => {
+    const urlset = (...paths: string[]): string =>
+        `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${paths.map(path => `<url><loc>https://example.com${path}</loc></url>`).join('')}</urlset>`;
+
+    it('removes the URLs it added once they are no longer published', async () => {
+        const sitemaps = [urlset('/a', '/b'), urlset('/a')];
+        const fetch: FetchFunction = async () => new Response(JSON.stringify({ pages: [page('/a')], sitemapXml: sitemaps[0], robotTxt: '' }), { status: 200 });
+        const { fetcher, storage } = createFetcher(fetch, { sitemap: { mode: 'merge' } });
+        await storage.write('sitemap.xml', urlset('/own', '/a'));
+
+        await fetcher.syncAllContent();
+        expect(await storage.read('sitemap.xml')).toContain('https://example.com/b');
+        sitemaps.shift();
+        await fetcher.syncAllContent();
+
+        const sitemap = await storage.read('sitemap.xml') || '';
+        expect(sitemap).toContain('https://example.com/own');
+        expect(sitemap).toContain('https://example.com/a');
+        expect(sitemap).not.toContain('https://example.com/b');
+    });
+
+    it('audits only its own URLs in a merged sitemap', async () => {
+        const fetch: FetchFunction = async () => new Response(JSON.stringify({ pages: [page('/a')], sitemapXml: urlset('/a', '/missing'), robotTxt: '' }), { status: 200 });
+        const { fetcher, storage } = createFetcher(fetch, { sitemap: { mode: 'merge' }, audit: true });
+        await storage.write('sitemap.xml', urlset('/own'));
+
+        const result = await fetcher.syncAllContent();
+
+        const entries = result.audit?.issues.filter(issue => issue.rule === 'sitemap-entry-without-page');
+        expect(entries?.map(issue => issue.url)).toEqual(['https://example.com/missing']);
+    });
+});
+
+describe('ContentFetcher redirects', () => {
+    const serving = (pages: () => ContentPage[]): FetchFunction => async () => contentResponse(pages());
+
+    it('redirects a page that moved in a full sync without pruning', async () => {
+        let pages = [page('/old', '<h1>Post</h1>'), page('/kept')];
+        const { fetcher } = createFetcher(serving(() => pages), { redirects: true });
+        await fetcher.syncAllContent();
+
+        pages = [page('/new', '<h1>Post</h1>'), page('/kept')];
+        const result = await fetcher.syncAllContent();
+
+        expect(result.redirects).toEqual([{ from: '/old', to: '/new', status: 301 }]);
+        expect((await fetcher.syncAllContent()).redirects).toBeUndefined();
+    });
+
+    it('only redirects identical pages after a new-content sync and marks nothing as removed', async () => {
+        let pages = [page('/a', '<h1>A</h1>'), page('/b', '<h1>B</h1>')];
+        const { fetcher } = createFetcher(serving(() => pages), { redirects: true });
+        await fetcher.syncNewContentOnly();
+
+        pages = [page('/a-moved', '<h1>A</h1>')];
+        const result = await fetcher.syncNewContentOnly();
+
+        expect(result.redirects).toEqual([{ from: '/a', to: '/a-moved', status: 301 }]);
+    });
+
+    it('counts the redirect files in the result message', async () => {
+        const { fetcher } = createFetcher(serving(() => [page('/a')]), { redirects: true });
+
+        const result = await fetcher.syncAllContent();
+
+        expect(result.filesCreated).toEqual(['a.html', 'seotrove-redirects.json']);
+        expect(result.message).toContain('2 created');
+    });
+});
+
+describe('ContentFetcher first sync in release mode', () => {
+    async function withReleases(test: (createReleaseFetcher: (overrides?: Partial<ContentFetcherConfig>) => ContentFetcher) => Promise<void>): Promise<void> {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-first-sync-'));
+        const fetch: FetchFunction = async () => contentResponse([page('/a')]);
+        try {
+            await test((overrides = {}) => new ContentFetcher({
+                domain: 'example.com',
+                installId: 'install-1',
+                targetDirectory: path.join(root, 'public'),
+                releases: {},
+                circuitBreaker: false,
+                logger: { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined },
+                transport: { fetch },
+                ...overrides
+            }));
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    }
+
+    it('stays pending when the release is rejected', () => withReleases(async createReleaseFetcher => {
+        const fetcher = createReleaseFetcher({ audit: { failOn: 'error' } });
+
+        const result = await fetcher.syncContent();
+
+        expect(result.success).toBe(false);
+        expect(fetcher.isFirstSyncPending()).toBe(true);
+        await createReleaseFetcher().syncNewContentOnly();
+        const restarted = createReleaseFetcher();
+        await restarted.syncContent({ dryRun: true });
+        expect(restarted.isFirstSyncPending()).toBe(true);
+    }));
+
+    it('is recorded in the active release when the release is unchanged', () => withReleases(async createReleaseFetcher => {
+        await createReleaseFetcher().syncNewContentOnly();
+        const fetcher = createReleaseFetcher();
+
+        const result = await fetcher.syncContent();
+
+        expect(result.success).toBe(true);
+        expect(result.release).toBeUndefined();
+        expect(fetcher.isFirstSyncPending()).toBe(false);
+        const restarted = createReleaseFetcher();
+        await restarted.syncContent({ dryRun: true });
+        expect(restarted.isFirstSyncPending()).toBe(false);
+    }));
+});
+
+describe('ContentFetcher lock', () => {
+    async function lockFilesDuringSync(overrides: Partial<ContentFetcherConfig>, root: string): Promise<string[]> {
+        let seen: string[] = [];
+        const fetch: FetchFunction = async () => {
+            const found = await fs.readdir(root, { recursive: true });
+            seen = found.map(file => String(file)).filter(file => file.endsWith('.lock'));
+            return contentResponse([page('/a')]);
+        };
+        const { fetcher } = createFetcher(fetch, { targetDirectory: path.join(root, 'site', 'public'), ...overrides });
+        const result = await fetcher.syncNewContentOnly();
+        expect(result.success).toBe(true);
+        return seen;
+    }
+
+    it('keeps the lock file next to targetDirectory by default', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-fetcher-lock-'));
+        try {
+            const seen = await lockFilesDuringSync({ lock: true }, root);
+
+            expect(seen).toEqual([path.join('site', 'public.locks', '.seotrove-example.com.lock')]);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+
+    it('keeps the lock file in the configured directory', async () => {
+        const root = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-fetcher-lock-'));
+        try {
+            const seen = await lockFilesDuringSync({ lock: { directory: path.join(root, 'locks'), staleMs: 5000 } }, root);
+
+            expect(seen).toEqual([path.join('locks', '.seotrove-example.com.lock')]);
+        } finally {
+            await fs.rm(root, { recursive: true, force: true });
+        }
+    });
+});
@@ -1,6 +1,104 @@
+import { CircuitState, ContentApiResponse, ContentFetcherConfig, ContentPage, FetcherStatus, InvalidationResult, LockProvider, ManifestEntry, Redirect, ReleaseInfo, RequestAttempt, ScheduleInfo, ShutdownOptions, ShutdownResult, StorageAdapter, StorageContent, SyncAllContentOptions, SyncEventListener, SyncEventMap, SyncEventName, SyncLock, SyncManifest, SyncOperation, SyncOptions, SyncResult, SyncStateStore } from './types';
 import path from 'path';
-import { ContentApiResponse, ContentFetcherConfig, SyncResult } from './types';
-import { FileManager } from './file-manager';
+import zlib from 'zlib';
+import { CircuitBreaker } from './circuit-breaker';
+import { parseContentStream } from './content-stream';
+import { ApiError, InvalidationError, toError, ValidationError, WriteError } from './errors';
+import { extractPageMetadata, getPageUrlPath, HtmlTransformPipeline } from './html-transform';
+import { decodeHtmlEntities } from './html-to-markdown';
+import { HttpTransport } from './http-transport';
+import { LocalStorageAdapter } from './local-storage-adapter';
+import { ScopedLogger, ScopedLoggerOptions } from './logger';
+import { formatPrometheus, MetricFamily, withLabels } from './metrics';
+import { buildContentCollection, DEFAULT_COLLECTION_FILE_NAME, getOutputKey, renderPageOutput } from './output-format';
+import { normalizeUrlPath } from './path-resolver';
+import { ReleaseManager } from './release-manager';
+import { checkContentPage, InvalidPage, ValidatedContent, validateContentPage, validateContentResponse } from './response-validation';
+import { collectRedirects, formatNetlifyRedirects, formatNginxRedirectMap, formatRedirectMap, formatVercelRedirects, matchMovedPages, RedirectCandidate, REDIRECT_FILE_NAMES, updateRedirectHistory } from './redirects';
+import { mergeRobotsBlock } from './robots';
+import { AuditOptions, AuditPage, auditPages, normalizeSitePath } from './seo-audit';
+import { generateSitemapFiles, mergeUrlsets, ParsedSitemap, parseSitemap, SitemapGenerationOptions, SitemapPageUrl, updateSitemapIndex } from './sitemap';
+import { createEmptyManifest, hashContent, StorageStateStore } from './sync-state';
+import { SyncStatusTracker } from './sync-status';
+import { SyncEventEmitter } from './sync-events';
+import { FileLockProvider } from './sync-lock';
+import { buildSyncPlan, DryRunStorageAdapter } from './sync-plan';
+import { SyncSchedule } from './sync-schedule';
+
+type WriteOutcome = 'created' | 'updated' | 'unchanged';
+
+interface ContentFiles {
+    sitemapXml: string;
+    robotTxt: string;
+}
+
+// Pages as they arrive from the API; sitemap and robots.txt are known once all pages are through
+type ContentStream = AsyncGenerator<ContentPage, ContentFiles, undefined>;
+
+// One API response of a possibly paginated endpoint, with the query for the next one
+type ContentBatch = AsyncGenerator<ContentPage, ContentFiles & { nextQuery: Record<string, string> | null }, undefined>;
+
+/**
+ * State of one sync, passed along rather than kept on the fetcher - syncs can overlap when there
+ * is no lock, and dry runs never take it
+ */
+interface SyncRun {
+    attempts: RequestAttempt[];             // Every HTTP attempt, reported on the result
+    invalidPages: InvalidPage[];            // Quarantined pages, reported as failures by createFiles
+    fetchAllComplete: boolean;              // Both endpoints were read in full - safe to prune
+    stagingStorage: StorageAdapter | null;  // The staged release being written, in release mode
+    controller: AbortController;            // Aborted through options.signal or shutdown()
+    dryRun: boolean;
+    manifest: SyncManifest | null;          // Dry runs plan against their own copy of the stored manifest
+}
+
+const DEFAULT_MAX_PRUNE_PERCENT = 50;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30 * 1000;
+
+// Undefined when the text isn't JSON - JSON itself can't produce undefined
+function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+async function* toBatch<T>(pages: ContentPage[], result: T): AsyncGenerator<ContentPage, T, undefined> {
+    yield* pages;
+    return result;
+}
+
+// Matched on identical source HTML only - a shared title doesn't show a move
+function toSourceCandidate(entry: ManifestEntry & { urlPath: string }): RedirectCandidate {
+    return entry.sourceHash !== undefined ? { urlPath: entry.urlPath, sourceHash: entry.sourceHash } : { urlPath: entry.urlPath };
+}
+
+function describeFiles(result: SyncResult, durationMs: number): string {
+    const counts = `${result.filesCreated.length} created, ${result.filesUpdated?.length || 0} updated, ${result.filesUnchanged?.length || 0} unchanged`;
+    const errors = result.errors?.length || 0;
+    return errors === 0
+        ? `Successfully synced files (${counts}) in ${durationMs}ms`
+        : `Synced files (${counts}) with ${errors} errors in ${durationMs}ms`;
+}
+
+/**
+ * Query for the next batch of a paginated response: a `nextCursor` is passed back as `cursor`,
+ * `page`/`totalPages` are followed page by page. Null when this was the last batch.
+ */
+function getNextQuery(data: Record<string, unknown>): Record<string, string> | null {
+    const nextCursor = data['nextCursor'];
+    if (typeof nextCursor === 'string' && nextCursor !== '') {
+        return { cursor: nextCursor };
+    }
+    const page = data['page'];
+    const totalPages = data['totalPages'];
+    if (typeof page === 'number' && typeof totalPages === 'number' && Number.isInteger(page) && page < totalPages) {
+        return { page: String(page + 1) };
+    }
+    return null;
+}
 
 // Check if we're in a browser environment
 if (typeof globalThis !== 'undefined' && 'window' in globalThis) {
@@ -9,86 +107,258 @@ if (typeof globalThis !== 'undefined' && 'window' in globalThis) {
 
 export class ContentFetcher {
     private config: ContentFetcherConfig;
-    private intervalId: NodeJS.Timeout | null = null;
+    private schedule: SyncSchedule | null = null;
     private isFirstSync: boolean = true;
+    private transport: HttpTransport;
+    private circuitBreaker: CircuitBreaker | null;
+    private stateStore: SyncStateStore;
+    private manifest: SyncManifest | null = null;
+    private firstSyncReset: boolean = false;
+    private releaseManager: ReleaseManager | null;
+    private storage: StorageAdapter;
+    private lockProvider: LockProvider | null;
+    private events: SyncEventEmitter;
+    private transformPipeline: HtmlTransformPipeline | null;
+    private removeConfigHooks: (() => void) | null;
+    private logger: ScopedLogger;
+    private activeSyncs: Map<Promise<SyncResult>, SyncRun> = new Map();
+    private shuttingDown: boolean = false;
+    private status: SyncStatusTracker = new SyncStatusTracker();
 
     constructor(config: ContentFetcherConfig) {
         this.config = config;
+        this.logger = new ScopedLogger(this.getLoggerOptions());
+        this.circuitBreaker = config.circuitBreaker === false ? null : new CircuitBreaker(config.circuitBreaker);
+        this.transport = new HttpTransport(config, this.circuitBreaker);
+        this.storage = config.storage || new LocalStorageAdapter(config.targetDirectory);
+        this.stateStore = config.stateStore || new StorageStateStore(this.storage);
+        this.releaseManager = this.createReleaseManager();
+        this.lockProvider = this.createLockProvider();
+        this.events = new SyncEventEmitter(config.domain, this.logger);
+        this.removeConfigHooks = config.hooks ? this.events.addHooks(config.hooks) : null;
+        this.transformPipeline = config.transform ? new HtmlTransformPipeline(config.transform) : null;
     }
 
     async fetchContent(): Promise<ContentApiResponse> {
-        const url = `https://api.seotrove.com/api/v1/sdk/${this.config.domain}/content?installId=${this.config.installId}`;
+        return this.fetchEndpoint(this.createRun(), 'content', 'new content');
+    }
+
+    async fetchPreviouslyPublishedContent(): Promise<ContentApiResponse> {
+        return this.fetchEndpoint(this.createRun(), 'content/previously-published', 'previously published content');
+    }
 
-        console.log(`[${this.config.domain}] Fetching new content from: ${url}`);
+    private async fetchEndpoint(run: SyncRun, endpoint: string, description: string): Promise<ContentApiResponse> {
+        return this.collectContent(await this.openContent(run, endpoint, description));
+    }
 
-        try {
-            const response = await fetch(url);
-
-            if (!response.ok) {
-                // Handle the "No generated pages to publish" case
-                if (response.status === 404) {
-                    const errorData = await response.json().catch(() => ({})) as any;
-                    if (errorData.error === "No generated pages to publish.") {
-                        console.log(`[${this.config.domain}] No new content available to sync`);
-                        return {
-                            sitemapXml: '',
-                            robotTxt: '',
-                            pages: []
-                        };
-                    }
+    /**
+     * Fetch one content endpoint as a stream of validated pages. The first request is made before
+     * this resolves; later batches of a paginated response are requested as the stream is read.
+     * Failures throw an ApiError (unreachable API, error status) or a ValidationError (malformed
+     * response); invalid pages are quarantined for the running sync unless onInvalidPage is `reject`.
+     */
+    private async openContent(run: SyncRun, endpoint: string, description: string): Promise<ContentStream> {
+        const first = await this.requestBatch(run, endpoint, description, {});
+        return this.paginate(run, endpoint, description, first);
+    }
+
+    private async *paginate(run: SyncRun, endpoint: string, description: string, batch: ContentBatch): ContentStream {
+        const files: ContentFiles = { sitemapXml: '', robotTxt: '' };
+        const cursors = new Set<string>();
+        let pageCount = 0;
+        let batchCount = 1;
+
+        for (;;) {
+            let next = await batch.next();
+            while (!next.done) {
+                pageCount++;
+                yield next.value;
+                next = await batch.next();
+            }
+
+            const { sitemapXml, robotTxt, nextQuery } = next.value;
+            files.sitemapXml ||= sitemapXml;
+            files.robotTxt ||= robotTxt;
+            if (!nextQuery) {
+                break;
+            }
+            const cursor = nextQuery['cursor'];
+            if (cursor !== undefined) {
+                if (cursors.has(cursor)) {
+                    throw new ValidationError(`Failed to fetch ${description}: API returned the same cursor twice`);
                 }
-                throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+                cursors.add(cursor);
             }
+            batch = await this.requestBatch(run, endpoint, description, nextQuery);
+            batchCount++;
+        }
 
-            const data = await response.json() as ContentApiResponse;
-            console.log(`[${this.config.domain}] New content fetched successfully - ${data.pages?.length || 0} pages`);
-            return data;
+        const batches = batchCount > 1 ? ` in ${batchCount} batches` : '';
+        this.logger.info(`${description[0]?.toUpperCase()}${description.slice(1)} fetched successfully - ${pageCount} pages${batches}`, { pages: pageCount, batches: batchCount });
+        return files;
+    }
+
+    /**
+     * Request one batch of an endpoint. The response status is checked before this resolves; the
+     * pages are parsed as the returned stream is read when streaming is enabled.
+     */
+    private async requestBatch(run: SyncRun, endpoint: string, description: string, query: Record<string, string>): Promise<ContentBatch> {
+        const url = this.transport.buildUrl(`${encodeURIComponent(this.config.domain)}/${endpoint}`, {
+            installId: this.config.installId,
+            ...(this.config.pageSize ? { limit: String(this.config.pageSize) } : {}),
+            ...query
+        });
+        const loggedUrl = url.split('?')[0] || url;
+        const failed = `Failed to fetch ${description}`;
+
+        if (Object.keys(query).length === 0) {
+            this.logger.info(`Fetching ${description} from: ${loggedUrl}`, { url: loggedUrl });
+        } else {
+            this.logger.debug(`Fetching next batch of ${description}`, { url: loggedUrl, ...query });
+        }
+
+        // Aborting the sync cancels the request, its retries and a streamed body
+        const init: RequestInit = { signal: run.controller.signal };
+        let response: Response;
+        try {
+            response = this.config.streaming
+                ? await this.transport.requestStream(url, init, run.attempts)
+                : await this.transport.request(url, init, run.attempts);
         } catch (error) {
-            throw new Error(`Failed to fetch new content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw new ApiError(`${failed}: ${error instanceof Error ? error.message : 'Unknown error'}`, { url: loggedUrl, cause: error });
         }
-    }
 
-    async fetchPreviouslyPublishedContent(): Promise<ContentApiResponse> {
-        const url = `https://api.seotrove.com/api/v1/sdk/${this.config.domain}/content/previously-published?installId=${this.config.installId}`;
+        if (this.config.streaming && response.ok && response.body) {
+            return this.streamBatch(run, response.body as unknown as AsyncIterable<Uint8Array>, description, loggedUrl);
+        }
+
+        let body: string;
+        try {
+            body = await response.text();
+        } catch (error) {
+            throw new ApiError(`${failed}: ${error instanceof Error ? error.message : 'Unknown error'}`, { url: loggedUrl, cause: error });
+        }
+
+        if (!response.ok) {
+            // Handle the "No generated pages to publish" case
+            const errorData = parseJson(body) as { error?: unknown } | null | undefined;
+            if (response.status === 404 && errorData?.error === 'No generated pages to publish.') {
+                this.logger.info(`No ${description} available to sync`);
+                return toBatch([], { sitemapXml: '', robotTxt: '', nextQuery: null });
+            }
+            throw new ApiError(`${failed}: API request failed: ${response.status} ${response.statusText}`, {
+                status: response.status,
+                body: body.slice(0, 2048),
+                url: loggedUrl
+            });
+        }
 
-        console.log(`[${this.config.domain}] Fetching previously published content from: ${url}`);
+        const data = parseJson(body);
+        if (data === undefined) {
+            throw new ValidationError(`${failed}: API response is not valid JSON`);
+        }
 
+        let validated: ValidatedContent;
         try {
-            const response = await fetch(url);
-
-            if (!response.ok) {
-                // Handle the "No generated pages to publish" case
-                if (response.status === 404) {
-                    const errorData = await response.json().catch(() => ({})) as any;
-                    if (errorData.error === "No generated pages to publish.") {
-                        console.log(`[${this.config.domain}] No previously published content available`);
-                        return {
-                            sitemapXml: '',
-                            robotTxt: '',
-                            pages: []
-                        };
-                    }
+            validated = validateContentResponse(data);
+        } catch (error) {
+            throw error instanceof ValidationError ? new ValidationError(`${failed}: ${error.message}`, error.issues) : error;
+        }
+
+        const { content, invalidPages } = validated;
+        this.quarantine(run, invalidPages, description);
+        return toBatch(content.pages, {
+            sitemapXml: content.sitemapXml,
+            robotTxt: content.robotTxt,
+            nextQuery: getNextQuery(data as Record<string, unknown>)
+        });
+    }
+
+    /**
+     * Parse a streamed response, validating each page as it completes. An invalid page is
+     * quarantined at the end of the batch, or - with onInvalidPage `reject` - fails the stream
+     * right away; pages before it may already have been written by then.
+     */
+    private async *streamBatch(run: SyncRun, body: AsyncIterable<Uint8Array>, description: string, loggedUrl: string): ContentBatch {
+        const failed = `Failed to fetch ${description}`;
+        const items = parseContentStream(body);
+        const invalidPages: InvalidPage[] = [];
+        let fields: Record<string, unknown>;
+
+        for (let index = 0; ; index++) {
+            let next: IteratorResult<unknown, Record<string, unknown>>;
+            try {
+                next = await items.next();
+            } catch (error) {
+                if (error instanceof ValidationError) {
+                    throw new ValidationError(`${failed}: ${error.message}`, error.issues);
                 }
-                throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+                throw new ApiError(`${failed}: ${error instanceof Error ? error.message : 'Unknown error'}`, { url: loggedUrl, cause: error });
+            }
+            if (next.done) {
+                fields = next.value;
+                break;
+            }
+
+            const invalid = checkContentPage(next.value, index);
+            if (!invalid) {
+                yield next.value as ContentPage;
+            } else if (this.config.onInvalidPage === 'reject') {
+                this.quarantine(run, [invalid], description);
+            } else {
+                invalidPages.push(invalid);
             }
+        }
 
-            const data = await response.json() as ContentApiResponse;
-            console.log(`[${this.config.domain}] Previously published content fetched successfully - ${data.pages?.length || 0} pages`);
-            return data;
+        let validated: ValidatedContent;
+        try {
+            // Only the top-level fields are left - pages that were an array have been handed out
+            validated = validateContentResponse(fields);
         } catch (error) {
-            throw new Error(`Failed to fetch previously published content: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            throw error instanceof ValidationError ? new ValidationError(`${failed}: ${error.message}`, error.issues) : error;
+        }
+        this.quarantine(run, invalidPages, description);
+        return { sitemapXml: validated.content.sitemapXml, robotTxt: validated.content.robotTxt, nextQuery: getNextQuery(fields) };
+    }
+
+    /**
+     * Hold back invalid pages so the run reports them, or reject the response when configured to
+     */
+    private quarantine(run: SyncRun, invalidPages: InvalidPage[], description: string): void {
+        if (invalidPages.length === 0) {
+            return;
         }
+        const issues = invalidPages.map(page => `page ${page.urlPath ?? `#${page.index}`}: ${page.reason}`);
+        if (this.config.onInvalidPage === 'reject') {
+            throw new ValidationError(`Failed to fetch ${description}: ${invalidPages.length} invalid pages in API response (${issues.join('; ')})`, issues);
+        }
+        run.invalidPages.push(...invalidPages);
+        this.logger.warn(`Quarantined ${invalidPages.length} invalid pages from the ${description} response`, { invalidPages: invalidPages.length });
+    }
+
+    private async collectContent(stream: ContentStream): Promise<ContentApiResponse> {
+        const pages: ContentPage[] = [];
+        let next = await stream.next();
+        while (!next.done) {
+            pages.push(next.value);
+            next = await stream.next();
+        }
+        return { ...next.value, pages };
     }
 
     async fetchAllContent(): Promise<ContentApiResponse> {
-        console.log(`[${this.config.domain}] Fetching all content (new + previously published)...`);
+        return this.collectAllContent(this.createRun());
+    }
+
+    private async collectAllContent(run: SyncRun): Promise<ContentApiResponse> {
+        this.logger.info('Fetching all content (new + previously published)...');
 
         try {
             // Fetch both new and previously published content in parallel
             // Handle cases where one might fail (404) but the other succeeds
             const [newContentResult, previousContentResult] = await Promise.allSettled([
-                this.fetchContent(),
-                this.fetchPreviouslyPublishedContent()
+                this.fetchEndpoint(run, 'content', 'new content'),
+                this.fetchEndpoint(run, 'content/previously-published', 'previously published content')
             ]);
 
             // Get successful results or empty content for failed ones
@@ -100,12 +370,17 @@ export class ContentFetcher {
                 ? previousContentResult.value 
                 : { sitemapXml: '', robotTxt: '', pages: [] };
 
+            // Quarantined pages are missing from the response, so it can't be used for pruning either
+            run.fetchAllComplete = newContentResult.status === 'fulfilled'
+                && previousContentResult.status === 'fulfilled'
+                && run.invalidPages.length === 0;
+
             // Log any failures
             if (newContentResult.status === 'rejected') {
-                console.log(`[${this.config.domain}] New content fetch failed: ${newContentResult.reason}`);
+                this.logger.warn(`New content fetch failed: ${newContentResult.reason}`);
             }
             if (previousContentResult.status === 'rejected') {
-                console.log(`[${this.config.domain}] Previously published content fetch failed: ${previousContentResult.reason}`);
+                this.logger.warn(`Previously published content fetch failed: ${previousContentResult.reason}`);
             }
 
             // Merge the content
@@ -115,283 +390,476 @@ export class ContentFetcher {
                 pages: [...(previousContent.pages || []), ...(newContent.pages || [])]
             };
 
-            console.log(`[${this.config.domain}] All content merged successfully - Total: ${mergedContent.pages?.length || 0} pages (${previousContent.pages?.length || 0} previous + ${newContent.pages?.length || 0} new)`);
+            this.logger.info(`All content merged successfully - Total: ${mergedContent.pages?.length || 0} pages (${previousContent.pages?.length || 0} previous + ${newContent.pages?.length || 0} new)`, {
+                pages: mergedContent.pages?.length || 0,
+                previousPages: previousContent.pages?.length || 0,
+                newPages: newContent.pages?.length || 0
+            });
             return mergedContent;
         } catch (error) {
             throw new Error(`Failed to fetch all content: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
     }
 
-    async createFiles(content: ContentApiResponse): Promise<SyncResult> {
+    /**
+     * Streaming counterpart of fetchAllContent: previously published pages, then new ones. An
+     * endpoint that fails is skipped the same way, which leaves the content incomplete for pruning.
+     */
+    private async *streamAllContent(run: SyncRun): ContentStream {
+        this.logger.info('Streaming all content (new + previously published)...');
+        run.fetchAllComplete = false;
+
+        const endpoints = [
+            { endpoint: 'content/previously-published', description: 'previously published content', label: 'Previously published content' },
+            { endpoint: 'content', description: 'new content', label: 'New content' }
+        ];
+        const files: ContentFiles[] = [];
+        let complete = true;
+        for (const { endpoint, description, label } of endpoints) {
+            try {
+                files.unshift(yield* await this.openContent(run, endpoint, description));
+            } catch (error) {
+                complete = false;
+                this.logger.warn(`${label} fetch failed: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+
+        run.fetchAllComplete = complete && run.invalidPages.length === 0;
+        // New content first, as in fetchAllContent
+        return {
+            sitemapXml: files.find(file => file.sitemapXml)?.sitemapXml || '',
+            robotTxt: files.find(file => file.robotTxt)?.robotTxt || ''
+        };
+    }
+
+    async createFiles(content: ContentApiResponse, options: SyncOptions = {}): Promise<SyncResult> {
+        return this.writeContent(this.createRun(options), content, options);
+    }
+
+    private async createFilesIn(run: SyncRun, storage: StorageAdapter, content: ContentStream, urlPaths: string[]): Promise<SyncResult> {
         const filesCreated: string[] = [];
+        const filesUpdated: string[] = [];
+        const filesUnchanged: string[] = [];
+        const filesSkipped: string[] = [];
         const errors: string[] = [];
+        const failures: Error[] = [];
         const startTime = Date.now();
 
+        const fail = (errorMsg: string, error: unknown) => {
+            errors.push(errorMsg);
+            failures.push(toError(error));
+            this.logger.error(errorMsg);
+        };
+
         try {
-            const baseDir = path.resolve(this.config.targetDirectory);
+            const manifest = await this.loadManifest(run);
+
+            const track = (relativePath: string, outcome: WriteOutcome) => {
+                if (outcome === 'created') {
+                    filesCreated.push(relativePath);
+                } else if (outcome === 'updated') {
+                    filesUpdated.push(relativePath);
+                } else {
+                    filesUnchanged.push(relativePath);
+                }
+            };
 
-            // Create sitemap.xml
-            if (content.sitemapXml) {
+            // Create page files - the stream is read to the end even when pages can't be written,
+            // so every page the API returned is known for pruning
+            const pagesReady = await this.prepareTransforms(fail);
+            const pageWrites = new Map<string, Promise<unknown>>();
+            const writePage = async (fetchedPage: ContentPage): Promise<void> => {
                 try {
-                    const sitemapPath = path.join(baseDir, 'sitemap.xml');
-                    await FileManager.writeFile(sitemapPath, content.sitemapXml);
-                    filesCreated.push('sitemap.xml');
-                    console.log(`[${this.config.domain}] Created sitemap.xml`);
-                } catch (error) {
-                    const errorMsg = `Failed to create sitemap.xml: ${error instanceof Error ? error.message : 'Unknown error'}`;
-                    errors.push(errorMsg);
-                    console.error(`[${this.config.domain}] ${errorMsg}`);
+                    const invalidReason = validateContentPage(fetchedPage);
+                    if (invalidReason) {
+                        throw new ValidationError(invalidReason);
+                    }
+                    urlPaths.push(fetchedPage.urlPath);
+                    if (!pagesReady) {
+                        return;
+                    }
+                    const prepared = await this.runBeforePageWrite(fetchedPage);
+                    if (!prepared) {
+                        filesSkipped.push(this.getPageKey(fetchedPage.urlPath));
+                        this.logger.debug(`Skipped page: ${fetchedPage.urlPath}`, { urlPath: fetchedPage.urlPath });
+                        return;
+                    }
+                    const relativePath = prepared.key;
+
+                    // Pages that map to the same file are written one after another, in arrival order
+                    const previous = pageWrites.get(relativePath);
+                    const write = (async () => {
+                        await previous;
+                        const page = await this.transformPage(prepared.page, relativePath);
+
+                        const format = this.config.output?.format;
+                        const outcome = await this.writeTrackedFile(manifest, storage, relativePath, renderPageOutput(page, format), page.urlPath);
+                        track(relativePath, outcome);
+                        this.recordPageMetadata(manifest, relativePath, page, prepared.page);
+                        if (outcome !== 'unchanged') {
+                            this.logger.debug(`${outcome === 'created' ? 'Created' : 'Updated'} page: ${relativePath}`, { file: relativePath, outcome });
+                        }
+                        await this.emit(run, 'pageWritten', { domain: this.config.domain, page, key: relativePath, outcome });
+                    })();
+                    pageWrites.set(relativePath, write.catch(() => undefined));
+                    await write;
+
+                } catch (pageError) {
+                    fail(`Failed to create page ${fetchedPage?.urlPath}: ${pageError instanceof Error ? pageError.message : 'Unknown error'}`, pageError);
                 }
+            };
+            // Null when the stream failed part-way - the sitemap and robots.txt never arrived
+            const files = await this.processPages(run, content, writePage, fail);
+
+            // Pages quarantined when the API response was validated
+            for (const invalid of run.invalidPages.splice(0)) {
+                const errorMsg = `Invalid page ${invalid.urlPath ?? `#${invalid.index}`} in API response: ${invalid.reason}`;
+                fail(errorMsg, new ValidationError(errorMsg, [invalid.reason]));
             }
 
             // Create robots.txt
-            if (content.robotTxt) {
+            if (files?.robotTxt) {
                 try {
-                    const robotsPath = path.join(baseDir, 'robots.txt');
-                    await FileManager.writeFile(robotsPath, content.robotTxt);
-                    filesCreated.push('robots.txt');
-                    console.log(`[${this.config.domain}] Created robots.txt`);
+                    const robotsTxt = this.config.robots?.mode === 'block'
+                        ? mergeRobotsBlock(await storage.read('robots.txt'), files.robotTxt)
+                        : files.robotTxt;
+                    track('robots.txt', await this.writeTrackedFile(manifest, storage, 'robots.txt', robotsTxt));
+                    this.logger.debug('Synced robots.txt', { file: 'robots.txt' });
                 } catch (error) {
-                    const errorMsg = `Failed to create robots.txt: ${error instanceof Error ? error.message : 'Unknown error'}`;
-                    errors.push(errorMsg);
-                    console.error(`[${this.config.domain}] ${errorMsg}`);
+                    fail(`Failed to create robots.txt: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
                 }
             }
 
-            // Create page files
-            if (content.pages && Array.isArray(content.pages)) {
-                for (const page of content.pages) {
-                    try {
-                        // Ensure urlPath has .html extension
-                        let urlPath = page.urlPath;
-                        if (!urlPath.endsWith('.html')) {
-                            urlPath = urlPath + '.html';
-                        }
-
-                        // Split urlPath into directory and filename
-                        const pageDir = path.dirname(urlPath);
-                        const pageFileName = path.basename(urlPath);
-
-                        // Create the full directory path
-                        const fullDir = pageDir === '.' ? baseDir : path.join(baseDir, pageDir);
-                        await FileManager.ensureDirectoryExists(fullDir);
-
-                        // Use the exact filename from urlPath
-                        const filePath = path.join(fullDir, pageFileName);
-
-                        await FileManager.writeFile(filePath, page.html);
-                        const relativePath = path.relative(baseDir, filePath);
-                        filesCreated.push(relativePath);
-                        console.log(`[${this.config.domain}] Created page: ${relativePath}`);
-
-                    } catch (pageError) {
-                        const errorMsg = `Failed to create page ${page.urlPath}: ${pageError instanceof Error ? pageError.message : 'Unknown error'}`;
-                        errors.push(errorMsg);
-                        console.error(`[${this.config.domain}] ${errorMsg}`);
+            // Create sitemap.xml - after the pages so a generated sitemap includes them
+            const generate = this.config.sitemap?.generate || 'never';
+            if (files && (generate === 'always' || (generate === 'fallback' && !files.sitemapXml))) {
+                try {
+                    for (const file of await this.prepareGeneratedSitemapFiles(storage, manifest)) {
+                        track(file.key, await this.writeTrackedFile(manifest, storage, file.key, file.content));
+                        this.logger.debug(`Generated ${file.key}`, { file: file.key });
+                    }
+                } catch (error) {
+                    fail(`Failed to generate sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+                }
+            } else if (files?.sitemapXml) {
+                try {
+                    for (const file of await this.prepareSitemapFiles(storage, manifest, files.sitemapXml)) {
+                        track(file.key, await this.writeTrackedFile(manifest, storage, file.key, file.content));
+                        this.logger.debug(`Synced ${file.key}`, { file: file.key });
                     }
+                } catch (error) {
+                    fail(`Failed to create sitemap.xml: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+                }
+            }
+
+            // Content collection - after the pages, built from every page in the manifest
+            if (this.config.output?.collection) {
+                try {
+                    const key = this.getCollectionKey();
+                    track(key, await this.writeTrackedFile(manifest, storage, key, await this.buildCollection(storage, manifest)));
+                } catch (error) {
+                    fail(`Failed to write content collection: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
                 }
             }
 
+            try {
+                manifest.lastSyncAt = new Date().toISOString();
+                await this.saveManifest(run);
+            } catch (error) {
+                fail(`Failed to save sync manifest: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+            }
+
             const duration = Date.now() - startTime;
-            console.log(`[${this.config.domain}] File creation completed: ${filesCreated.length} files created, ${errors.length} errors, ${duration}ms`);
+            const counts = `${filesCreated.length} created, ${filesUpdated.length} updated, ${filesUnchanged.length} unchanged`;
+            this.logger.info(`File creation completed: ${counts}, ${errors.length} errors, ${duration}ms`, {
+                created: filesCreated.length,
+                updated: filesUpdated.length,
+                unchanged: filesUnchanged.length,
+                errors: errors.length,
+                durationMs: duration
+            });
 
             const result: SyncResult = {
                 success: errors.length === 0,
-                message: errors.length === 0
-                    ? `Successfully created ${filesCreated.length} files in ${duration}ms`
-                    : `Created ${filesCreated.length} files with ${errors.length} errors in ${duration}ms`,
-                filesCreated
+                message: '',
+                filesCreated,
+                filesUpdated,
+                filesUnchanged
             };
 
+            if (filesSkipped.length > 0) {
+                result.filesSkipped = filesSkipped;
+            }
             if (errors.length > 0) {
                 result.errors = errors;
+                result.failures = failures;
             }
+            result.message = describeFiles(result, duration);
 
             return result;
 
         } catch (error) {
             const duration = Date.now() - startTime;
             const errorMsg = `Failed to create files: ${error instanceof Error ? error.message : 'Unknown error'}`;
-            console.error(`[${this.config.domain}] ${errorMsg} (${duration}ms)`);
+            this.logger.error(`${errorMsg} (${duration}ms)`, { durationMs: duration });
 
             return {
                 success: false,
                 message: errorMsg,
                 filesCreated,
-                errors: [errorMsg]
+                filesUpdated,
+                filesUnchanged,
+                errors: [errorMsg],
+                failures: [toError(error)]
             };
         }
     }
 
-    async syncContent(): Promise<SyncResult> {
-        const startTime = Date.now();
+    async syncContent(options: SyncOptions = {}): Promise<SyncResult> {
+        return this.runSync('sync', 'Sync', options, async run => {
+            this.logger.info('Starting content sync...');
 
-        try {
-            console.log(`[${this.config.domain}] Starting content sync...`);
+            let content: ContentApiResponse | ContentStream;
 
-            let content: ContentApiResponse;
+            // Loaded first - it records whether the first sync already completed
+            await this.loadManifest();
 
             if (this.isFirstSync) {
-                console.log(`[${this.config.domain}] First sync - attempting to fetch all content...`);
+                this.logger.info('First sync - attempting to fetch all content...');
                 try {
-                    content = await this.fetchAllContent();
+                    content = await this.fetchForSync(run, 'sync', () => this.collectAllContent(run), async () => this.streamAllContent(run));
                 } catch (error) {
-                    console.log(`[${this.config.domain}] Failed to fetch all content on first sync, falling back to new content only: ${error}`);
-                    content = await this.fetchContent();
+                    this.logger.warn(`Failed to fetch all content on first sync, falling back to new content only: ${error}`);
+                    content = await this.fetchForSync(run, 'sync', () => this.fetchEndpoint(run, 'content', 'new content'), () => this.openContent(run, 'content', 'new content'));
                 }
             } else {
-                console.log(`[${this.config.domain}] Subsequent sync - fetching new content only...`);
-                content = await this.fetchContent();
+                this.logger.info('Subsequent sync - fetching new content only...');
+                content = await this.fetchForSync(run, 'sync', () => this.fetchEndpoint(run, 'content', 'new content'), () => this.openContent(run, 'content', 'new content'));
             }
 
-            const result = await this.createFiles(content);
+            const result = await this.writeContent(run, content, options);
 
-            // Mark that first sync is complete
-            if (this.isFirstSync) {
+            // Mark that first sync is complete - persisted so restarts don't trigger another full fetch.
+            // Reloaded, since in release mode writeContent drops a manifest that didn't become the active one.
+            if (this.isFirstSync && !options.dryRun && result.success) {
+                const completed = await this.loadManifest(run);
+                completed.firstSyncCompletedAt = new Date().toISOString();
+                await this.saveManifest(run);
                 this.isFirstSync = false;
-                console.log(`[${this.config.domain}] First sync completed - future syncs will only fetch new content`);
+                this.logger.info('First sync completed - future syncs will only fetch new content');
             }
 
-            const duration = Date.now() - startTime;
-            console.log(`[${this.config.domain}] Sync completed: ${result.message} (Total: ${duration}ms)`);
             return result;
-
-        } catch (error) {
-            const duration = Date.now() - startTime;
-            const errorMsg = `Content sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-            console.error(`[${this.config.domain}] ${errorMsg} (${duration}ms)`);
-
-            return {
-                success: false,
-                message: errorMsg,
-                filesCreated: [],
-                errors: [errorMsg]
-            };
-        }
+        });
     }
 
-    async syncNewContentOnly(): Promise<SyncResult> {
-        const startTime = Date.now();
+    async syncNewContentOnly(options: SyncOptions = {}): Promise<SyncResult> {
+        return this.runSync('syncNewContent', 'New content sync', options, async run => {
+            this.logger.info('Starting new content sync...');
 
-        try {
-            console.log(`[${this.config.domain}] Starting new content sync...`);
+            const content = await this.fetchForSync(run, 'syncNewContent', () => this.fetchEndpoint(run, 'content', 'new content'), () => this.openContent(run, 'content', 'new content'));
+            return this.writeContent(run, content, options);
+        });
+    }
 
-            const content = await this.fetchContent();
-            const result = await this.createFiles(content);
+    async syncPreviousContentOnly(options: SyncOptions = {}): Promise<SyncResult> {
+        return this.runSync('syncPreviousContent', 'Previously published content sync', options, async run => {
+            this.logger.info('Starting previously published content sync...');
+
+            const content = await this.fetchForSync(
+                run,
+                'syncPreviousContent',
+                () => this.fetchEndpoint(run, 'content/previously-published', 'previously published content'),
+                () => this.openContent(run, 'content/previously-published', 'previously published content')
+            );
+            return this.writeContent(run, content, options);
+        });
+    }
 
-            const duration = Date.now() - startTime;
-            console.log(`[${this.config.domain}] New content sync completed: ${result.message} (Total: ${duration}ms)`);
-            return result;
+    async syncAllContent(options: SyncAllContentOptions = {}): Promise<SyncResult> {
+        return this.runSync('syncAllContent', 'Full content sync', options, async run => {
+            this.logger.info('Starting full content sync (new + previously published)...');
 
-        } catch (error) {
-            const duration = Date.now() - startTime;
-            const errorMsg = `New content sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-            console.error(`[${this.config.domain}] ${errorMsg} (${duration}ms)`);
+            const content = await this.fetchForSync(run, 'syncAllContent', () => this.collectAllContent(run), async () => this.streamAllContent(run));
+            return this.writeContent(run, content, options);
+        });
+    }
 
-            return {
-                success: false,
-                message: errorMsg,
-                filesCreated: [],
-                errors: [errorMsg]
-            };
+    /**
+     * Fetch the content for a sync. In streaming mode the pages go to the writer as they arrive and
+     * are never all in memory, so there is no contentFetched event.
+     */
+    private async fetchForSync(
+        run: SyncRun,
+        operation: SyncOperation,
+        fetch: () => Promise<ContentApiResponse>,
+        open: () => Promise<ContentStream>
+    ): Promise<ContentApiResponse | ContentStream> {
+        if (this.config.streaming) {
+            return open();
         }
+        const content = await fetch();
+        await this.emit(run, 'contentFetched', { domain: this.config.domain, operation, content });
+        return content;
     }
 
-    async syncPreviousContentOnly(): Promise<SyncResult> {
-        const startTime = Date.now();
+    /**
+     * Subscribe to sync lifecycle events. Returns a function that removes the listener.
+     */
+    on<E extends SyncEventName>(event: E, listener: SyncEventListener<E>): () => void {
+        return this.events.on(event, listener);
+    }
 
-        try {
-            console.log(`[${this.config.domain}] Starting previously published content sync...`);
+    off<E extends SyncEventName>(event: E, listener: SyncEventListener<E>): void {
+        this.events.off(event, listener);
+    }
 
-            const content = await this.fetchPreviouslyPublishedContent();
-            const result = await this.createFiles(content);
+    startScheduler(): void {
+        if (this.schedule) {
+            this.logger.info('Scheduler already running');
+            return;
+        }
 
-            const duration = Date.now() - startTime;
-            console.log(`[${this.config.domain}] Previously published content sync completed: ${result.message} (Total: ${duration}ms)`);
-            return result;
+        this.schedule = new SyncSchedule(() => this.syncContent(), this.config.schedule, this.config.domain, this.logger);
+        this.schedule.start();
 
-        } catch (error) {
-            const duration = Date.now() - startTime;
-            const errorMsg = `Previously published content sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-            console.error(`[${this.config.domain}] ${errorMsg} (${duration}ms)`);
+        const info = this.schedule.getInfo();
+        this.logger.info(`Scheduler started - ${info.cron ? `cron "${info.cron}"` : `every ${info.intervalMs}ms`}`);
+    }
 
-            return {
-                success: false,
-                message: errorMsg,
-                filesCreated: [],
-                errors: [errorMsg]
-            };
+    stopScheduler(): void {
+        if (this.schedule) {
+            this.schedule.stop();
+            this.schedule = null;
+            this.logger.info('Scheduler stopped');
         }
     }
 
-    async syncAllContent(): Promise<SyncResult> {
-        const startTime = Date.now();
-
-        try {
-            console.log(`[${this.config.domain}] Starting full content sync (new + previously published)...`);
-
-            const content = await this.fetchAllContent();
-            const result = await this.createFiles(content);
-
-            const duration = Date.now() - startTime;
-            console.log(`[${this.config.domain}] Full content sync completed: ${result.message} (Total: ${duration}ms)`);
-            return result;
+    /**
+     * Next/last run times and last result of the scheduler, or null when it isn't running
+     */
+    getSchedule(): ScheduleInfo | null {
+        return this.schedule?.getInfo() || null;
+    }
 
-        } catch (error) {
-            const duration = Date.now() - startTime;
-            const errorMsg = `Full content sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
-            console.error(`[${this.config.domain}] ${errorMsg} (${duration}ms)`);
+    /**
+     * Stop the scheduler and let in-flight syncs finish. Syncs still running after `timeoutMs` are
+     * aborted: pages being written are completed, the manifest is saved and nothing is pruned, so the
+     * target directory stays consistent (in release mode the staged release is discarded). Syncs
+     * started after this are skipped.
+     */
+    async shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+        const startTime = Date.now();
+        const timeoutMs = options.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS;
+        this.shuttingDown = true;
+        this.stopScheduler();
 
-            return {
-                success: false,
-                message: errorMsg,
-                filesCreated: [],
-                errors: [errorMsg]
-            };
+        const syncs = Array.from(this.activeSyncs.entries());
+        if (syncs.length === 0) {
+            return { syncs: 0, aborted: 0, durationMs: Date.now() - startTime };
         }
-    }
 
-    startScheduler(): void {
-        if (this.intervalId) {
-            console.log(`[${this.config.domain}] Scheduler already running`);
-            return;
+        this.logger.info(`Shutting down - waiting up to ${timeoutMs}ms for ${syncs.length} in-flight syncs`, { syncs: syncs.length, timeoutMs });
+        const settled = Promise.allSettled(syncs.map(([running]) => running));
+        let timer: NodeJS.Timeout | null = null;
+        const finished = await Promise.race([
+            settled.then(() => true),
+            new Promise<boolean>(resolve => {
+                timer = setTimeout(() => resolve(false), timeoutMs);
+            })
+        ]);
+        if (timer) {
+            clearTimeout(timer);
         }
 
-        // Run every 24 hours (24 * 60 * 60 * 1000 milliseconds)
-        const TWENTY_FOUR_HOURS = 24 * 60 * 60 * 1000;
+        let aborted = 0;
+        if (!finished) {
+            for (const [, { controller }] of syncs) {
+                if (!controller.signal.aborted) {
+                    controller.abort(new Error(`Shutdown timeout of ${timeoutMs}ms reached`));
+                    aborted++;
+                }
+            }
+            this.logger.warn(`Aborted ${aborted} in-flight syncs after ${timeoutMs}ms`, { aborted });
+            await settled;
+        }
 
-        console.log(`[${this.config.domain}] Starting 24-hour scheduler...`);
+        const durationMs = Date.now() - startTime;
+        this.logger.info(`Shutdown complete (${durationMs}ms)`, { durationMs });
+        return { syncs: syncs.length, aborted, durationMs };
+    }
 
-        this.intervalId = setInterval(async () => {
-            console.log(`[${this.config.domain}] Running scheduled content sync...`);
-            try {
-                await this.syncContent();
-            } catch (error) {
-                console.error(`[${this.config.domain}] Scheduled sync failed:`, error);
-            }
-        }, TWENTY_FOUR_HOURS);
+    /**
+     * Snapshot of this fetcher's sync history since it was created: last success and failure,
+     * consecutive failures, the last result and its file counts, and the next scheduled run
+     */
+    getStatus(): FetcherStatus {
+        return {
+            domain: this.config.domain,
+            running: this.activeSyncs.size > 0,
+            ...this.status.getStatus(),
+            nextRunAt: this.schedule?.getInfo().nextRunAt || null,
+            circuitState: this.getCircuitState()
+        };
+    }
 
-        console.log(`[${this.config.domain}] Scheduler started - next sync in 24 hours`);
+    /**
+     * Sync metrics in the Prometheus text format - see ContentScheduler.getMetrics() for several fetchers
+     */
+    getMetrics(): string {
+        return formatPrometheus(this.getMetricFamilies());
+    }
 
-        // Run initial sync
-        this.syncContent();
+    /**
+     * Metric families behind getMetrics(). `status` overrides the snapshot the gauges are read from.
+     */
+    getMetricFamilies(status: FetcherStatus = this.getStatus()): MetricFamily[] {
+        return withLabels(this.status.getMetricFamilies(status), { domain: this.config.domain });
     }
 
-    stopScheduler(): void {
-        if (this.intervalId) {
-            clearInterval(this.intervalId);
-            this.intervalId = null;
-            console.log(`[${this.config.domain}] Scheduler stopped`);
-        }
+    getConfig(): ContentFetcherConfig {
+        return { ...this.config };
     }
 
     updateConfig(newConfig: Partial<ContentFetcherConfig>): void {
+        const stateChanged = (newConfig.targetDirectory !== undefined && newConfig.targetDirectory !== this.config.targetDirectory)
+            || (newConfig.storage !== undefined && newConfig.storage !== this.config.storage)
+            || (newConfig.stateStore !== undefined && newConfig.stateStore !== this.config.stateStore);
         this.config = { ...this.config, ...newConfig };
+        this.logger.configure(this.getLoggerOptions());
+        if (stateChanged) {
+            this.storage = this.config.storage || new LocalStorageAdapter(this.config.targetDirectory);
+            this.stateStore = this.config.stateStore || new StorageStateStore(this.storage);
+            this.manifest = null;
+            this.isFirstSync = true;
+        }
+        if (this.config.circuitBreaker === false) {
+            this.circuitBreaker = null;
+        } else if (this.circuitBreaker) {
+            this.circuitBreaker.configure(this.config.circuitBreaker);
+        } else {
+            this.circuitBreaker = new CircuitBreaker(this.config.circuitBreaker);
+        }
+        this.transport = new HttpTransport(this.config, this.circuitBreaker);
+        this.releaseManager = this.createReleaseManager();
+        this.lockProvider = this.createLockProvider();
+        this.transformPipeline = this.config.transform ? new HtmlTransformPipeline(this.config.transform) : null;
+        if (newConfig.hooks !== undefined) {
+            this.removeConfigHooks?.();
+            this.removeConfigHooks = this.events.addHooks(newConfig.hooks);
+        }
+        if (newConfig.schedule !== undefined && this.schedule) {
+            this.schedule.configure(this.config.schedule || {});
+        }
     }
 
     resetFirstSyncFlag(): void {
         this.isFirstSync = true;
-        console.log(`[${this.config.domain}] First sync flag reset - next sync will fetch all content`);
+        this.firstSyncReset = true;
+        if (this.manifest) {
+            delete this.manifest.firstSyncCompletedAt;
+        }
+        this.logger.info('First sync flag reset - next sync will fetch all content');
     }
 
     isFirstSyncPending(): boolean {
@@ -413,15 +881,1013 @@ export class ContentFetcher {
     /**
      * Manually sync both new and previously published content
      */
-    async syncAllContentManual(): Promise<SyncResult> {
-        return this.syncAllContent();
+    async syncAllContentManual(options: SyncAllContentOptions = {}): Promise<SyncResult> {
+        return this.syncAllContent(options);
+    }
+
+    getStorage(): StorageAdapter {
+        return this.storage;
+    }
+
+    getCircuitState(): CircuitState | null {
+        return this.circuitBreaker ? this.circuitBreaker.getState() : null;
+    }
+
+    resetCircuitBreaker(): void {
+        this.circuitBreaker?.reset();
+    }
+
+    /**
+     * Load the persisted sync manifest. A manifest that records a completed first sync
+     * means this process doesn't need to fetch all content again.
+     */
+    async getManifest(): Promise<SyncManifest> {
+        return this.loadManifest();
+    }
+
+    private async loadManifest(run?: SyncRun): Promise<SyncManifest> {
+        if (run?.dryRun) {
+            // Planning must not touch the manifest of a real sync running alongside it
+            run.manifest ??= await this.stateStore.load() || createEmptyManifest(this.config.domain);
+            return run.manifest;
+        }
+        if (!this.manifest) {
+            this.manifest = await this.stateStore.load() || createEmptyManifest(this.config.domain);
+            if (this.manifest.firstSyncCompletedAt && !this.firstSyncReset) {
+                this.isFirstSync = false;
+            }
+        }
+        return this.manifest;
+    }
+
+    private async saveManifest(run: SyncRun): Promise<void> {
+        if (!this.manifest || run.dryRun) {
+            return;
+        }
+        // The default manifest lives inside the release, so while staging it is written there too
+        const store = run.stagingStorage && !this.config.stateStore
+            ? new StorageStateStore(run.stagingStorage)
+            : this.stateStore;
+        await store.save(this.manifest);
     }
 
-    private sanitizeFileName(filename: string): string {
-        return filename
-            .replace(/[^a-z0-9]/gi, '-')
-            .replace(/-+/g, '-')
-            .replace(/^-|-$/g, '')
-            .toLowerCase();
+    /**
+     * Write content (and optionally prune) either directly into the target directory or,
+     * in release mode, into a staged release that is only activated when it validates.
+     */
+    private async writeContent(run: SyncRun, content: ContentApiResponse | ContentStream, options: SyncAllContentOptions): Promise<SyncResult> {
+        const stream = 'pages' in content ? toBatch(content.pages || [], { sitemapXml: content.sitemapXml, robotTxt: content.robotTxt }) : content;
+        // Every page the response contained, filled in as the stream is written
+        const urlPaths: string[] = [];
+        // Pages as they were before this sync, to find the ones that moved or went away
+        const previousPages = this.config.redirects ? structuredClone((await this.loadManifest(run)).files) : {};
+        const startTime = Date.now();
+
+        if (run.dryRun) {
+            return this.planContent(run, stream, urlPaths, previousPages, options);
+        }
+        if (!this.releaseManager) {
+            const result = await this.createFilesIn(run, this.storage, stream, urlPaths);
+            // An aborted sync saw only part of the content - nothing to prune or audit against
+            if (this.isAborted(run)) {
+                return result;
+            }
+            const pruned = options.prune ? await this.pruneStaleFiles(run, this.storage, urlPaths, result, options) : [];
+            await this.updateRedirects(run, this.storage, urlPaths, previousPages, result);
+            // Redirect files are written after the pages
+            result.message = describeFiles(result, Date.now() - startTime);
+            await this.auditContent(run, this.storage, result);
+            await this.invalidateCaches(run, result, pruned);
+            return result;
+        }
+
+        let pruned: ManifestEntry[] = [];
+        try {
+            const { result, release, changed, reason } = await this.releaseManager.deploy(async stagingDir => {
+                const stagingStorage = new LocalStorageAdapter(stagingDir);
+                run.stagingStorage = stagingStorage;
+                try {
+                    const result = await this.createFilesIn(run, stagingStorage, stream, urlPaths);
+                    // Only write failures block activation - an aborted prune leaves the old pages in place
+                    const writeErrors = result.errors?.length || 0;
+                    pruned = options.prune && writeErrors === 0
+                        ? await this.pruneStaleFiles(run, stagingStorage, urlPaths, result, options)
+                        : [];
+                    // Audited before activation, so a failing audit keeps the previous release live
+                    if (!this.isAborted(run)) {
+                        await this.updateRedirects(run, stagingStorage, urlPaths, previousPages, result);
+                        result.message = describeFiles(result, Date.now() - startTime);
+                        await this.auditContent(run, stagingStorage, result);
+                    }
+                    const changed = result.filesCreated.length > 0
+                        || (result.filesUpdated?.length || 0) > 0
+                        || (result.filesDeleted?.length || 0) > 0;
+                    if (writeErrors > 0) {
+                        return { result, valid: false, reason: `${writeErrors} errors while writing` };
+                    }
+                    if (result.audit?.failed) {
+                        return { result, valid: false, reason: 'SEO audit failed' };
+                    }
+                    return { result, valid: true, changed };
+                } finally {
+                    run.stagingStorage = null;
+                }
+            });
+
+            if (release) {
+                result.release = release.id;
+                this.logger.info(`Activated release ${release.id}`);
+                await this.invalidateCaches(run, result, pruned);
+            } else if (!changed) {
+                // Nothing new to deploy - the active release already holds this content
+                this.manifest = null;
+                this.logger.info('No changes - keeping the active release');
+            } else {
+                // In-memory manifest describes the discarded staging directory - reload it from the active release
+                this.manifest = null;
+                result.success = false;
+                result.message = `Release not activated (${reason}): ${result.message}`;
+                this.logger.error(`Release not activated: ${reason}`);
+            }
+            return result;
+        } catch (error) {
+            this.manifest = null;
+            const errorMsg = `Failed to deploy release: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            this.logger.error(errorMsg);
+            return {
+                success: false,
+                message: errorMsg,
+                filesCreated: [],
+                errors: [errorMsg],
+                failures: [toError(error)]
+            };
+        }
+    }
+
+    /**
+     * Run the write pipeline against an overlay of the current storage and report what it would
+     * change. Release mode plans against the active release.
+     */
+    private async planContent(
+        run: SyncRun,
+        content: ContentStream,
+        urlPaths: string[],
+        previousPages: Record<string, ManifestEntry>,
+        options: SyncAllContentOptions
+    ): Promise<SyncResult> {
+        const storage = new DryRunStorageAdapter(this.storage);
+        const result = await this.createFilesIn(run, storage, content, urlPaths);
+        if (options.prune && !this.isAborted(run)) {
+            await this.pruneStaleFiles(run, storage, urlPaths, result, options);
+        }
+        if (!this.isAborted(run)) {
+            await this.updateRedirects(run, storage, urlPaths, previousPages, result);
+            await this.auditContent(run, storage, result);
+        }
+
+        const plan = await buildSyncPlan(storage, result.filesUnchanged);
+        const { counts } = plan;
+        result.dryRun = true;
+        result.plan = plan;
+        result.message = `Dry run: ${counts.create} to create, ${counts.update} to update, ${counts.unchanged} unchanged, ${counts.delete} to delete`
+            + (result.errors?.length ? ` (${result.errors.length} errors)` : '');
+        this.logger.info(result.message, { dryRun: true, ...counts });
+        return result;
+    }
+
+    async listReleases(): Promise<ReleaseInfo[]> {
+        if (!this.releaseManager) {
+            throw new Error('Release mode is not enabled - set `releases` in the fetcher config');
+        }
+        return this.releaseManager.listReleases();
+    }
+
+    async rollback(releaseId?: string): Promise<ReleaseInfo> {
+        if (!this.releaseManager) {
+            throw new Error('Release mode is not enabled - set `releases` in the fetcher config');
+        }
+        const release = await this.releaseManager.rollback(releaseId);
+        // The manifest travels with the release, so reload it from the newly active one
+        this.manifest = null;
+        this.logger.info(`Rolled back to release ${release.id}`);
+        return release;
+    }
+
+    /**
+     * Delete pages recorded in the manifest that the full API response no longer contains.
+     * Only manifest-tracked pages are candidates, and a file whose content no longer matches the
+     * recorded hash is treated as user-modified and left alone. Returns the manifest entries of
+     * the pages that were deleted.
+     */
+    private async pruneStaleFiles(run: SyncRun, storage: StorageAdapter, urlPaths: string[], result: SyncResult, options: SyncAllContentOptions): Promise<ManifestEntry[]> {
+        const fail = (errorMsg: string, error?: unknown) => this.addFailure(result, errorMsg, error);
+
+        if (!run.fetchAllComplete) {
+            fail('Pruning skipped: the API response was incomplete');
+            return [];
+        }
+
+        const manifest = await this.loadManifest(run);
+
+        const returned = new Set<string>();
+        for (const urlPath of urlPaths) {
+            try {
+                returned.add(this.getPageKey(urlPath));
+            } catch {
+                // Unsafe paths were already reported by createFiles
+            }
+        }
+
+        const tracked = Object.keys(manifest.files).filter(key => manifest.files[key]?.urlPath !== undefined);
+        const stale = tracked.filter(key => !returned.has(key));
+        if (stale.length === 0) {
+            return [];
+        }
+
+        const maxPrunePercent = options.maxPrunePercent ?? DEFAULT_MAX_PRUNE_PERCENT;
+        const prunePercent = (stale.length / tracked.length) * 100;
+        if (prunePercent > maxPrunePercent) {
+            fail(`Pruning aborted: ${stale.length} of ${tracked.length} pages (${prunePercent.toFixed(1)}%) would be deleted, above the ${maxPrunePercent}% threshold`);
+            return [];
+        }
+
+        const filesDeleted: string[] = [];
+        const pruned: ManifestEntry[] = [];
+        for (const key of stale) {
+            const entry = manifest.files[key];
+            try {
+                const current = await storage.read(key);
+                if (current !== null) {
+                    if (entry && hashContent(current) !== entry.hash) {
+                        this.logger.warn(`Not pruning modified file: ${key}`, { file: key });
+                        delete manifest.files[key];
+                        continue;
+                    }
+                    await storage.delete(key).catch(error => {
+                        throw new WriteError(error instanceof Error ? error.message : 'Unknown error', key, error);
+                    });
+                }
+                delete manifest.files[key];
+                filesDeleted.push(key);
+                if (entry) {
+                    pruned.push(entry);
+                }
+                this.logger.info(`Pruned page: ${key}`, { file: key });
+            } catch (error) {
+                fail(`Failed to prune ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+            }
+        }
+
+        result.filesDeleted = filesDeleted;
+        if (filesDeleted.length > 0 && this.config.output?.collection) {
+            try {
+                const key = this.getCollectionKey();
+                if (await this.writeTrackedFile(manifest, storage, key, await this.buildCollection(storage, manifest)) === 'updated') {
+                    result.filesUpdated = [...(result.filesUpdated || []).filter(file => file !== key), key];
+                }
+            } catch (error) {
+                fail(`Failed to write content collection: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+            }
+        }
+        try {
+            await this.saveManifest(run);
+        } catch (error) {
+            fail(`Failed to save sync manifest: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+        }
+        return pruned;
+    }
+
+    /**
+     * Record pages that moved or were removed in the manifest's redirect history and write the
+     * configured redirect files. Pages of the previous manifest that this sync didn't return are
+     * paired with pages it created. Only a complete fetch shows that a page went away; after a
+     * partial one, a page whose source HTML now appears at a new URL is the only sign of a move.
+     */
+    private async updateRedirects(
+        run: SyncRun,
+        storage: StorageAdapter,
+        urlPaths: string[],
+        previousPages: Record<string, ManifestEntry>,
+        result: SyncResult
+    ): Promise<void> {
+        const config = this.config.redirects === true ? {} : this.config.redirects;
+        if (!config) {
+            return;
+        }
+        const fail = (errorMsg: string, error?: unknown) => this.addFailure(result, errorMsg, error);
+        const status = config.status ?? 301;
+
+        let redirects: Redirect[];
+        let dropped: string[];
+        const manifest = await this.loadManifest(run);
+        try {
+            const created = result.filesCreated
+                .map(key => manifest.files[key])
+                .filter((entry): entry is ManifestEntry & { urlPath: string } => entry?.urlPath !== undefined);
+            const history = manifest.redirects || {};
+            const returned = new Set(urlPaths.map(normalizeSitePath));
+            // Unpruned pages stay in the manifest - once they have a history entry they are settled
+            const missing = Object.values(previousPages).filter((entry): entry is ManifestEntry & { urlPath: string } =>
+                entry.urlPath !== undefined && !returned.has(normalizeSitePath(entry.urlPath)) && !history[normalizeSitePath(entry.urlPath)]);
+            const changes = run.fetchAllComplete
+                ? matchMovedPages(missing, created)
+                : {
+                    moved: matchMovedPages(missing.map(toSourceCandidate), created.map(toSourceCandidate)).moved,
+                    removed: []
+                };
+            const updated = updateRedirectHistory(history, { ...changes, live: urlPaths }, { status, removed: config.removed || 'gone' });
+            dropped = updated.dropped;
+            if (Object.keys(history).length > 0 || manifest.redirects) {
+                manifest.redirects = history;
+            }
+            if (updated.added.length > 0) {
+                result.redirects = updated.added;
+                this.logger.info(`Added ${updated.added.length} redirects for moved and removed pages`, { redirects: updated.added.length });
+            }
+            redirects = collectRedirects(history, config.rules || [], status);
+        } catch (error) {
+            fail(`Failed to update redirects: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+            return;
+        }
+
+        for (const format of config.formats || ['json']) {
+            const key = config.fileNames?.[format] || REDIRECT_FILE_NAMES[format];
+            try {
+                const content = format === 'netlify' ? formatNetlifyRedirects(redirects, await storage.read(key), config.gonePage)
+                    : format === 'vercel' ? formatVercelRedirects(redirects, await storage.read(key), dropped)
+                        : format === 'nginx' ? formatNginxRedirectMap(redirects, status)
+                            : formatRedirectMap(redirects);
+                const outcome = await this.writeTrackedFile(manifest, storage, key, content);
+                if (outcome === 'created') {
+                    result.filesCreated.push(key);
+                } else if (outcome === 'updated') {
+                    result.filesUpdated = [...(result.filesUpdated || []), key];
+                } else {
+                    result.filesUnchanged = [...(result.filesUnchanged || []), key];
+                }
+            } catch (error) {
+                fail(`Failed to write ${key}: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+            }
+        }
+
+        try {
+            await this.saveManifest(run);
+        } catch (error) {
+            fail(`Failed to save sync manifest: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+        }
+    }
+
+    /**
+     * Tell the configured invalidators which URL paths the sync created, updated or deleted.
+     * Failures are reported on the result; they don't undo the sync.
+     */
+    private async invalidateCaches(run: SyncRun, result: SyncResult, pruned: ManifestEntry[]): Promise<void> {
+        const invalidators = this.config.invalidators || [];
+        const files = [...result.filesCreated, ...(result.filesUpdated || []), ...(result.filesDeleted || [])];
+        if (invalidators.length === 0 || files.length === 0 || this.isAborted(run)) {
+            return;
+        }
+
+        const manifest = await this.loadManifest(run);
+        const paths = new Set<string>();
+        for (const key of [...result.filesCreated, ...(result.filesUpdated || [])]) {
+            paths.add(normalizeSitePath(manifest.files[key]?.urlPath ?? key));
+        }
+        for (const entry of pruned) {
+            if (entry.urlPath !== undefined) {
+                paths.add(normalizeSitePath(entry.urlPath));
+            }
+        }
+        const request = {
+            domain: this.config.domain,
+            paths: [...paths].sort(),
+            files: [...new Set(files)].sort(),
+            signal: run.controller.signal
+        };
+
+        result.invalidation = await Promise.all(invalidators.map(async (invalidator): Promise<InvalidationResult> => {
+            const startTime = Date.now();
+            try {
+                await invalidator.invalidate(request);
+                const durationMs = Date.now() - startTime;
+                this.logger.info(`Invalidated ${request.paths.length} paths with ${invalidator.name}`, { invalidator: invalidator.name, paths: request.paths.length, durationMs });
+                return { invalidator: invalidator.name, success: true, paths: request.paths.length, durationMs };
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                this.addFailure(result, `Cache invalidation failed (${invalidator.name}): ${message}`, new InvalidationError(message, invalidator.name, error));
+                return { invalidator: invalidator.name, success: false, paths: request.paths.length, durationMs: Date.now() - startTime, error: message };
+            }
+        }));
+    }
+
+    /**
+     * Write a file unless the manifest shows identical content is already on disk
+     */
+    private async writeTrackedFile(manifest: SyncManifest, storage: StorageAdapter, key: string, content: StorageContent, urlPath?: string): Promise<WriteOutcome> {
+        const hash = hashContent(content);
+        const existing = manifest.files[key];
+        const fileExists = await storage.exists(key);
+        const now = new Date().toISOString();
+
+        if (existing && existing.hash === hash && fileExists) {
+            existing.lastSyncedAt = now;
+            return 'unchanged';
+        }
+
+        try {
+            await storage.write(key, content);
+        } catch (error) {
+            throw new WriteError(error instanceof Error ? error.message : 'Unknown error', key, error);
+        }
+        manifest.files[key] = urlPath !== undefined
+            ? { hash, lastSyncedAt: now, lastModifiedAt: now, urlPath }
+            : { hash, lastSyncedAt: now, lastModifiedAt: now };
+        return existing || fileExists ? 'updated' : 'created';
+    }
+
+    /**
+     * Work out which sitemap files to write for the configured mode: overwrite sitemap.xml, union it
+     * with the existing one, or write a separate SEOTrove sitemap registered in a sitemap index.
+     * A merge records the URLs SEOTrove added, so they are removed again once it stops publishing them.
+     */
+    private async prepareSitemapFiles(storage: StorageAdapter, manifest: SyncManifest, sitemapXml: string): Promise<Array<{ key: string; content: StorageContent }>> {
+        const options = this.config.sitemap || {};
+        const mode = options.mode || 'overwrite';
+
+        if (mode === 'overwrite') {
+            return [{ key: 'sitemap.xml', content: sitemapXml }];
+        }
+
+        const incoming = parseSitemap(sitemapXml);
+        if (!incoming) {
+            throw new Error('SEOTrove sitemap is not a valid urlset or sitemap index');
+        }
+
+        const indexKey = mode === 'index' ? options.indexFileName || 'sitemap.xml' : 'sitemap.xml';
+        const existing = await this.readExistingSitemap(storage, indexKey);
+
+        if (mode === 'merge' && incoming.type === 'urlset' && (!existing || existing.type === 'urlset')) {
+            const owned = new Set(manifest.sitemapLocs || []);
+            const existingLocs = new Set(existing?.urls.map(url => url.loc) || []);
+            const incomingLocs = new Set(incoming.urls.map(url => url.loc));
+            // URLs the site listed itself before SEOTrove did stay the site's
+            manifest.sitemapLocs = [...incomingLocs].filter(loc => owned.has(loc) || !existingLocs.has(loc));
+            const removed = [...owned].filter(loc => !incomingLocs.has(loc));
+            return [{ key: 'sitemap.xml', content: existing ? mergeUrlsets(existing, incoming, removed) : sitemapXml }];
+        }
+
+        // Index mode, or merge into an existing sitemap index
+        if (mode === 'merge' && incoming.type === 'urlset') {
+            manifest.sitemapLocs = incoming.urls.map(url => url.loc);
+        }
+        const fileName = options.fileName || 'seotrove-sitemap.xml';
+        return [
+            { key: fileName, content: sitemapXml },
+            this.registerInSitemapIndex(indexKey, this.asSitemapIndex(indexKey, existing), [fileName])
+        ];
+    }
+
+    /**
+     * Generate the sitemap from every page recorded in the manifest, so pages written by earlier
+     * syncs are included even when this sync only fetched new content
+     */
+    private async prepareGeneratedSitemapFiles(storage: StorageAdapter, manifest: SyncManifest): Promise<Array<{ key: string; content: StorageContent }>> {
+        const options = this.config.sitemap || {};
+        const mode = options.mode || 'overwrite';
+        const siteUrl = this.getSiteUrl();
+
+        const urls: SitemapPageUrl[] = [];
+        for (const entry of Object.values(manifest.files)) {
+            if (entry.urlPath === undefined) {
+                continue;
+            }
+            const urlPath = '/' + (entry.urlPath.split(/[?#]/)[0] || '').replace(/^\/+/, '');
+            const priority = typeof options.priority === 'function' ? options.priority(entry.urlPath) : options.priority;
+            const url: SitemapPageUrl = { loc: siteUrl + urlPath, lastmod: (entry.lastModifiedAt || entry.lastSyncedAt).slice(0, 10) };
+            if (priority !== undefined) {
+                url.priority = priority;
+            }
+            urls.push(url);
+        }
+        if (urls.length === 0) {
+            return [];
+        }
+
+        const baseName = mode === 'index' ? (options.fileName || 'seotrove-sitemap.xml').replace(/\.xml$/, '') : 'sitemap';
+        const generationOptions: SitemapGenerationOptions = { baseName, siteUrl };
+        if (options.gzip !== undefined) {
+            generationOptions.gzip = options.gzip;
+        }
+        if (options.maxUrlsPerFile !== undefined) {
+            generationOptions.maxUrlsPerFile = options.maxUrlsPerFile;
+        }
+        if (options.maxBytesPerFile !== undefined) {
+            generationOptions.maxBytesPerFile = options.maxBytesPerFile;
+        }
+        const generated = generateSitemapFiles(urls, generationOptions);
+
+        // Split files from an earlier, larger generation that this one no longer produces
+        const chunkPattern = new RegExp(`^${baseName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}-\\d+\\.xml(\\.gz)?$`);
+        const keys = new Set(generated.files.map(file => file.key));
+        const staleChunks = Object.keys(manifest.files).filter(key => chunkPattern.test(key) && !keys.has(key));
+        for (const key of staleChunks) {
+            await storage.delete(key);
+            delete manifest.files[key];
+        }
+
+        if (!generated.split) {
+            return this.prepareSitemapFiles(storage, manifest, generated.files[0]?.content as string);
+        }
+        if (mode === 'overwrite') {
+            return generated.files;
+        }
+
+        // Merge/index mode: register the split files directly in the site's own sitemap index
+        if (mode === 'merge') {
+            manifest.sitemapLocs = urls.map(url => url.loc);
+        }
+        const indexKey = mode === 'index' ? options.indexFileName || 'sitemap.xml' : 'sitemap.xml';
+        const existing = this.asSitemapIndex(indexKey, await this.readExistingSitemap(storage, indexKey));
+        const children = generated.files.filter(file => file.key !== generated.rootKey);
+        return [
+            ...children,
+            this.registerInSitemapIndex(indexKey, existing, children.map(file => file.key), staleChunks)
+        ];
+    }
+
+    private async readExistingSitemap(storage: StorageAdapter, key: string): Promise<ParsedSitemap | null> {
+        const xml = await storage.read(key);
+        if (xml === null) {
+            return null;
+        }
+        const parsed = parseSitemap(xml);
+        if (!parsed) {
+            throw new Error(`Existing ${key} is not a valid sitemap - refusing to replace it`);
+        }
+        return parsed;
+    }
+
+    private asSitemapIndex(key: string, sitemap: ParsedSitemap | null): Extract<ParsedSitemap, { type: 'sitemapindex' }> | null {
+        if (sitemap?.type === 'urlset') {
+            throw new Error(`Existing ${key} is a urlset, not a sitemap index - set sitemap.indexFileName to a sitemap index`);
+        }
+        return sitemap;
+    }
+
+    private registerInSitemapIndex(
+        indexKey: string,
+        existing: Extract<ParsedSitemap, { type: 'sitemapindex' }> | null,
+        keys: string[],
+        removedKeys: string[] = []
+    ): { key: string; content: string } {
+        const siteUrl = this.getSiteUrl();
+        const lastmod = new Date().toISOString().slice(0, 10);
+        return {
+            key: indexKey,
+            content: updateSitemapIndex(
+                existing,
+                keys.map(key => ({ loc: `${siteUrl}/${key}`, lastmod })),
+                removedKeys.map(key => `${siteUrl}/${key}`)
+            )
+        };
+    }
+
+    private getSiteUrl(): string {
+        return (this.config.sitemap?.siteUrl || `https://${this.config.domain}`).replace(/\/+$/, '');
+    }
+
+    /**
+     * Releases are directory symlinks, so they only work with local filesystem storage
+     */
+    private createReleaseManager(): ReleaseManager | null {
+        if (!this.config.releases) {
+            return null;
+        }
+        if (this.config.storage && !(this.config.storage instanceof LocalStorageAdapter)) {
+            throw new Error('Release mode requires local filesystem storage');
+        }
+        const targetDirectory = this.config.storage instanceof LocalStorageAdapter
+            ? this.config.storage.rootDirectory
+            : this.config.targetDirectory;
+        return new ReleaseManager(targetDirectory, this.config.releases);
+    }
+
+    /**
+     * Load the layout for this sync. Pages are not written when it fails, rather than
+     * going out without the site's layout.
+     */
+    private async prepareTransforms(fail: (errorMsg: string, error: unknown) => void): Promise<boolean> {
+        if (!this.transformPipeline) {
+            return true;
+        }
+        try {
+            await this.transformPipeline.prepare();
+            return true;
+        } catch (error) {
+            fail(`Failed to load page layout: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+            return false;
+        }
+    }
+
+    private async transformPage(page: ContentPage, key: string): Promise<ContentPage> {
+        if (!this.transformPipeline) {
+            return page;
+        }
+        const siteUrl = this.getSiteUrl();
+        const html = await this.transformPipeline.transform(page, {
+            domain: this.config.domain,
+            siteUrl,
+            key,
+            canonicalUrl: `${siteUrl}${getPageUrlPath(normalizeUrlPath(page.urlPath))}`
+        });
+        return { ...page, html };
+    }
+
+    /**
+     * Audit every synced HTML page and attach the report. Fails the result when the report
+     * reaches the configured failOn severity.
+     */
+    private async auditContent(run: SyncRun, storage: StorageAdapter, result: SyncResult): Promise<void> {
+        const config = this.config.audit === true ? {} : this.config.audit;
+        if (!config) {
+            return;
+        }
+
+        try {
+            const manifest = await this.loadManifest(run);
+            const pages: AuditPage[] = [];
+            for (const [key, entry] of Object.entries(manifest.files)) {
+                // Markdown output has no HTML head to audit
+                if (entry.urlPath === undefined || !key.endsWith('.html')) {
+                    continue;
+                }
+                const html = await storage.read(key);
+                if (html !== null) {
+                    pages.push({ key, html });
+                }
+            }
+
+            const options: AuditOptions = { siteUrl: this.getSiteUrl(), sitemapUrls: await this.readSitemapUrls(storage) };
+            // A merged sitemap also lists the rest of the site - only SEOTrove's own URLs need a synced page
+            if (this.config.sitemap?.mode === 'merge') {
+                options.ownedSitemapUrls = manifest.sitemapLocs || [];
+            }
+            const report = auditPages(pages, options, config);
+            result.audit = report;
+            this.logger.info(`SEO audit: ${report.pagesAudited} pages, ${report.counts.error} errors, ${report.counts.warning} warnings`, {
+                pages: report.pagesAudited,
+                ...report.counts
+            });
+
+            if (report.failed) {
+                this.addFailure(result, `SEO audit failed: ${report.counts.error} errors, ${report.counts.warning} warnings (failOn: ${config.failOn})`);
+            }
+        } catch (error) {
+            this.addFailure(result, `SEO audit failed to run: ${error instanceof Error ? error.message : 'Unknown error'}`, error);
+        }
+    }
+
+    /**
+     * URLs of the sitemap this fetcher writes, following one level of sitemap index.
+     * Null when there is no sitemap.
+     */
+    private async readSitemapUrls(storage: StorageAdapter): Promise<string[] | null> {
+        const options = this.config.sitemap || {};
+        const rootKey = options.mode === 'index' ? options.fileName || 'seotrove-sitemap.xml' : 'sitemap.xml';
+        const readXml = async (key: string): Promise<string | null> => {
+            const bytes = await storage.readBytes(key);
+            if (!bytes) {
+                return null;
+            }
+            return (key.endsWith('.gz') ? zlib.gunzipSync(bytes) : Buffer.from(bytes)).toString('utf-8');
+        };
+
+        const root = await readXml(rootKey);
+        const parsed = root ? parseSitemap(root) : null;
+        if (!parsed) {
+            return null;
+        }
+        if (parsed.type === 'urlset') {
+            return parsed.urls.map(url => url.loc);
+        }
+
+        const siteHost = new URL(this.getSiteUrl()).host;
+        const urls: string[] = [];
+        for (const sitemap of parsed.sitemaps) {
+            const url = new URL(sitemap.loc, `${this.getSiteUrl()}/`);
+            if (url.host !== siteHost) {
+                continue;
+            }
+            const child = await readXml(url.pathname.replace(/^\/+/, ''));
+            const childSitemap = child ? parseSitemap(child) : null;
+            if (childSitemap?.type === 'urlset') {
+                urls.push(...childSitemap.urls.map(entry => entry.loc));
+            }
+        }
+        return urls;
+    }
+
+    /**
+     * Storage key for a page in the configured output format
+     */
+    private getPageKey(urlPath: string): string {
+        return getOutputKey(urlPath, this.config.output?.format);
+    }
+
+    /**
+     * Title and description for the content collection; with redirects, also the title and a hash
+     * of the untransformed page, which identify the page if its URL changes
+     */
+    private recordPageMetadata(manifest: SyncManifest, key: string, page: ContentPage, source: ContentPage): void {
+        const entry = manifest.files[key];
+        if (!entry || (!this.config.output?.collection && !this.config.redirects)) {
+            return;
+        }
+        const metadata = extractPageMetadata(page.html);
+        entry.title = decodeHtmlEntities(metadata.title);
+        entry.description = decodeHtmlEntities(metadata.description);
+        if (this.config.redirects) {
+            entry.sourceHash = hashContent(source.html);
+        }
+    }
+
+    private getCollectionKey(): string {
+        const collection = this.config.output?.collection;
+        return typeof collection === 'string' ? collection : DEFAULT_COLLECTION_FILE_NAME;
+    }
+
+    private async buildCollection(storage: StorageAdapter, manifest: SyncManifest): Promise<string> {
+        return buildContentCollection(
+            manifest,
+            this.config.output?.collectionContent ? key => storage.read(key) : undefined
+        );
+    }
+
+    /**
+     * Read a page stream to the end, handling up to `concurrency` pages at a time. Returns the
+     * sitemap and robots.txt, or null when the stream failed part-way or the sync was aborted -
+     * recorded as a failure. Pages being written when the sync is aborted are finished first.
+     */
+    private async processPages(
+        run: SyncRun,
+        stream: ContentStream,
+        handle: (page: ContentPage) => Promise<void>,
+        fail: (errorMsg: string, error: unknown) => void
+    ): Promise<ContentFiles | null> {
+        const concurrency = Math.max(1, Math.floor(this.config.concurrency ?? DEFAULT_CONCURRENCY));
+        const signal = run.controller.signal;
+        let files: ContentFiles | null = null;
+        let failed = false;
+
+        const worker = async (): Promise<void> => {
+            while (!files && !failed && !signal.aborted) {
+                let next: IteratorResult<ContentPage, ContentFiles>;
+                try {
+                    next = await stream.next();
+                } catch (error) {
+                    // A request cancelled by the abort is reported as the abort below
+                    if (!failed && !signal.aborted) {
+                        failed = true;
+                        fail(error instanceof Error ? error.message : 'Failed to fetch content: Unknown error', error);
+                    }
+                    return;
+                }
+                if (next.done) {
+                    // Workers queued behind the last page get a finished stream without the value
+                    files ??= next.value ?? null;
+                    return;
+                }
+                await handle(next.value);
+            }
+        };
+
+        await Promise.all(Array.from({ length: concurrency }, worker));
+        if (signal.aborted) {
+            fail(`Sync aborted: ${toError(signal.reason).message}`, signal.reason);
+            return null;
+        }
+        return files;
+    }
+
+    /**
+     * Pass a page through the beforePageWrite listeners in order. Each listener sees the page as
+     * modified by the previous one; null means a listener vetoed the write.
+     */
+    private async runBeforePageWrite(fetchedPage: ContentPage): Promise<{ page: ContentPage; key: string } | null> {
+        let page = fetchedPage;
+        // Normalize urlPath and reject anything that escapes the target directory
+        let key = this.getPageKey(page.urlPath);
+
+        for (const listener of this.events.getListeners('beforePageWrite')) {
+            const decision = await listener({ domain: this.config.domain, page, key });
+            if (decision === false) {
+                return null;
+            }
+            if (decision) {
+                page = decision;
+                key = this.getPageKey(page.urlPath);
+            }
+        }
+        return { page, key };
+    }
+
+    /**
+     * Run a sync operation: takes the sync lock, emits lifecycle events, logs timing and turns
+     * failures into an unsuccessful SyncResult. Dry runs write nothing, so they skip the lock and events;
+     * they wait for this fetcher's running syncs instead, so the plan isn't built from half-written files.
+     * The sync can be aborted through options.signal or shutdown().
+     */
+    private async runSync(operation: SyncOperation, label: string, options: SyncOptions, sync: (run: SyncRun) => Promise<SyncResult>): Promise<SyncResult> {
+        if (this.shuttingDown) {
+            const message = `${label} skipped - the fetcher is shutting down`;
+            this.logger.warn(message, { operation });
+            return { success: false, skipped: true, message, filesCreated: [], errors: [message], failures: [new Error(message)] };
+        }
+
+        const run = this.createRun(options);
+        const { controller } = run;
+        const onAbort = () => controller.abort(options.signal?.reason);
+        if (options.signal?.aborted) {
+            controller.abort(options.signal.reason);
+        } else {
+            options.signal?.addEventListener('abort', onAbort, { once: true });
+        }
+
+        const execute = async (): Promise<SyncResult> => {
+            const startTime = Date.now();
+            await this.emit(run, 'syncStart', { domain: this.config.domain, operation });
+
+            try {
+                if (controller.signal.aborted) {
+                    throw toError(controller.signal.reason);
+                }
+                const result = this.withAttempts(run, await sync(run));
+                if (controller.signal.aborted) {
+                    result.aborted = true;
+                }
+                const durationMs = Date.now() - startTime;
+                this.logger.info(`${label} completed: ${result.message} (Total: ${durationMs}ms)`, {
+                    operation,
+                    success: result.success,
+                    created: result.filesCreated.length,
+                    updated: result.filesUpdated?.length || 0,
+                    errors: result.errors?.length || 0,
+                    durationMs
+                });
+                await this.emit(run, 'syncComplete', { domain: this.config.domain, operation, result, durationMs });
+                return result;
+
+            } catch (error) {
+                const durationMs = Date.now() - startTime;
+                const errorMsg = `${label} failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                this.logger.error(`${errorMsg} (${durationMs}ms)`, { operation, durationMs });
+
+                const result = this.withAttempts(run, {
+                    success: false,
+                    message: errorMsg,
+                    filesCreated: [],
+                    errors: [errorMsg],
+                    failures: [toError(error)]
+                });
+                if (options.dryRun) {
+                    result.dryRun = true;
+                }
+                if (controller.signal.aborted) {
+                    result.aborted = true;
+                }
+                await this.emit(run, 'syncError', {
+                    domain: this.config.domain,
+                    operation,
+                    error: toError(error),
+                    result,
+                    durationMs
+                });
+                return result;
+            }
+        };
+
+        const startTime = Date.now();
+        const running = options.dryRun ? this.afterRunningSyncs(execute) : this.withSyncLock(execute);
+        this.activeSyncs.set(running, run);
+        try {
+            const result = await running;
+            if (!options.dryRun) {
+                this.status.record(operation, result, Date.now() - startTime);
+            }
+            return result;
+        } finally {
+            this.activeSyncs.delete(running);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+    }
+
+    private createRun(options: SyncOptions = {}): SyncRun {
+        return {
+            attempts: [],
+            invalidPages: [],
+            fetchAllComplete: false,
+            stagingStorage: null,
+            controller: new AbortController(),
+            dryRun: options.dryRun === true,
+            manifest: null
+        };
+    }
+
+    private isAborted(run: SyncRun): boolean {
+        return run.controller.signal.aborted;
+    }
+
+    /**
+     * Notify listeners, except during dry runs - nothing they could react to has happened
+     */
+    private async emit<E extends Exclude<SyncEventName, 'beforePageWrite'>>(run: SyncRun, event: E, payload: SyncEventMap[E]): Promise<void> {
+        if (!run.dryRun) {
+            await this.events.emit(event, payload);
+        }
+    }
+
+    private async afterRunningSyncs(run: () => Promise<SyncResult>): Promise<SyncResult> {
+        const writing = Array.from(this.activeSyncs).filter(([, active]) => !active.dryRun).map(([running]) => running);
+        await Promise.allSettled(writing);
+        return run();
+    }
+
+    /**
+     * Run a sync while holding the cross-process sync lock, when one is configured.
+     * Instances that don't get the lock skip the run instead of waiting for it.
+     */
+    private async withSyncLock(run: () => Promise<SyncResult>): Promise<SyncResult> {
+        if (!this.lockProvider) {
+            return run();
+        }
+
+        let lock: SyncLock | null;
+        try {
+            lock = await this.lockProvider.acquire(this.config.domain);
+        } catch (error) {
+            const errorMsg = `Failed to acquire sync lock: ${error instanceof Error ? error.message : 'Unknown error'}`;
+            this.logger.error(errorMsg);
+            return { success: false, message: errorMsg, filesCreated: [], errors: [errorMsg], failures: [toError(error)] };
+        }
+
+        if (!lock) {
+            const holder = this.lockProvider.getHolder
+                ? await this.lockProvider.getHolder(this.config.domain).catch(() => null)
+                : null;
+            const message = `Sync skipped - another instance holds the sync lock${holder ? ` (${holder})` : ''}`;
+            this.logger.info(message);
+            return { success: true, skipped: true, message, filesCreated: [] };
+        }
+
+        try {
+            // Another instance may have synced since our last run - start from the stored manifest
+            this.manifest = null;
+            return await run();
+        } finally {
+            await lock.release().catch(error => {
+                this.logger.error('Failed to release sync lock', { error });
+            });
+        }
+    }
+
+    private createLockProvider(): LockProvider | null {
+        const lock = this.config.lock;
+        if (!lock) {
+            return null;
+        }
+        if (lock !== true && 'acquire' in lock) {
+            return lock;
+        }
+        const { directory, ...options } = lock === true ? {} : lock;
+        // Next to targetDirectory rather than inside it, so the lock survives release swaps and isn't served
+        const lockDirectory = directory || `${path.resolve(this.config.targetDirectory)}.locks`;
+        return new FileLockProvider(lockDirectory, { ...options, logger: this.logger });
+    }
+
+    /**
+     * Record a failure on an existing result - errors and failures stay index-aligned
+     */
+    private addFailure(result: SyncResult, errorMsg: string, error: unknown = new Error(errorMsg)): void {
+        result.errors = [...(result.errors || []), errorMsg];
+        result.failures = [...(result.failures || []), toError(error)];
+        result.success = false;
+        this.logger.error(errorMsg);
+    }
+
+    private getLoggerOptions(): ScopedLoggerOptions {
+        return {
+            logger: this.config.logger,
+            level: this.config.logLevel,
+            fields: { domain: this.config.domain },
+            // The installId authenticates API requests - keep it out of log aggregators
+            redact: [this.config.installId]
+        };
+    }
+
+    private withAttempts(run: SyncRun, result: SyncResult): SyncResult {
+        if (run.attempts.length > 0) {
+            result.attempts = run.attempts;
+        }
+        return result;
     }
 }
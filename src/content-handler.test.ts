@@ -0,0 +1,137 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ContentFetcher } from './content-fetcher';
+import { ContentRequestHandler } from './content-handler';
+import { MemoryStorageAdapter } from './memory-storage-adapter';
+import { formatRedirectMap } from './redirects';
+import { hashContent, MemoryStateStore } from './sync-state';
+import { FetchFunction, SyncManifest } from './types';
+
+const silent = { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined };
+
+async function createHandler(files: Record<string, { content: string; urlPath?: string }>): Promise<ContentRequestHandler> {
+    const storage = new MemoryStorageAdapter();
+    const stateStore = new MemoryStateStore();
+    const manifest: SyncManifest = { version: 1, domain: 'example.com', files: {} };
+    for (const [key, { content, urlPath }] of Object.entries(files)) {
+        await storage.write(key, content);
+        manifest.files[key] = { hash: hashContent(content), lastSyncedAt: '2024-01-01T00:00:00.000Z', ...(urlPath !== undefined ? { urlPath } : {}) };
+    }
+    await stateStore.save(manifest);
+    return new ContentRequestHandler({ storage, stateStore, manifestTtlMs: 0 });
+}
+
+const get = (handler: ContentRequestHandler, pathname: string, headers: Record<string, string> = {}) =>
+    handler.handle(new Request(`https://example.com${pathname}`, { headers }));
+
+describe('ContentRequestHandler', () => {
+    it('serves pages by file name and clean URL with conditional responses', async () => {
+        const handler = await createHandler({ 'blog/post.html': { content: '<h1>Post</h1>', urlPath: '/blog/post' } });
+
+        const response = await get(handler, '/blog/post');
+        expect(response?.status).toBe(200);
+        expect(await response?.text()).toBe('<h1>Post</h1>');
+        expect(response?.headers.get('content-type')).toBe('text/html; charset=utf-8');
+
+        const etag = response?.headers.get('etag') || '';
+        expect((await get(handler, '/blog/post.html', { 'If-None-Match': etag }))?.status).toBe(304);
+    });
+
+    it('serves sitemaps and robots.txt', async () => {
+        const handler = await createHandler({
+            'sitemap.xml': { content: '<sitemapindex/>' },
+            'sitemap-1.xml.gz': { content: 'gzipped' },
+            'robots.txt': { content: 'User-agent: *' }
+        });
+
+        expect((await get(handler, '/sitemap.xml'))?.status).toBe(200);
+        expect((await get(handler, '/sitemap-1.xml.gz'))?.headers.get('content-type')).toBe('application/gzip');
+        expect(await (await get(handler, '/robots.txt'))?.text()).toBe('User-agent: *');
+    });
+
+    it('does not serve redirect files, the content collection or other tracked files', async () => {
+        const handler = await createHandler({
+            'vercel.json': { content: '{"redirects":[]}' },
+            '_redirects': { content: '/old /new 301' },
+            'seotrove-redirects.conf': { content: 'map {}' },
+            'seotrove-redirects.json': { content: formatRedirectMap([]) },
+            'seotrove-content.json': { content: '[]' }
+        });
+
+        for (const pathname of ['/vercel.json', '/_redirects', '/seotrove-redirects.conf', '/seotrove-redirects.json', '/seotrove-content.json']) {
+            expect(await get(handler, pathname)).toBeNull();
+        }
+    });
+
+    it('does not serve SDK state files, even when tracked', async () => {
+        const handler = await createHandler({
+            '.seotrove-manifest.json': { content: '{}', urlPath: '/.seotrove-manifest.json' },
+            'blog/.seotrove-release.json': { content: '{}', urlPath: '/blog/.seotrove-release.json' }
+        });
+
+        expect(await get(handler, '/.seotrove-manifest.json')).toBeNull();
+        expect(await get(handler, '/blog/.seotrove-release.json')).toBeNull();
+    });
+
+    it('answers moved pages from the redirect map', async () => {
+        const handler = await createHandler({
+            'seotrove-redirects.json': { content: formatRedirectMap([{ from: '/old', to: '/new', status: 301 }, { from: '/gone', status: 410 }]) }
+        });
+
+        const moved = await get(handler, '/old');
+        expect(moved?.status).toBe(301);
+        expect(moved?.headers.get('location')).toBe('/new');
+        expect((await get(handler, '/gone'))?.status).toBe(410);
+    });
+});
+
+describe('ContentRequestHandler with a release-mode fetcher', () => {
+    let root: string | null = null;
+
+    afterEach(async () => {
+        if (root) {
+            await fs.rm(root, { recursive: true, force: true });
+            root = null;
+        }
+    });
+
+    it('serves the active release while the next one is being staged', async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-handler-'));
+        const html = ['<h1>One</h1>', '<h1>Two</h1>'];
+        const fetch: FetchFunction = async () => new Response(JSON.stringify({ pages: [{ urlPath: '/a', html: html.shift() }], sitemapXml: '', robotTxt: '' }));
+        const fetcher = new ContentFetcher({
+            domain: 'example.com',
+            installId: 'install-1',
+            targetDirectory: path.join(root, 'public'),
+            releases: {},
+            circuitBreaker: false,
+            logger: silent,
+            transport: { fetch }
+        });
+        const handler = new ContentRequestHandler({ fetcher, manifestTtlMs: 0 });
+        await fetcher.syncNewContentOnly();
+        const activeEtag = (await get(handler, '/a'))?.headers.get('etag');
+
+        let staged: () => void = () => undefined;
+        let resume: () => void = () => undefined;
+        const written = new Promise<void>(resolve => {
+            staged = resolve;
+        });
+        fetcher.on('pageWritten', () => new Promise<void>(resolve => {
+            resume = resolve;
+            staged();
+        }));
+        const sync = fetcher.syncNewContentOnly();
+        await written;
+
+        const response = await get(handler, '/a');
+        expect(response?.headers.get('etag')).toBe(activeEtag);
+        expect(await response?.text()).toBe('<h1>One</h1>');
+
+        resume();
+        expect((await sync).success).toBe(true);
+        await vi.waitFor(async () => expect(await (await get(handler, '/a'))?.text()).toBe('<h1>Two</h1>'));
+    });
+});
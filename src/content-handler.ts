@@ -0,0 +1,256 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { LocalStorageAdapter } from './local-storage-adapter';
+import { normalizeUrlPath } from './path-resolver';
+import { parseRedirectMap, REDIRECT_FILE_NAMES } from './redirects';
+import { normalizeSitePath } from './seo-audit';
+import { createEmptyManifest, STATE_FILE_PREFIX, StorageStateStore } from './sync-state';
+import { ContentHandlerOptions, ManifestEntry, Redirect, StorageAdapter, SyncManifest, SyncStateStore } from './types';
+
+const CONTENT_TYPES: Record<string, string> = {
+    html: 'text/html; charset=utf-8',
+    xml: 'application/xml; charset=utf-8',
+    txt: 'text/plain; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    md: 'text/markdown; charset=utf-8',
+    mdx: 'text/markdown; charset=utf-8',
+    gz: 'application/gzip'
+};
+
+const DEFAULT_CACHE_CONTROL = 'public, max-age=0, must-revalidate';
+const DEFAULT_MANIFEST_TTL_MS = 5000;
+
+interface ServedResponse {
+    status: number;
+    headers: Record<string, string>;
+    body: Uint8Array | null;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+/**
+ * Serves the pages, sitemaps and robots.txt a ContentFetcher has synced. Only files recorded in the
+ * persisted sync manifest are served - redirect files, the content collection, other synced files
+ * and the SDK's `.seotrove-*` state files are not; ETag and Last-Modified come from the manifest's content hash and modification time.
+ * Paths without a file are looked up in the JSON redirect map and answered with a redirect or 410.
+ *
+ * Works as Express/Connect middleware (`middleware()`) and with Web/Next.js route handlers
+ * (`handle(request)`), falling through when no synced file matches.
+ */
+export class ContentRequestHandler {
+    private storage: StorageAdapter;
+    private stateStore: SyncStateStore;
+    private cacheControl: string;
+    private manifestTtlMs: number;
+    private redirectMapKey: string | null;
+    private cachedManifest: SyncManifest | null = null;
+    private cachedAt: number = 0;
+    private cachedRedirects: { hash: string; redirects: Map<string, Redirect> } | null = null;
+
+    constructor(options: ContentHandlerOptions) {
+        const fetcher = options.fetcher;
+        const storage = options.storage || fetcher?.getStorage()
+            || (options.targetDirectory ? new LocalStorageAdapter(options.targetDirectory) : null);
+        if (!storage) {
+            throw new Error('ContentRequestHandler needs a fetcher, storage or targetDirectory');
+        }
+        this.storage = storage;
+        // The fetcher's in-memory manifest may describe a staged release or a dry run - read what it persisted
+        const fetcherStateStore = options.storage ? undefined : fetcher?.getConfig().stateStore;
+        this.stateStore = options.stateStore || fetcherStateStore || new StorageStateStore(storage);
+        this.cacheControl = options.cacheControl ?? DEFAULT_CACHE_CONTROL;
+        this.manifestTtlMs = options.manifestTtlMs ?? DEFAULT_MANIFEST_TTL_MS;
+        this.redirectMapKey = options.redirectMap === false ? null : options.redirectMap || REDIRECT_FILE_NAMES.json;
+    }
+
+    /**
+     * Express/Connect middleware
+     */
+    middleware(): (req: IncomingMessage, res: ServerResponse, next: NextFunction) => void {
+        return (req, res, next) => {
+            const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+            this.serve(req.method || 'GET', pathname, header(req.headers['if-none-match']), header(req.headers['if-modified-since']))
+                .then(served => {
+                    if (!served) {
+                        next();
+                        return;
+                    }
+                    res.writeHead(served.status, served.headers);
+                    res.end(served.body ? Buffer.from(served.body) : undefined);
+                })
+                .catch(next);
+        };
+    }
+
+    /**
+     * Web-standard handler for Next.js route handlers and similar runtimes.
+     * Resolves to null when no synced file matches, so the app can fall through to its own routes.
+     */
+    async handle(request: Request): Promise<Response | null> {
+        const served = await this.serve(
+            request.method,
+            new URL(request.url).pathname,
+            request.headers.get('if-none-match') || undefined,
+            request.headers.get('if-modified-since') || undefined
+        );
+        if (!served) {
+            return null;
+        }
+        return new Response(served.body ? Buffer.from(served.body) : null, { status: served.status, headers: served.headers });
+    }
+
+    /**
+     * Map a request path to a synced file: exact keys (`/sitemap.xml`, `/blog/post.html`) first,
+     * then clean URLs (`/blog/post` -> `blog/post.html` or `blog/post/index.html`, `/blog/` -> `blog/index.html`)
+     */
+    async resolveKey(pathname: string): Promise<{ key: string; entry: ManifestEntry } | null> {
+        const manifest = await this.getManifest();
+        const servable = (key: string): ManifestEntry | undefined => {
+            const entry = manifest.files[key];
+            return entry && isServable(key, entry) ? entry : undefined;
+        };
+
+        let exactKey: string;
+        try {
+            exactKey = decodeURIComponent(pathname).replace(/^\/+/, '');
+        } catch {
+            return null;
+        }
+        const exactEntry = servable(exactKey);
+        if (exactKey && exactEntry) {
+            return { key: exactKey, entry: exactEntry };
+        }
+
+        try {
+            const key = normalizeUrlPath(pathname);
+            const entry = servable(key);
+            if (entry) {
+                return { key, entry };
+            }
+            // Pages written with the clean-urls output format: blog/post/index.html
+            const cleanKey = key.replace(/(^|\/)(?!index\.html$)([^/]+)\.html$/, '$1$2/index.html');
+            const cleanEntry = servable(cleanKey);
+            return cleanKey !== key && cleanEntry ? { key: cleanKey, entry: cleanEntry } : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private async serve(method: string, pathname: string, ifNoneMatch?: string, ifModifiedSince?: string): Promise<ServedResponse | null> {
+        if (method !== 'GET' && method !== 'HEAD') {
+            return null;
+        }
+
+        const resolved = await this.resolveKey(pathname);
+        if (!resolved) {
+            return this.serveRedirect(method, pathname);
+        }
+
+        const { key, entry } = resolved;
+        const etag = `"${entry.hash}"`;
+        const lastModified = new Date(entry.lastModifiedAt || entry.lastSyncedAt);
+        const extension = key.split('.').pop()?.toLowerCase() || '';
+        const headers: Record<string, string> = {
+            'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+            'ETag': etag,
+            'Last-Modified': lastModified.toUTCString(),
+            'Cache-Control': this.cacheControl
+        };
+
+        if (this.isNotModified(etag, lastModified, ifNoneMatch, ifModifiedSince)) {
+            return { status: 304, headers, body: null };
+        }
+
+        const body = await this.storage.readBytes(key);
+        if (!body) {
+            // Listed in the manifest but gone from storage - let the app handle it
+            return null;
+        }
+        headers['Content-Length'] = String(body.byteLength);
+
+        return { status: 200, headers, body: method === 'HEAD' ? null : body };
+    }
+
+    private async serveRedirect(method: string, pathname: string): Promise<ServedResponse | null> {
+        const redirect = await this.resolveRedirect(pathname);
+        if (!redirect) {
+            return null;
+        }
+        if (redirect.to !== undefined) {
+            return { status: redirect.status, headers: { 'Location': redirect.to, 'Cache-Control': this.cacheControl }, body: null };
+        }
+        const body = new TextEncoder().encode('Gone\n');
+        const headers = {
+            'Content-Type': CONTENT_TYPES['txt'] as string,
+            'Content-Length': String(body.byteLength),
+            'Cache-Control': this.cacheControl
+        };
+        return { status: redirect.status, headers, body: method === 'HEAD' ? null : body };
+    }
+
+    /**
+     * Look a request path up in the redirect map, if the map is a synced file
+     */
+    async resolveRedirect(pathname: string): Promise<Redirect | null> {
+        if (!this.redirectMapKey) {
+            return null;
+        }
+        const entry = (await this.getManifest()).files[this.redirectMapKey];
+        if (!entry) {
+            return null;
+        }
+        if (this.cachedRedirects?.hash !== entry.hash) {
+            const raw = await this.storage.read(this.redirectMapKey);
+            if (raw === null) {
+                return null;
+            }
+            this.cachedRedirects = { hash: entry.hash, redirects: parseRedirectMap(raw) };
+        }
+        return this.cachedRedirects.redirects.get(normalizeSitePath(pathname)) || null;
+    }
+
+    private isNotModified(etag: string, lastModified: Date, ifNoneMatch?: string, ifModifiedSince?: string): boolean {
+        // If-None-Match takes precedence over If-Modified-Since (RFC 9110 13.2.2)
+        if (ifNoneMatch) {
+            return ifNoneMatch.trim() === '*'
+                || ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag);
+        }
+        if (ifModifiedSince) {
+            const since = Date.parse(ifModifiedSince);
+            // HTTP dates have second precision
+            return !Number.isNaN(since) && Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000);
+        }
+        return false;
+    }
+
+    private async getManifest(): Promise<SyncManifest> {
+        if (!this.cachedManifest || Date.now() - this.cachedAt > this.manifestTtlMs) {
+            this.cachedManifest = await this.stateStore.load() || createEmptyManifest('');
+            this.cachedAt = Date.now();
+        }
+        return this.cachedManifest;
+    }
+}
+
+/**
+ * Pages, sitemaps (including split and gzipped ones) and robots.txt - the only XML files a sync
+ * writes are sitemaps. SDK state files never are, even when a custom state store tracks them.
+ */
+function isServable(key: string, entry: ManifestEntry): boolean {
+    if (key.split('/').some(segment => segment.startsWith(STATE_FILE_PREFIX))) {
+        return false;
+    }
+    return entry.urlPath !== undefined || key === 'robots.txt' || /\.xml(\.gz)?$/.test(key);
+}
+
+function header(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value.join(', ') : value;
+}
+
+export function createContentMiddleware(options: ContentHandlerOptions): (req: IncomingMessage, res: ServerResponse, next: NextFunction) => void {
+    return new ContentRequestHandler(options).middleware();
+}
+
+export function createContentRouteHandler(options: ContentHandlerOptions): (request: Request) => Promise<Response | null> {
+    const handler = new ContentRequestHandler(options);
+    return request => handler.handle(request);
+}
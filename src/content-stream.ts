@@ -0,0 +1,225 @@
+import { ValidationError } from './errors';
+
+type ScannerState = 'start' | 'key' | 'keyString' | 'colon' | 'valueStart' | 'value' | 'pagesItem' | 'item' | 'afterValue' | 'end';
+
+const WHITESPACE = new Set([' ', '\t', '\n', '\r']);
+
+/**
+ * Incremental parser for content API responses: `{ ..., "pages": [ {...}, {...} ], ... }`.
+ * Each element of the top-level `pages` array is handed out as soon as it is complete, so only one
+ * page is held in memory at a time; the other top-level fields are collected and returned at the end.
+ */
+export class ContentStreamParser {
+    private state: ScannerState = 'start';
+    private key: string = '';
+    private capture: string = '';           // Text of the key, value or page being read
+    private nesting: number = 0;            // Brackets opened inside the captured value
+    private inString: boolean = false;
+    private escaped: boolean = false;
+    private fields: Record<string, unknown> = {};
+    private pages: unknown[] = [];
+
+    /**
+     * Feed the next chunk of the response. Returns the pages completed by it.
+     */
+    push(chunk: string): unknown[] {
+        let captureStart = this.isCapturing() ? 0 : -1;
+
+        for (let i = 0; i < chunk.length; i++) {
+            const char = chunk[i] as string;
+
+            switch (this.state) {
+                case 'start':
+                    if (char === '{') {
+                        this.state = 'key';
+                    } else if (!WHITESPACE.has(char)) {
+                        throw new ValidationError('API response is not a JSON object');
+                    }
+                    break;
+
+                case 'key':
+                    if (char === '"') {
+                        this.state = 'keyString';
+                        captureStart = i;
+                    } else if (char === '}') {
+                        this.state = 'end';
+                    } else if (!WHITESPACE.has(char) && char !== ',') {
+                        throw this.syntaxError(char);
+                    }
+                    break;
+
+                case 'keyString':
+                    if (this.escaped) {
+                        this.escaped = false;
+                    } else if (char === '\\') {
+                        this.escaped = true;
+                    } else if (char === '"') {
+                        this.key = JSON.parse(this.capture + chunk.slice(captureStart, i + 1)) as string;
+                        this.capture = '';
+                        captureStart = -1;
+                        this.state = 'colon';
+                    }
+                    break;
+
+                case 'colon':
+                    if (char === ':') {
+                        this.state = 'valueStart';
+                    } else if (!WHITESPACE.has(char)) {
+                        throw this.syntaxError(char);
+                    }
+                    break;
+
+                case 'valueStart':
+                    if (WHITESPACE.has(char)) {
+                        break;
+                    }
+                    if (this.key === 'pages' && char === '[') {
+                        this.state = 'pagesItem';
+                        break;
+                    }
+                    this.state = 'value';
+                    captureStart = i;
+                    i = this.scanValue(chunk, i, captureStart);
+                    if (this.state !== 'value') {
+                        captureStart = -1;
+                    }
+                    break;
+
+                case 'value':
+                    i = this.scanValue(chunk, i, captureStart);
+                    if (this.state !== 'value') {
+                        captureStart = -1;
+                    }
+                    break;
+
+                case 'pagesItem':
+                    if (char === ']') {
+                        this.state = 'afterValue';
+                    } else if (!WHITESPACE.has(char) && char !== ',') {
+                        this.state = 'item';
+                        captureStart = i;
+                        i = this.scanValue(chunk, i, captureStart);
+                        if (this.state !== 'item') {
+                            captureStart = -1;
+                        }
+                    }
+                    break;
+
+                case 'item':
+                    i = this.scanValue(chunk, i, captureStart);
+                    if (this.state !== 'item') {
+                        captureStart = -1;
+                    }
+                    break;
+
+                case 'afterValue':
+                    if (char === ',') {
+                        this.state = 'key';
+                    } else if (char === '}') {
+                        this.state = 'end';
+                    } else if (!WHITESPACE.has(char)) {
+                        throw this.syntaxError(char);
+                    }
+                    break;
+
+                case 'end':
+                    if (!WHITESPACE.has(char)) {
+                        throw this.syntaxError(char);
+                    }
+                    break;
+            }
+        }
+
+        if (captureStart !== -1) {
+            this.capture += chunk.slice(captureStart);
+        }
+        return this.pages.splice(0);
+    }
+
+    /**
+     * Top-level fields other than the pages array. Throws when the response ended early.
+     */
+    end(): Record<string, unknown> {
+        if (this.state !== 'end') {
+            throw new ValidationError('API response ended unexpectedly');
+        }
+        return this.fields;
+    }
+
+    private isCapturing(): boolean {
+        return this.state === 'keyString' || this.state === 'value' || this.state === 'item';
+    }
+
+    /**
+     * Scan a value from `from` until it ends - at a `,` or closing bracket outside strings and nested
+     * values. Returns the index of the last character consumed.
+     */
+    private scanValue(chunk: string, from: number, captureStart: number): number {
+        for (let i = from; i < chunk.length; i++) {
+            const char = chunk[i] as string;
+            if (this.inString) {
+                if (this.escaped) {
+                    this.escaped = false;
+                } else if (char === '\\') {
+                    this.escaped = true;
+                } else if (char === '"') {
+                    this.inString = false;
+                }
+                continue;
+            }
+            if (char === '"') {
+                this.inString = true;
+            } else if (char === '{' || char === '[') {
+                this.nesting++;
+            } else if (this.nesting > 0 && (char === '}' || char === ']')) {
+                this.nesting--;
+            } else if (this.nesting === 0 && (char === ',' || char === '}' || char === ']')) {
+                this.finishValue(this.capture + chunk.slice(captureStart, i), char);
+                return i;
+            }
+        }
+        return chunk.length - 1;
+    }
+
+    private finishValue(text: string, terminator: string): void {
+        let value: unknown;
+        try {
+            value = JSON.parse(text);
+        } catch {
+            throw new ValidationError(`API response is not valid JSON near ${JSON.stringify(text.slice(0, 40))}`);
+        }
+        this.capture = '';
+
+        if (this.state === 'item') {
+            this.pages.push(value);
+            if (terminator === '}') {
+                throw this.syntaxError(terminator);
+            }
+            this.state = terminator === ']' ? 'afterValue' : 'pagesItem';
+            return;
+        }
+
+        this.fields[this.key] = value;
+        if (terminator === ']') {
+            throw this.syntaxError(terminator);
+        }
+        this.state = terminator === '}' ? 'end' : 'key';
+    }
+
+    private syntaxError(char: string): ValidationError {
+        return new ValidationError(`API response is not valid JSON: unexpected ${JSON.stringify(char)}`);
+    }
+}
+
+/**
+ * Parse a streamed response body. Yields the raw page items and returns the other top-level fields.
+ */
+export async function* parseContentStream(body: AsyncIterable<Uint8Array>): AsyncGenerator<unknown, Record<string, unknown>, undefined> {
+    const decoder = new TextDecoder();
+    const parser = new ContentStreamParser();
+    for await (const chunk of body) {
+        yield* parser.push(decoder.decode(chunk, { stream: true }));
+    }
+    yield* parser.push(decoder.decode());
+    return parser.end();
+}
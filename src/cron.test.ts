@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getNextCronDate, parseCron } from './cron';
+
+describe('parseCron', () => {
+    it('expands ranges, steps, lists and names', () => {
+        const fields = parseCron('*/15 9-17 1,15 jan-mar mon-fri');
+
+        expect([...fields.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...fields.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+        expect([...fields.daysOfMonth]).toEqual([1, 15]);
+        expect([...fields.months]).toEqual([1, 2, 3]);
+        expect([...fields.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('treats 7 as Sunday and expands macros', () => {
+        expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+        expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    });
+
+    it('rejects malformed expressions', () => {
+        expect(() => parseCron('* * * *')).toThrow('expected 5 fields');
+        expect(() => parseCron('60 * * * *')).toThrow('out of range');
+        expect(() => parseCron('*/0 * * * *')).toThrow('invalid step');
+        expect(() => parseCron('0 5-1 * * *')).toThrow('invalid range');
+    });
+});
+
+describe('getNextCronDate', () => {
+    it('returns the next matching minute strictly after the start', () => {
+        expect(getNextCronDate('30 10 * * *', new Date(2024, 0, 1, 10, 30))).toEqual(new Date(2024, 0, 2, 10, 30));
+        expect(getNextCronDate('*/15 * * * *', new Date(2024, 0, 1, 10, 31, 45))).toEqual(new Date(2024, 0, 1, 10, 45));
+    });
+
+    it('rolls over months and years', () => {
+        expect(getNextCronDate('0 0 1 * *', new Date(2024, 11, 15))).toEqual(new Date(2025, 0, 1));
+        expect(getNextCronDate('0 0 29 2 *', new Date(2024, 2, 1))).toEqual(new Date(2028, 1, 29));
+    });
+
+    it('matches either day field when both are restricted', () => {
+        // 2024-01-01 is a Monday; the 13th is a Saturday
+        expect(getNextCronDate('0 0 13 * 5', new Date(2024, 0, 1))).toEqual(new Date(2024, 0, 5));
+        expect(getNextCronDate('0 0 13 * 5', new Date(2024, 0, 12, 12))).toEqual(new Date(2024, 0, 13));
+    });
+
+    it('throws when the expression never fires', () => {
+        expect(() => getNextCronDate('0 0 30 2 *', new Date(2024, 0, 1))).toThrow('has no upcoming run');
+    });
+
+    it('requires both day fields to match when one is a stepped wildcard', () => {
+        // Odd days of the month that are also Mondays - 2024-01-01 and 2024-01-15 are Mondays
+        expect(getNextCronDate('0 0 */2 * 1', new Date(2024, 0, 1, 0, 0))).toEqual(new Date(2024, 0, 15, 0, 0));
+        // */7 is Sunday only, and the next Sunday the 13th is in October
+        expect(getNextCronDate('0 0 13 * */7', new Date(2024, 0, 1, 0, 0))).toEqual(new Date(2024, 9, 13, 0, 0));
+    });
+});
@@ -0,0 +1,148 @@
+export interface CronFields {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    daysOfMonthRestricted: boolean;
+    daysOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Give up looking for a match after this many years (e.g. "0 0 30 2 *" never fires)
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(field: string, min: number, max: number, names: string[] = [], nameOffset: number = 0): Set<number> {
+    const values = new Set<number>();
+
+    const toNumber = (token: string): number => {
+        const nameIndex = names.indexOf(token.toLowerCase());
+        const value = nameIndex !== -1 ? nameIndex + nameOffset : Number(token);
+        if (!Number.isInteger(value) || value < min || value > max) {
+            throw new Error(`value "${token}" out of range ${min}-${max}`);
+        }
+        return value;
+    };
+
+    for (const part of field.split(',')) {
+        const [range = '', stepToken] = part.split('/');
+        const step = stepToken === undefined ? 1 : Number(stepToken);
+        if (!Number.isInteger(step) || step < 1) {
+            throw new Error(`invalid step "${stepToken}"`);
+        }
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = min;
+            end = max;
+        } else if (range.includes('-')) {
+            const [from = '', to = ''] = range.split('-');
+            start = toNumber(from);
+            end = toNumber(to);
+            if (start > end) {
+                throw new Error(`invalid range "${range}"`);
+            }
+        } else {
+            start = toNumber(range);
+            end = stepToken === undefined ? start : max;
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * Parse a standard 5-field cron expression (minute hour day-of-month month day-of-week)
+ * or one of the @hourly/@daily/@weekly/@monthly/@yearly macros
+ */
+export function parseCron(expression: string): CronFields {
+    const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+    const parts = normalized.split(/\s+/);
+    if (parts.length !== 5) {
+        throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+    }
+
+    const [minute = '', hour = '', dayOfMonth = '', month = '', dayOfWeek = ''] = parts;
+    try {
+        const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+        // Both 0 and 7 mean Sunday
+        if (daysOfWeek.has(7)) {
+            daysOfWeek.delete(7);
+            daysOfWeek.add(0);
+        }
+        return {
+            minutes: parseField(minute, 0, 59),
+            hours: parseField(hour, 0, 23),
+            daysOfMonth: parseField(dayOfMonth, 1, 31),
+            months: parseField(month, 1, 12, MONTH_NAMES, 1),
+            daysOfWeek,
+            // As in Vixie cron, a field starting with * (including */2) counts as unrestricted
+            daysOfMonthRestricted: !dayOfMonth.startsWith('*'),
+            daysOfWeekRestricted: !dayOfWeek.startsWith('*')
+        };
+    } catch (error) {
+        throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+function matchesDay(fields: CronFields, date: Date): boolean {
+    const dayOfMonth = fields.daysOfMonth.has(date.getDate());
+    const dayOfWeek = fields.daysOfWeek.has(date.getDay());
+    // Standard cron semantics: when both day fields are restricted, either may match
+    if (fields.daysOfMonthRestricted && fields.daysOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Next time (local time, minute precision) strictly after `from` that matches the expression
+ */
+export function getNextCronDate(expression: string, from: Date = new Date()): Date {
+    const fields = parseCron(expression);
+    const date = new Date(from.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = from.getTime() + MAX_SEARCH_YEARS * 366 * 24 * 60 * 60 * 1000;
+    while (date.getTime() <= limit) {
+        if (!fields.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!matchesDay(fields, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!fields.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!fields.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return date;
+    }
+
+    throw new Error(`Cron expression "${expression}" has no upcoming run`);
+}
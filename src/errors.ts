@@ -0,0 +1,109 @@
+/**
+ * Base class of the errors thrown and reported by the SDK, so callers can tell them apart from
+ * errors raised by their own hooks and transformers
+ */
+export class SeoTroveError extends Error {
+    override name = 'SeoTroveError';
+
+    constructor(message: string, options: { cause?: unknown } = {}) {
+        super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    }
+}
+
+/**
+ * The SEOTrove API could not be reached or answered with an error status. `status` is null when
+ * no response was received (network error, timeout, open circuit breaker).
+ */
+export class ApiError extends SeoTroveError {
+    override name = 'ApiError';
+    readonly status: number | null;
+    readonly body: string | null;           // Response body, truncated to 2KB
+    readonly url: string;                   // Request URL without query string
+
+    constructor(message: string, details: { status?: number | null; body?: string | null; url: string; cause?: unknown }) {
+        super(message, { cause: details.cause });
+        this.status = details.status ?? null;
+        this.body = details.body ?? null;
+        this.url = details.url;
+    }
+}
+
+/**
+ * An API response or page failed validation
+ */
+export class ValidationError extends SeoTroveError {
+    override name = 'ValidationError';
+    readonly issues: string[];
+
+    constructor(message: string, issues: string[] = [message]) {
+        super(message);
+        this.issues = issues;
+    }
+}
+
+/**
+ * Writing or deleting a file in storage failed
+ */
+export class WriteError extends SeoTroveError {
+    override name = 'WriteError';
+    readonly key: string;                   // Storage key, e.g. blog/post.html
+
+    constructor(message: string, key: string, cause?: unknown) {
+        super(message, { cause });
+        this.key = key;
+    }
+}
+
+/**
+ * A page urlPath tried to leave the target directory (`..`, absolute paths, null bytes)
+ */
+export class PathSecurityError extends SeoTroveError {
+    override name = 'PathSecurityError';
+    readonly urlPath: string;
+
+    constructor(message: string, urlPath: string) {
+        super(message);
+        this.urlPath = urlPath;
+    }
+}
+
+/**
+ * A cache invalidator failed after a sync. The files were written; caches may still serve old content.
+ */
+export class InvalidationError extends SeoTroveError {
+    override name = 'InvalidationError';
+    readonly invalidator: string;           // CacheInvalidator name
+
+    constructor(message: string, invalidator: string, cause?: unknown) {
+        super(message, { cause });
+        this.invalidator = invalidator;
+    }
+}
+
+export interface ConfigIssue {
+    path: string;                           // Offending field, e.g. sites.blog.schedule.intervalMs
+    message: string;
+    source?: string;                        // Config file (with line, when known) or environment variable the value came from
+}
+
+/**
+ * A config file or environment override could not be read or failed validation
+ */
+export class ConfigError extends SeoTroveError {
+    override name = 'ConfigError';
+    readonly issues: ConfigIssue[];
+
+    constructor(message: string, issues: ConfigIssue[] = []) {
+        super(issues.length > 0 ? `${message}\n${issues.map(issue => `  ${formatConfigIssue(issue)}`).join('\n')}` : message);
+        this.issues = issues;
+    }
+}
+
+function formatConfigIssue(issue: ConfigIssue): string {
+    const location = [issue.source, issue.path].filter(Boolean).join(' ');
+    return location ? `${location}: ${issue.message}` : issue.message;
+}
+
+export function toError(error: unknown): Error {
+    return error instanceof Error ? error : new Error(String(error));
+}
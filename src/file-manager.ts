@@ -1,3 +1,4 @@
+import crypto from 'crypto';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -10,12 +11,51 @@ export class FileManager {
         }
     }
 
-    static async writeFile(filePath: string, content: string): Promise<void> {
+    static async writeFile(filePath: string, content: string | Uint8Array): Promise<void> {
         const dir = path.dirname(filePath);
         await this.ensureDirectoryExists(dir);
         await fs.writeFile(filePath, content, 'utf-8');
     }
 
+    static async writeFileAtomic(filePath: string, content: string | Uint8Array): Promise<void> {
+        const dir = path.dirname(filePath);
+        await this.ensureDirectoryExists(dir);
+        // Unique per call, so concurrent writes of the same file never share a temp file
+        const tempPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`;
+        try {
+            await fs.writeFile(tempPath, content, 'utf-8');
+            await fs.rename(tempPath, filePath);
+        } catch (error) {
+            await fs.rm(tempPath, { force: true });
+            throw error;
+        }
+    }
+
+    static async readFile(filePath: string): Promise<string> {
+        return fs.readFile(filePath, 'utf-8');
+    }
+
+    static async deleteFile(filePath: string): Promise<void> {
+        await fs.rm(filePath, { force: true });
+    }
+
+    /**
+     * Remove empty directories from dirPath upwards, stopping at (and never removing) stopAt
+     */
+    static async removeEmptyDirectories(dirPath: string, stopAt: string): Promise<void> {
+        let current = path.resolve(dirPath);
+        const root = path.resolve(stopAt);
+
+        while (current !== root && current.startsWith(root + path.sep)) {
+            const entries = await fs.readdir(current).catch(() => null);
+            if (!entries || entries.length > 0) {
+                return;
+            }
+            await fs.rmdir(current);
+            current = path.dirname(current);
+        }
+    }
+
     static sanitizeFileName(fileName: string): string {
         // Remove or replace invalid characters for file names
         return fileName
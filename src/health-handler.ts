@@ -0,0 +1,117 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ContentScheduler } from './scheduler';
+import { HealthHandlerOptions, HealthOptions } from './types';
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+interface MonitoringResponse {
+    status: number;
+    contentType: string;
+    body: string;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+/**
+ * Serves a ContentScheduler's health report and Prometheus metrics for load balancers, uptime
+ * checks and scrapers. Health responds 200 when every fetcher is healthy and 503 otherwise.
+ *
+ * Works as Express/Connect middleware or a Node `http` listener (`middleware()`,
+ * `metricsMiddleware()`) and with Web/Next.js route handlers (`handle()`, `handleMetrics()`).
+ */
+export class HealthHandler {
+    private scheduler: ContentScheduler;
+    private healthOptions: HealthOptions = {};
+
+    constructor(options: HealthHandlerOptions) {
+        this.scheduler = options.scheduler;
+        if (options.maxConsecutiveFailures !== undefined) {
+            this.healthOptions.maxConsecutiveFailures = options.maxConsecutiveFailures;
+        }
+        if (options.maxSuccessAgeMs !== undefined) {
+            this.healthOptions.maxSuccessAgeMs = options.maxSuccessAgeMs;
+        }
+    }
+
+    /**
+     * Express/Connect middleware for the health report, also usable directly as a Node `http` request listener
+     */
+    middleware(): (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => void {
+        return (req, res, next) => this.respond(() => this.health(req.method || 'GET'), res, next);
+    }
+
+    metricsMiddleware(): (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => void {
+        return (req, res, next) => this.respond(() => this.metrics(req.method || 'GET'), res, next);
+    }
+
+    /**
+     * Web-standard health handler for Next.js route handlers and similar runtimes
+     */
+    async handle(request: Request): Promise<Response> {
+        return toResponse(this.health(request.method));
+    }
+
+    async handleMetrics(request: Request): Promise<Response> {
+        return toResponse(this.metrics(request.method));
+    }
+
+    private health(method: string): MonitoringResponse {
+        if (method !== 'GET' && method !== 'HEAD') {
+            return methodNotAllowed();
+        }
+        const report = this.scheduler.getHealth(this.healthOptions);
+        return {
+            status: report.healthy ? 200 : 503,
+            contentType: 'application/json; charset=utf-8',
+            body: JSON.stringify(report)
+        };
+    }
+
+    private metrics(method: string): MonitoringResponse {
+        if (method !== 'GET' && method !== 'HEAD') {
+            return methodNotAllowed();
+        }
+        return { status: 200, contentType: PROMETHEUS_CONTENT_TYPE, body: this.scheduler.getMetrics() };
+    }
+
+    private respond(build: () => MonitoringResponse, res: ServerResponse, next?: NextFunction): void {
+        let response: MonitoringResponse;
+        try {
+            response = build();
+        } catch (error) {
+            if (next) {
+                next(error);
+                return;
+            }
+            response = { status: 500, contentType: 'application/json; charset=utf-8', body: JSON.stringify({ error: 'Internal error' }) };
+        }
+        res.writeHead(response.status, { 'Content-Type': response.contentType });
+        res.end(response.body);
+    }
+}
+
+function methodNotAllowed(): MonitoringResponse {
+    return { status: 405, contentType: 'application/json; charset=utf-8', body: JSON.stringify({ error: 'Method not allowed' }) };
+}
+
+function toResponse(response: MonitoringResponse): Response {
+    return new Response(response.body, { status: response.status, headers: { 'Content-Type': response.contentType } });
+}
+
+export function createHealthMiddleware(options: HealthHandlerOptions): (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => void {
+    return new HealthHandler(options).middleware();
+}
+
+export function createHealthRouteHandler(options: HealthHandlerOptions): (request: Request) => Promise<Response> {
+    const handler = new HealthHandler(options);
+    return request => handler.handle(request);
+}
+
+export function createMetricsMiddleware(options: HealthHandlerOptions): (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => void {
+    return new HealthHandler(options).metricsMiddleware();
+}
+
+export function createMetricsRouteHandler(options: HealthHandlerOptions): (request: Request) => Promise<Response> {
+    const handler = new HealthHandler(options);
+    return request => handler.handleMetrics(request);
+}
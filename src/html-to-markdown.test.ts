@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHtmlEntities, htmlToMarkdown } from './html-to-markdown';
+
+describe('htmlToMarkdown', () => {
+    it('converts headings, paragraphs and inline formatting', () => {
+        const html = '<html><head><title>Post</title><style>p { color: red }</style></head><body>\n'
+            + '  <h1>Title</h1>\n  <p>Some <strong>bold</strong>, <em>italic </em>and <del>old</del> text with <code>a`b</code>.</p>\n'
+            + '  <p>Line one<br>line two</p>\n  <hr>\n  <script>alert("<p>")</script>\n</body></html>';
+
+        expect(htmlToMarkdown(html)).toBe('# Title\n\nSome **bold**, *italic* and ~~old~~ text with ``a`b``.\n\nLine one  \nline two\n\n---\n');
+    });
+
+    it('converts links and images', () => {
+        const html = '<p><a href="/docs/a page (1)" title="The &quot;docs&quot;">Docs</a> <a href="https://example.com"></a> <a name="x">anchor</a></p>'
+            + '<p><img src="/img/logo one.png" alt="Logo [main]"></p>';
+
+        expect(htmlToMarkdown(html)).toBe('[Docs](/docs/a%20page%20%281%29 "The \\"docs\\"") [https://example.com](https://example.com) anchor\n\n![Logo \\[main\\]](/img/logo%20one.png)\n');
+    });
+
+    it('converts nested lists with continuation lines', () => {
+        const html = `
+            <ul>
+                <li>First
+                    <ul>
+                        <li>Nested <em>one</em></li>
+                        <li>Nested two
+                            <ol start="3"><li>Deep</li></ol>
+                        </li>
+                    </ul>
+                </li>
+                <li><p>Second</p><p>More about second</p></li>
+            </ul>
+            <ol><li>One</li><li>Two</li></ol>`;
+
+        expect(htmlToMarkdown(html)).toBe([
+            '- First',
+            '  - Nested *one*',
+            '  - Nested two',
+            '    3. Deep',
+            '- Second',
+            '',
+            '  More about second',
+            '',
+            '1. One',
+            '2. Two',
+            ''
+        ].join('\n'));
+    });
+
+    it('keeps code blocks verbatim with their language', () => {
+        const html = '<pre><code class="language-ts">const a = 1 &lt; 2;\n\nif (a) {\n    run(`*x*`);\n}\n</code></pre>'
+            + '<pre><code>```\nfenced\n```</code></pre>';
+
+        expect(htmlToMarkdown(html)).toBe('```ts\nconst a = 1 < 2;\n\nif (a) {\n    run(`*x*`);\n}\n```\n\n~~~\n```\nfenced\n```\n~~~\n');
+    });
+
+    it('converts tables with a header row, escaping pipes and padding short rows', () => {
+        const html = `
+            <table>
+                <thead><tr><th>Plan</th><th>Price</th><th>Notes</th></tr></thead>
+                <tbody>
+                    <tr><td><strong>Pro</strong></td><td>$10 | month</td><td>Best\n value</td></tr>
+                    <tr><td>Free</td></tr>
+                </tbody>
+            </table>`;
+
+        expect(htmlToMarkdown(html)).toBe([
+            '| Plan | Price | Notes |',
+            '| --- | --- | --- |',
+            '| **Pro** | $10 \\| month | Best value |',
+            '| Free |  |  |',
+            ''
+        ].join('\n'));
+    });
+
+    it('quotes blockquotes line by line', () => {
+        expect(htmlToMarkdown('<blockquote><p>One</p><p>Two</p></blockquote>')).toBe('> One\n>\n> Two\n');
+    });
+
+    it('escapes Markdown characters in text, and JSX characters for MDX', () => {
+        const html = '<p>5 * 3 = [15] &lt;tag&gt; {value}</p>';
+
+        expect(htmlToMarkdown(html)).toBe('5 \\* 3 = \\[15\\] \\<tag> {value}\n');
+        expect(htmlToMarkdown(html, { mdx: true })).toBe('5 \\* 3 = \\[15\\] \\<tag\\> \\{value\\}\n');
+    });
+
+    it('closes unclosed tags and ignores stray closing tags', () => {
+        expect(htmlToMarkdown('<p>One<p>Two</span></div>')).toBe('One\n\nTwo\n');
+    });
+});
+
+describe('decodeHtmlEntities', () => {
+    it('decodes named, decimal and hex entities', () => {
+        expect(decodeHtmlEntities('&amp;lt; &copy; &hellip; &#8212; &#x1F600; &AMP;')).toBe('&lt; © … — 😀 &');
+    });
+
+    it('leaves unknown and out-of-range entities alone', () => {
+        expect(decodeHtmlEntities('&unknown; &#x110000; & AT&T')).toBe('&unknown; &#x110000; & AT&T');
+    });
+});
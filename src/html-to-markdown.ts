@@ -0,0 +1,257 @@
+interface ElementNode {
+    tag: string;
+    attributes: Record<string, string>;
+    children: HtmlNode[];
+}
+
+type HtmlNode = ElementNode | string;
+
+export interface MarkdownOptions {
+    mdx?: boolean;                          // Also escape characters MDX treats as JSX/expressions
+}
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'form', 'button']);
+const BLOCK_TAGS = new Set(['p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'nav', 'figure', 'figcaption', 'body', 'html', 'dl', 'dd', 'dt']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', copy: '©', reg: '®', trade: '™',
+    hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', bull: '•', middot: '·'
+};
+
+export function decodeHtmlEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+        }
+        return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    for (const match of source.matchAll(/([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+        if (match[1]) {
+            attributes[match[1].toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+        }
+    }
+    return attributes;
+}
+
+/**
+ * Lenient HTML parser - unclosed tags are closed by their parent, stray closing tags are ignored
+ */
+function parseHtml(html: string): ElementNode {
+    const root: ElementNode = { tag: '#root', attributes: {}, children: [] };
+    const stack: ElementNode[] = [root];
+    const tokens = /<!--[\s\S]*?-->|<!\w[^>]*>|<\/([a-zA-Z][\w-]*)\s*>|<([a-zA-Z][\w-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g;
+
+    let match: RegExpExecArray | null;
+    while ((match = tokens.exec(html)) !== null) {
+        const current = stack[stack.length - 1] as ElementNode;
+        const [token, closingTag, openingTag, attributeSource = ''] = match;
+
+        if (token.startsWith('<!')) {
+            continue;
+        }
+        if (closingTag) {
+            const tag = closingTag.toLowerCase();
+            const index = stack.map(node => node.tag).lastIndexOf(tag);
+            if (index > 0) {
+                stack.length = index;
+            }
+            continue;
+        }
+        if (openingTag) {
+            const tag = openingTag.toLowerCase();
+            const element: ElementNode = { tag, attributes: parseAttributes(attributeSource), children: [] };
+            current.children.push(element);
+            if (!VOID_TAGS.has(tag) && !attributeSource.trim().endsWith('/')) {
+                if (tag === 'script' || tag === 'style') {
+                    // Raw text elements - skip to the closing tag
+                    const end = html.toLowerCase().indexOf(`</${tag}`, tokens.lastIndex);
+                    tokens.lastIndex = end === -1 ? html.length : end;
+                }
+                stack.push(element);
+            }
+            continue;
+        }
+        current.children.push(token);
+    }
+
+    return root;
+}
+
+function textContent(node: HtmlNode): string {
+    return typeof node === 'string' ? decodeHtmlEntities(node) : node.children.map(textContent).join('');
+}
+
+class MarkdownRenderer {
+    constructor(private options: MarkdownOptions) {}
+
+    render(nodes: HtmlNode[], listDepth: number = 0): string {
+        return nodes.map((node, index) => {
+            // Formatting whitespace between blocks would otherwise indent the next block
+            if (typeof node === 'string' && !node.trim() && (isBlock(nodes[index - 1]) || isBlock(nodes[index + 1]))) {
+                return '';
+            }
+            return this.renderNode(node, listDepth);
+        }).join('');
+    }
+
+    private escape(text: string): string {
+        const escaped = text.replace(/([\\`*_[\]])/g, '\\$1');
+        return this.options.mdx ? escaped.replace(/([<>{}])/g, '\\$1') : escaped.replace(/</g, '\\<');
+    }
+
+    private renderNode(node: HtmlNode, listDepth: number): string {
+        if (typeof node === 'string') {
+            return this.escape(decodeHtmlEntities(node).replace(/\s+/g, ' '));
+        }
+
+        const { tag, attributes, children } = node;
+        const inner = () => this.render(children, listDepth);
+
+        if (SKIPPED_TAGS.has(tag)) {
+            return '';
+        }
+        if (/^h[1-6]$/.test(tag)) {
+            return `\n\n${'#'.repeat(Number(tag[1]))} ${inner().trim()}\n\n`;
+        }
+        if (BLOCK_TAGS.has(tag)) {
+            return `\n\n${inner().trim()}\n\n`;
+        }
+
+        switch (tag) {
+            case 'br':
+                return '  \n';
+            case 'hr':
+                return '\n\n---\n\n';
+            case 'strong':
+            case 'b':
+                return wrapInline(inner(), '**');
+            case 'em':
+            case 'i':
+                return wrapInline(inner(), '*');
+            case 'del':
+            case 's':
+                return wrapInline(inner(), '~~');
+            case 'code':
+                return inlineCode(textContent(node));
+            case 'a': {
+                const text = inner().trim();
+                if (!attributes['href']) {
+                    return text;
+                }
+                const title = attributes['title'] ? ` "${attributes['title'].replace(/"/g, '\\"')}"` : '';
+                return `[${text || attributes['href']}](${encodeUrl(attributes['href'])}${title})`;
+            }
+            case 'img':
+                return attributes['src'] ? `![${this.escape(attributes['alt'] || '')}](${encodeUrl(attributes['src'])})` : '';
+            case 'pre': {
+                const code = children.find((child): child is ElementNode => typeof child !== 'string' && child.tag === 'code');
+                const language = /(?:^|\s)(?:language|lang)-(\S+)/.exec(code?.attributes['class'] || '')?.[1] || '';
+                const text = textContent(code || node).replace(/^\n/, '').replace(/\s+$/, '');
+                const fence = text.includes('```') ? '~~~' : '```';
+                return `\n\n${fence}${language}\n${text}\n${fence}\n\n`;
+            }
+            case 'blockquote':
+                return `\n\n${inner().trim().replace(/\n{3,}/g, '\n\n').split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n`;
+            case 'ul':
+            case 'ol':
+                return this.renderList(node, listDepth);
+            case 'table':
+                return this.renderTable(node);
+            default:
+                return inner();
+        }
+    }
+
+    private renderList(list: ElementNode, listDepth: number): string {
+        const items = list.children.filter((child): child is ElementNode => typeof child !== 'string' && child.tag === 'li');
+        const start = Number(list.attributes['start']) || 1;
+
+        const lines = items.map((item, index) => {
+            const marker = list.tag === 'ol' ? `${start + index}.` : '-';
+            const content = this.render(item.children, listDepth + 1)
+                .replace(/\n{3,}/g, '\n\n')
+                .trim()
+                .split('\n')
+                // Continuation lines (and nested lists) are indented under the item's text
+                .map((line, lineIndex) => lineIndex === 0 || !line ? line : `${' '.repeat(marker.length + 1)}${line}`)
+                .join('\n');
+            return `${marker} ${content}`;
+        });
+
+        return listDepth === 0 ? `\n\n${lines.join('\n')}\n\n` : `\n${lines.join('\n')}\n`;
+    }
+
+    private renderTable(table: ElementNode): string {
+        const rows: ElementNode[] = [];
+        const collectRows = (node: ElementNode) => {
+            for (const child of node.children) {
+                if (typeof child === 'string') {
+                    continue;
+                }
+                if (child.tag === 'tr') {
+                    rows.push(child);
+                } else if (['thead', 'tbody', 'tfoot'].includes(child.tag)) {
+                    collectRows(child);
+                }
+            }
+        };
+        collectRows(table);
+        if (rows.length === 0) {
+            return '';
+        }
+
+        const cells = rows.map(row => row.children
+            .filter((child): child is ElementNode => typeof child !== 'string' && (child.tag === 'td' || child.tag === 'th'))
+            .map(cell => this.render(cell.children).replace(/\s+/g, ' ').trim().replace(/\|/g, '\\|')));
+        const columns = Math.max(...cells.map(row => row.length));
+        const line = (row: string[]) => `| ${Array.from({ length: columns }, (_, i) => row[i] || '').join(' | ')} |`;
+
+        const [header = [], ...body] = cells;
+        return `\n\n${[line(header), line(Array(columns).fill('---')), ...body.map(line)].join('\n')}\n\n`;
+    }
+}
+
+function isBlock(node: HtmlNode | undefined): boolean {
+    return node === undefined || (typeof node !== 'string'
+        && (BLOCK_TAGS.has(node.tag) || /^(h[1-6]|ul|ol|li|pre|blockquote|table|hr)$/.test(node.tag)));
+}
+
+function wrapInline(text: string, marker: string): string {
+    const trimmed = text.trim();
+    if (!trimmed) {
+        return text;
+    }
+    // Keep surrounding whitespace outside the markers, where Markdown expects it
+    const leading = text.startsWith(' ') ? ' ' : '';
+    const trailing = text.endsWith(' ') ? ' ' : '';
+    return `${leading}${marker}${trimmed}${marker}${trailing}`;
+}
+
+function inlineCode(text: string): string {
+    const fence = text.includes('`') ? '``' : '`';
+    return `${fence}${text}${fence}`;
+}
+
+// encodeURIComponent leaves parentheses alone, and a `)` would end the link
+function encodeUrl(url: string): string {
+    return url.replace(/\s/g, encodeURIComponent).replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+/**
+ * Convert an HTML page or fragment to Markdown (CommonMark plus GFM tables and strikethrough).
+ * Only the `<body>` is converted; scripts, styles and forms are dropped.
+ */
+export function htmlToMarkdown(html: string, options: MarkdownOptions = {}): string {
+    const root = parseHtml(html);
+    return new MarkdownRenderer(options)
+        .render(root.children)
+        .replace(/[ \t]+\n/g, match => match.startsWith('  ') ? '  \n' : '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim() + '\n';
+}
@@ -0,0 +1,155 @@
+import { FileManager } from './file-manager';
+import { escapeXml, unescapeXml } from './sitemap';
+import { ContentPage, PageTransformContext, TransformConfig } from './types';
+
+export interface PageMetadata {
+    title: string;
+    description: string;
+    head: string;                           // Inner HTML of <head> without <title> and the description meta tag
+    body: string;                           // Inner HTML of <body>, or the whole page for fragments
+}
+
+function stripTags(html: string): string {
+    return html.replace(/<[^>]*>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+export function extractPageMetadata(html: string): PageMetadata {
+    const titleMatch = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html);
+    const h1Match = /<h1\b[^>]*>([\s\S]*?)<\/h1>/i.exec(html);
+    const descriptionTag = /<meta\b[^>]*\bname\s*=\s*["']description["'][^>]*>/i.exec(html)?.[0];
+    const headMatch = /<head\b[^>]*>([\s\S]*?)<\/head>/i.exec(html);
+    const bodyMatch = /<body\b[^>]*>([\s\S]*)<\/body>/i.exec(html);
+
+    let head = (headMatch?.[1] || '').replace(/<title\b[^>]*>[\s\S]*?<\/title>/i, '');
+    if (descriptionTag) {
+        head = head.replace(descriptionTag, '');
+    }
+
+    return {
+        title: stripTags(titleMatch?.[1] || h1Match?.[1] || ''),
+        description: descriptionTag ? /\bcontent\s*=\s*(["'])([\s\S]*?)\1/i.exec(descriptionTag)?.[2] || '' : '',
+        head: head.trim(),
+        body: bodyMatch ? (bodyMatch[1] || '').trim() : html
+    };
+}
+
+/**
+ * Replace `{{name}}` placeholders. Unknown placeholders are left untouched.
+ */
+export function applyLayout(template: string, variables: Record<string, string>): string {
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => variables[name] ?? placeholder);
+}
+
+/**
+ * Insert tags at the end of <head>, creating a head element when the page has none
+ */
+export function injectHeadTags(html: string, tags: string[]): string {
+    if (tags.length === 0) {
+        return html;
+    }
+    const markup = tags.join('\n');
+
+    if (/<\/head>/i.test(html)) {
+        return html.replace(/<\/head>/i, () => `${markup}\n</head>`);
+    }
+    if (/<html\b[^>]*>/i.test(html)) {
+        return html.replace(/<html\b[^>]*>/i, match => `${match}\n<head>\n${markup}\n</head>`);
+    }
+    return `${markup}\n${html}`;
+}
+
+export function isInternalLink(href: string, siteUrl: string): boolean {
+    if (!href || href.startsWith('#')) {
+        return false;
+    }
+    try {
+        if (href.startsWith('//')) {
+            return new URL(`https:${href}`).host === new URL(siteUrl).host;
+        }
+        if (/^[a-z][a-z0-9+.-]*:/i.test(href)) {
+            return new URL(href).host === new URL(siteUrl).host;
+        }
+    } catch {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Pass every internal `<a href>` (relative, root-relative or pointing at siteUrl) through `rewrite`
+ */
+export function rewriteLinks(html: string, siteUrl: string, rewrite: (href: string) => string | undefined): string {
+    return html.replace(/(<a\b[^>]*?\shref\s*=\s*)(["'])([\s\S]*?)\2/gi, (match, prefix: string, quote: string, rawHref: string) => {
+        const href = unescapeXml(rawHref);
+        if (!isInternalLink(href, siteUrl)) {
+            return match;
+        }
+        const rewritten = rewrite(href);
+        return rewritten === undefined || rewritten === href ? match : `${prefix}${quote}${escapeXml(rewritten)}${quote}`;
+    });
+}
+
+/**
+ * Clean URL a storage key is served at: `blog/post.html` -> `/blog/post`, `blog/index.html` -> `/blog/`
+ */
+export function getPageUrlPath(key: string): string {
+    return `/${key.replace(/(^|\/)index\.html$/, '$1').replace(/\.html$/, '')}`;
+}
+
+/**
+ * Renders pages for the site before they are written: layout, head tags, canonical link,
+ * internal link rewriting and then user transformers, in that order
+ */
+export class HtmlTransformPipeline {
+    private config: TransformConfig;
+    private layoutTemplate: string | null = null;
+
+    constructor(config: TransformConfig) {
+        this.config = config;
+    }
+
+    /**
+     * Load the layout file - called once per sync so template edits are picked up without a restart
+     */
+    async prepare(): Promise<void> {
+        this.layoutTemplate = this.config.layoutFile
+            ? await FileManager.readFile(this.config.layoutFile)
+            : this.config.layout ?? null;
+    }
+
+    async transform(page: ContentPage, context: PageTransformContext): Promise<string> {
+        let html = page.html;
+
+        if (this.layoutTemplate !== null) {
+            const metadata = extractPageMetadata(html);
+            html = applyLayout(this.layoutTemplate, {
+                content: metadata.body,
+                title: metadata.title,
+                description: metadata.description,
+                head: metadata.head,
+                canonicalUrl: escapeXml(context.canonicalUrl),
+                urlPath: escapeXml(page.urlPath),
+                domain: escapeXml(context.domain)
+            });
+        }
+
+        const headTags = typeof this.config.headTags === 'function'
+            ? [...await this.config.headTags(page, context)]
+            : [...(this.config.headTags || [])];
+        if (this.config.canonical && !/<link\b[^>]*\brel\s*=\s*["']canonical["']/i.test(html)) {
+            headTags.push(`<link rel="canonical" href="${escapeXml(context.canonicalUrl)}">`);
+        }
+        html = injectHeadTags(html, headTags);
+
+        const rewriteLink = this.config.rewriteLink;
+        if (rewriteLink) {
+            html = rewriteLinks(html, context.siteUrl, href => rewriteLink(href, context));
+        }
+
+        for (const transformer of this.config.transformers || []) {
+            html = await transformer(html, page, context);
+        }
+
+        return html;
+    }
+}
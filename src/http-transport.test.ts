@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker';
+import { HttpTransport } from './http-transport';
+import { ContentFetcherConfig, FetchFunction } from './types';
+
+function createTransport(fetch: FetchFunction, overrides: Partial<ContentFetcherConfig> = {}): HttpTransport {
+    return new HttpTransport({
+        domain: 'example.com',
+        installId: 'install-1',
+        targetDirectory: '/tmp/unused',
+        retry: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 0, jitter: false },
+        ...overrides,
+        transport: { fetch, ...overrides.transport }
+    });
+}
+
+function recordingFetch(responses: Array<() => Response> = []): { fetch: FetchFunction; calls: Array<{ url: string; init: RequestInit }> } {
+    const calls: Array<{ url: string; init: RequestInit }> = [];
+    const fetch: FetchFunction = async (url, init = {}) => {
+        calls.push({ url, init });
+        const next = responses.shift();
+        return next ? next() : new Response('{}', { status: 200 });
+    };
+    return { fetch, calls };
+}
+
+describe('HttpTransport headers', () => {
+    it('merges a Headers instance passed by the caller', async () => {
+        const { fetch, calls } = recordingFetch();
+        const transport = createTransport(fetch, { transport: { headers: { 'X-Env': 'staging' } } });
+
+        await transport.request('https://api.test/content', { headers: new Headers({ 'X-Trace': 'abc' }) });
+
+        expect(calls[0]?.init.headers).toEqual({ 'accept': 'application/json', 'x-env': 'staging', 'x-trace': 'abc' });
+    });
+
+    it('merges [name, value] pairs and lets caller headers win case-insensitively', async () => {
+        const { fetch, calls } = recordingFetch();
+        const transport = createTransport(fetch, { transport: { headers: { 'X-Env': 'staging' } } });
+
+        await transport.request('https://api.test/content', { headers: [['x-env', 'production'], ['Accept', 'text/plain']] });
+
+        expect(calls[0]?.init.headers).toEqual({ 'accept': 'text/plain', 'x-env': 'production' });
+    });
+
+    it('sends the auth token as a bearer Authorization header', async () => {
+        const { fetch, calls } = recordingFetch();
+        const transport = createTransport(fetch, { transport: { authToken: 'secret' } });
+
+        await transport.request('https://api.test/content', { headers: { Authorization: 'Basic other' } });
+
+        expect((calls[0]?.init.headers as Record<string, string>)['authorization']).toBe('Bearer secret');
+    });
+});
+
+describe('HttpTransport retries', () => {
+    it('retries 5xx responses and records each attempt', async () => {
+        const { fetch, calls } = recordingFetch([
+            () => new Response('busy', { status: 503 }),
+            () => new Response('{"pages":[]}', { status: 200 })
+        ]);
+        const transport = createTransport(fetch);
+        const attempts: Parameters<HttpTransport['request']>[2] = [];
+
+        const response = await transport.request('https://api.test/content', {}, attempts);
+
+        expect(response.status).toBe(200);
+        expect(calls).toHaveLength(2);
+        expect(attempts.map(attempt => attempt.status)).toEqual([503, 200]);
+    });
+});
+
+describe('HttpTransport circuit breaker', () => {
+    it('rejects other requests while a half-open trial is in flight', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 0 });
+        breaker.recordFailure();
+        let release: () => void = () => undefined;
+        const fetch: FetchFunction = () => new Promise(resolve => {
+            release = () => resolve(new Response('{}', { status: 200 }));
+        });
+        const transport = new HttpTransport({ domain: 'example.com', installId: 'install-1', targetDirectory: '/tmp/unused', transport: { fetch } }, breaker);
+
+        const trial = transport.request('https://api.test/content');
+        await expect(transport.request('https://api.test/content')).rejects.toThrow('half-open');
+
+        release();
+        await trial;
+        expect(breaker.getState()).toBe('closed');
+    });
+
+    it('releases the trial when the caller aborts it', async () => {
+        const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 0 });
+        breaker.recordFailure();
+        const fetch: FetchFunction = (_url, init) => new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+        const transport = new HttpTransport({ domain: 'example.com', installId: 'install-1', targetDirectory: '/tmp/unused', transport: { fetch } }, breaker);
+        const controller = new AbortController();
+
+        const trial = transport.request('https://api.test/content', { signal: controller.signal });
+        controller.abort();
+        await expect(trial).rejects.toThrow();
+
+        expect(breaker.canRequest()).toBe(true);
+    });
+});
@@ -0,0 +1,294 @@
+import { CircuitBreaker } from './circuit-breaker';
+import { ContentFetcherConfig, FetchFunction, RequestAttempt, RetryConfig, TransportConfig } from './types';
+
+export const DEFAULT_BASE_URL = 'https://api.seotrove.com/api/v1/sdk';
+
+const DEFAULT_TIMEOUT_MS = 30 * 1000;
+const DEFAULT_RETRY: Required<RetryConfig> = {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 30 * 1000,
+    jitter: true
+};
+
+// Statuses that must not carry a body when constructing a Response
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+export class HttpTransport {
+    private baseUrl: string;
+    private transport: TransportConfig;
+    private timeoutMs: number;
+    private retry: Required<RetryConfig>;
+    private circuitBreaker: CircuitBreaker | null;
+
+    constructor(config: ContentFetcherConfig, circuitBreaker: CircuitBreaker | null = null) {
+        this.baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+        this.transport = config.transport || {};
+        this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+        this.retry = config.retry === false
+            ? { ...DEFAULT_RETRY, maxRetries: 0 }
+            : { ...DEFAULT_RETRY, ...config.retry };
+        this.circuitBreaker = circuitBreaker;
+    }
+
+    /**
+     * Build an absolute API URL from a path relative to the configured base URL
+     */
+    buildUrl(pathname: string, query: Record<string, string> = {}): string {
+        const url = new URL(`${this.baseUrl}/${pathname.replace(/^\/+/, '')}`);
+        for (const [key, value] of Object.entries(query)) {
+            url.searchParams.set(key, value);
+        }
+        return url.toString();
+    }
+
+    /**
+     * Send a request with per-attempt timeouts, exponential backoff for 5xx/network errors and
+     * Retry-After handling for 429. The response body is buffered within the attempt so the
+     * timeout also covers a connection that hangs mid-body.
+     */
+    async request(url: string, init: RequestInit = {}, attempts: RequestAttempt[] = []): Promise<Response> {
+        return this.execute(url, init, attempts, false);
+    }
+
+    /**
+     * Like request(), but a successful response's body is handed over as it arrives instead of being
+     * buffered. The timeout then applies to each chunk, so a large body may take as long as it needs
+     * while a stalled connection still fails. Error responses are buffered as usual.
+     */
+    async requestStream(url: string, init: RequestInit = {}, attempts: RequestAttempt[] = []): Promise<Response> {
+        return this.execute(url, init, attempts, true);
+    }
+
+    private async execute(url: string, init: RequestInit, attempts: RequestAttempt[], stream: boolean): Promise<Response> {
+        if (this.circuitBreaker && !this.circuitBreaker.canRequest()) {
+            const retryAt = this.circuitBreaker.getRetryAt();
+            throw new Error(retryAt
+                ? `Circuit breaker is open - skipping request until ${new Date(retryAt).toISOString()}`
+                : 'Circuit breaker is half-open - skipping request while a trial request is in flight');
+        }
+
+        const loggedUrl = url.split('?')[0] || url;
+
+        for (let attempt = 1; ; attempt++) {
+            const startTime = Date.now();
+            const record: RequestAttempt = { url: loggedUrl, attempt, durationMs: 0 };
+            attempts.push(record);
+
+            let response: Response | null = null;
+            let failure: unknown = null;
+
+            try {
+                response = await this.send(url, init, stream);
+                record.status = response.status;
+            } catch (error) {
+                failure = error;
+                record.error = error instanceof Error ? error.message : 'Unknown error';
+            }
+            record.durationMs = Date.now() - startTime;
+
+            // Caller-initiated aborts are never retried, and say nothing about the API's health
+            if (failure && init.signal?.aborted) {
+                this.circuitBreaker?.releaseTrial();
+                throw failure;
+            }
+
+            const retryable = failure !== null || (response !== null && this.isRetryableStatus(response.status));
+            if (!retryable) {
+                this.circuitBreaker?.recordSuccess();
+                return response as Response;
+            }
+
+            const delayMs = attempt <= this.retry.maxRetries ? this.getRetryDelay(attempt, response) : null;
+            if (delayMs === null) {
+                this.circuitBreaker?.recordFailure();
+                if (failure) {
+                    throw failure;
+                }
+                return response as Response;
+            }
+
+            record.retryDelayMs = delayMs;
+            try {
+                await this.sleep(delayMs, init.signal);
+            } catch (error) {
+                this.circuitBreaker?.releaseTrial();
+                throw error;
+            }
+        }
+    }
+
+    private async send(url: string, init: RequestInit, stream: boolean): Promise<Response> {
+        const fetchFn: FetchFunction = this.transport.fetch || globalThis.fetch;
+        if (typeof fetchFn !== 'function') {
+            throw new Error('No fetch implementation available - provide transport.fetch on Node.js < 18');
+        }
+
+        // Callers may pass a Headers instance or [name, value] pairs - merged case-insensitively
+        const merged = new Headers({ Accept: 'application/json' });
+        for (const source of [this.transport.headers, init.headers]) {
+            new Headers(source).forEach((value, name) => merged.set(name, value));
+        }
+        if (this.transport.authToken) {
+            merged.set('Authorization', `Bearer ${this.transport.authToken}`);
+        }
+        const headers = Object.fromEntries(merged.entries());
+
+        // Proxy agents are passed through untouched: `dispatcher` for undici/global fetch,
+        // `agent` for node-fetch compatible implementations
+        const agentOptions: Record<string, unknown> = {};
+        if (this.transport.dispatcher !== undefined) {
+            agentOptions['dispatcher'] = this.transport.dispatcher;
+        }
+        if (this.transport.agent !== undefined) {
+            agentOptions['agent'] = this.transport.agent;
+        }
+
+        const controller = new AbortController();
+        const parentSignal = init.signal;
+        const onParentAbort = () => controller.abort(parentSignal?.reason);
+        if (parentSignal?.aborted) {
+            controller.abort(parentSignal.reason);
+        } else {
+            parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+        }
+        const removeParentListener = () => parentSignal?.removeEventListener('abort', onParentAbort);
+
+        let timedOut = false;
+        const timer = this.timeoutMs > 0
+            ? setTimeout(() => {
+                timedOut = true;
+                controller.abort();
+            }, this.timeoutMs)
+            : null;
+        let streaming = false;
+
+        try {
+            const response = await fetchFn(url, { ...init, ...agentOptions, headers, signal: controller.signal } as RequestInit);
+            if (stream && response.ok && response.body) {
+                streaming = true;
+                if (timer) {
+                    clearTimeout(timer);
+                }
+                return this.streamBody(response, controller, removeParentListener);
+            }
+            const body = await response.text();
+            return new Response(NULL_BODY_STATUSES.includes(response.status) ? null : body, {
+                status: response.status,
+                statusText: response.statusText,
+                headers: response.headers
+            });
+        } catch (error) {
+            if (timedOut) {
+                throw new Error(`Request timed out after ${this.timeoutMs}ms`);
+            }
+            throw error;
+        } finally {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            // A streamed body keeps listening for the caller's abort until it is read
+            if (!streaming) {
+                removeParentListener();
+            }
+        }
+    }
+
+    /**
+     * Re-wrap a response body so each read must arrive within the timeout. Works with web streams
+     * and with the Node.js streams of node-fetch compatible implementations - both are async iterable.
+     */
+    private streamBody(response: Response, controller: AbortController, done: () => void): Response {
+        const chunks = (response.body as unknown as AsyncIterable<Uint8Array>)[Symbol.asyncIterator]();
+        const stop = (reason?: unknown) => {
+            done();
+            controller.abort(reason);
+            chunks.return?.().catch(() => undefined);
+        };
+
+        const body = new ReadableStream<Uint8Array>({
+            pull: async streamController => {
+                // Raced rather than relying on the abort alone - not every fetch implementation honours it
+                let timer: ReturnType<typeof setTimeout> | null = null;
+                const stalled = new Promise<never>((_, reject) => {
+                    if (this.timeoutMs > 0) {
+                        timer = setTimeout(() => reject(new Error(`Response stalled for more than ${this.timeoutMs}ms`)), this.timeoutMs);
+                    }
+                });
+                try {
+                    const next = await Promise.race([chunks.next(), stalled]);
+                    if (next.done) {
+                        done();
+                        streamController.close();
+                    } else {
+                        streamController.enqueue(next.value);
+                    }
+                } catch (error) {
+                    stop();
+                    streamController.error(error);
+                } finally {
+                    if (timer) {
+                        clearTimeout(timer);
+                    }
+                }
+            },
+            cancel: reason => stop(reason)
+        });
+
+        return new Response(body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers
+        });
+    }
+
+    private isRetryableStatus(status: number): boolean {
+        return status === 429 || status >= 500;
+    }
+
+    /**
+     * Delay before the next attempt, or null when the request should not be retried
+     */
+    private getRetryDelay(attempt: number, response: Response | null): number | null {
+        if (response?.status === 429) {
+            const retryAfterMs = this.parseRetryAfter(response.headers.get('retry-after'));
+            if (retryAfterMs !== null) {
+                // Waiting longer than we are allowed to is pointless - give up instead
+                return retryAfterMs <= this.retry.maxDelayMs ? retryAfterMs : null;
+            }
+        }
+
+        const exponential = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** (attempt - 1));
+        return this.retry.jitter ? Math.round(Math.random() * exponential) : exponential;
+    }
+
+    private parseRetryAfter(value: string | null): number | null {
+        if (!value) {
+            return null;
+        }
+        const seconds = Number(value);
+        if (!Number.isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(value);
+        return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+    }
+
+    private sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason ?? new Error('Aborted'));
+                return;
+            }
+            const onAbort = () => {
+                clearTimeout(timer);
+                reject(signal?.reason ?? new Error('Aborted'));
+            };
+            const timer = setTimeout(() => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            }, ms);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+}
@@ -1,9 +1,130 @@
 export { ContentFetcher } from './content-fetcher';
 export { FileManager } from './file-manager';
+export { CircuitBreaker } from './circuit-breaker';
+export { SeoTroveError, ApiError, ValidationError, WriteError, PathSecurityError, ConfigError, InvalidationError } from './errors';
+export { consoleLogger, silentLogger, fromPino } from './logger';
+export { validateContentResponse, validateContentPage } from './response-validation';
+export { ContentStreamParser, parseContentStream } from './content-stream';
+export { HttpTransport, DEFAULT_BASE_URL } from './http-transport';
+export { ReleaseManager } from './release-manager';
+export { LocalStorageAdapter } from './local-storage-adapter';
+export { MemoryStorageAdapter } from './memory-storage-adapter';
+export { S3StorageAdapter } from './s3-storage-adapter';
+export { FileStateStore, StorageStateStore, MemoryStateStore, MANIFEST_FILE_NAME, STATE_FILE_PREFIX, hashContent } from './sync-state';
+export { FileLockProvider, MemoryLockProvider } from './sync-lock';
+export { normalizeUrlPath, resolvePagePath } from './path-resolver';
+export { parseSitemap, mergeUrlsets, buildUrlset, buildSitemapIndex, updateSitemapIndex, generateSitemapFiles } from './sitemap';
+export { HtmlTransformPipeline, applyLayout, injectHeadTags, rewriteLinks, extractPageMetadata } from './html-transform';
+export { htmlToMarkdown } from './html-to-markdown';
+export { createUnifiedDiff } from './unified-diff';
+export { getOutputKey, renderPageOutput, buildContentCollection } from './output-format';
+export { auditPages, normalizeSitePath, DEFAULT_AUDIT_SEVERITIES } from './seo-audit';
+export { mergeRobotsBlock, ROBOTS_BLOCK_START, ROBOTS_BLOCK_END } from './robots';
+export { formatNetlifyRedirects, formatVercelRedirects, formatNginxRedirectMap, formatRedirectMap, parseRedirectMap, REDIRECT_FILE_NAMES, REDIRECTS_BLOCK_START, REDIRECTS_BLOCK_END } from './redirects';
+export { NextRevalidateInvalidator, HttpPurgeInvalidator, TriggerFileInvalidator } from './cache-invalidation';
+export { ContentRequestHandler, createContentMiddleware, createContentRouteHandler } from './content-handler';
 export { ContentScheduler } from './scheduler';
+export { WebhookHandler, createWebhookMiddleware, createWebhookRouteHandler, signWebhookPayload, verifyWebhookSignature, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './webhook-handler';
+export { HealthHandler, createHealthMiddleware, createHealthRouteHandler, createMetricsMiddleware, createMetricsRouteHandler, PROMETHEUS_CONTENT_TYPE } from './health-handler';
+export { formatPrometheus } from './metrics';
+export { getFetcherHealth } from './sync-status';
+export { SyncSchedule } from './sync-schedule';
+export { handleShutdownSignals } from './shutdown';
+export { loadConfig, resolveConfig, defineConfig, createSchedulerFromConfig, CONFIG_FILE_NAMES } from './config';
+export { parseYaml } from './yaml';
+export { runCli } from './cli';
+export { SyncEventEmitter } from './sync-events';
+export { parseCron, getNextCronDate } from './cron';
 export type {
     ContentApiResponse,
     ContentPage,
     ContentFetcherConfig,
-    SyncResult
+    ContentSchedulerOptions,
+    Logger,
+    LogLevel,
+    LogFields,
+    FetchFunction,
+    RetryConfig,
+    CircuitBreakerConfig,
+    CircuitState,
+    RequestAttempt,
+    ManifestEntry,
+    SyncManifest,
+    SyncStateStore,
+    StorageAdapter,
+    StorageContent,
+    S3StorageConfig,
+    S3StorageOptions,
+    SeoTroveConfig,
+    SiteConfig,
+    SitemapOptions,
+    RobotsOptions,
+    TransformConfig,
+    OutputConfig,
+    AuditConfig,
+    AuditIssue,
+    AuditReport,
+    AuditRule,
+    AuditSeverity,
+    OutputFormat,
+    RedirectConfig,
+    RedirectFormat,
+    RedirectRule,
+    Redirect,
+    RedirectHistoryEntry,
+    CacheInvalidator,
+    CacheInvalidatorOptions,
+    InvalidationRequest,
+    InvalidationResult,
+    NextRevalidateOptions,
+    HttpPurgeOptions,
+    TriggerFileOptions,
+    PageTransformer,
+    PageTransformContext,
+    ReleaseConfig,
+    ReleaseInfo,
+    LockProvider,
+    SyncLock,
+    FileLockOptions,
+    ScheduleConfig,
+    ScheduleInfo,
+    FetcherStatus,
+    FetcherHealth,
+    HealthOptions,
+    HealthReport,
+    HealthHandlerOptions,
+    SyncCounts,
+    TransportConfig,
+    SyncResult,
+    SyncAllContentOptions,
+    SyncOptions,
+    ShutdownOptions,
+    ShutdownResult,
+    SyncPlan,
+    PlannedFile,
+    PlannedAction,
+    ContentHandlerOptions,
+    SyncOperation,
+    SyncEventMap,
+    SyncEventName,
+    SyncEventListener,
+    SchedulerEventListener,
+    SyncHooks,
+    BeforePageWriteResult,
+    WebhookHandlerOptions,
+    WebhookPayload
 } from './types';
+export type { PinoStyleLogger } from './logger';
+export type { ShutdownTarget, ShutdownSignalOptions } from './shutdown';
+export type { LoadConfigOptions, ResolveConfigOptions, LoadedConfig } from './config';
+export type { ConfigIssue } from './errors';
+export type { YamlParseOptions } from './yaml';
+export type { CliOutput } from './cli';
+export type { MetricFamily, MetricSample, HistogramSample, MetricLabels } from './metrics';
+export type { InvalidPage, ValidatedContent } from './response-validation';
+export type { PageMetadata } from './html-transform';
+export type { ContentCollectionEntry } from './output-format';
+export type { AuditPage, AuditOptions } from './seo-audit';
+export type { MarkdownOptions } from './html-to-markdown';
+export type { UnifiedDiffOptions } from './unified-diff';
+export type { ParsedSitemap, SitemapUrlEntry, SitemapIndexEntry, SitemapPageUrl, SitemapGenerationOptions, GeneratedSitemap } from './sitemap';
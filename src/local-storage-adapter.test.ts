@@ -0,0 +1,35 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LocalStorageAdapter } from './local-storage-adapter';
+
+describe('LocalStorageAdapter', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-local-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    it('does not list temp files of writes in flight', async () => {
+        const storage = new LocalStorageAdapter(directory);
+        await storage.write('blog/post.html', '<p>post</p>');
+        await fs.writeFile(path.join(directory, 'blog', 'post.html.123.abc.tmp'), 'partial');
+
+        expect(await storage.list()).toEqual(['blog/post.html']);
+    });
+
+    it('keeps concurrent writes of the same key apart', async () => {
+        const storage = new LocalStorageAdapter(directory);
+        const contents = Array.from({ length: 20 }, (_, index) => `version ${index}`);
+
+        await Promise.all(contents.map(content => storage.write('page.html', content)));
+
+        expect(contents).toContain(await storage.read('page.html'));
+        expect(await fs.readdir(directory)).toEqual(['page.html']);
+    });
+});
@@ -0,0 +1,89 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FileManager } from './file-manager';
+import { isPathInside } from './path-resolver';
+import { StorageAdapter, StorageContent } from './types';
+
+/**
+ * Stores files on the local filesystem below a root directory - the SDK's default behavior
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+    readonly rootDirectory: string;
+
+    constructor(rootDirectory: string) {
+        this.rootDirectory = path.resolve(rootDirectory);
+    }
+
+    async write(key: string, content: StorageContent): Promise<void> {
+        await FileManager.writeFileAtomic(this.resolve(key), content);
+    }
+
+    async read(key: string): Promise<string | null> {
+        try {
+            return await FileManager.readFile(this.resolve(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async readBytes(key: string): Promise<Uint8Array | null> {
+        try {
+            return await fs.readFile(this.resolve(key));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return FileManager.fileExists(this.resolve(key));
+    }
+
+    /**
+     * Keys below the root, leaving out the temp files of writes in flight (or left behind by a crash)
+     */
+    async list(prefix: string = ''): Promise<string[]> {
+        const keys: string[] = [];
+        const walk = async (dir: string) => {
+            const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+            for (const entry of entries) {
+                const entryPath = path.join(dir, entry.name);
+                if (entry.isDirectory()) {
+                    await walk(entryPath);
+                } else if (entry.isFile() && !entry.name.endsWith('.tmp')) {
+                    const key = path.relative(this.rootDirectory, entryPath).split(path.sep).join('/');
+                    if (key.startsWith(prefix)) {
+                        keys.push(key);
+                    }
+                }
+            }
+        };
+        await walk(this.rootDirectory);
+        return keys.sort();
+    }
+
+    async delete(key: string): Promise<void> {
+        const filePath = this.resolve(key);
+        await FileManager.deleteFile(filePath);
+        await FileManager.removeEmptyDirectories(path.dirname(filePath), this.rootDirectory);
+    }
+
+    async rename(fromKey: string, toKey: string): Promise<void> {
+        const toPath = this.resolve(toKey);
+        await FileManager.ensureDirectoryExists(path.dirname(toPath));
+        await fs.rename(this.resolve(fromKey), toPath);
+    }
+
+    private resolve(key: string): string {
+        const filePath = path.resolve(this.rootDirectory, ...key.split('/'));
+        if (!isPathInside(this.rootDirectory, filePath)) {
+            throw new Error(`Storage key "${key}" resolves outside ${this.rootDirectory}`);
+        }
+        return filePath;
+    }
+}
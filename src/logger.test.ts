@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { ScopedLogger } from './logger';
+import { LogFields, Logger } from './types';
+
+function capture(): { logger: Logger; entries: Array<{ message: string; fields: LogFields | undefined }> } {
+    const entries: Array<{ message: string; fields: LogFields | undefined }> = [];
+    const record = (message: string, fields?: LogFields) => {
+        entries.push({ message, fields });
+    };
+    return { logger: { debug: record, info: record, warn: record, error: record }, entries };
+}
+
+describe('ScopedLogger redaction', () => {
+    const secret = 'install-123';
+
+    it('masks secrets in nested objects and arrays without mutating them', () => {
+        const { logger, entries } = capture();
+        const request = { url: `https://api.example.com/?id=${secret}`, headers: [{ value: secret }], status: 200 };
+
+        new ScopedLogger({ logger, redact: [secret] }).info(`fetched ${secret}`, { request });
+
+        expect(entries[0]).toEqual({
+            message: 'fetched [REDACTED]',
+            fields: { request: { url: 'https://api.example.com/?id=[REDACTED]', headers: [{ value: '[REDACTED]' }], status: 200 } }
+        });
+        expect(request.headers[0]?.value).toBe(secret);
+    });
+
+    it('masks the cause of an error and keeps it on the copy', () => {
+        const { logger, entries } = capture();
+        const cause = new Error(`connect failed for ${secret}`);
+        const error = new Error('request failed', { cause });
+
+        new ScopedLogger({ logger, redact: [secret] }).error('sync failed', { error });
+
+        const logged = entries[0]?.fields?.['error'] as Error;
+        expect(logged).not.toBe(error);
+        expect(logged.message).toBe('request failed');
+        expect((logged.cause as Error).message).toBe('connect failed for [REDACTED]');
+        expect(cause.message).toContain(secret);
+    });
+
+    it('passes values without secrets through unchanged', () => {
+        const { logger, entries } = capture();
+        const error = new Error('timeout');
+        const details = { attempts: [1, 2] };
+
+        new ScopedLogger({ logger, redact: [secret] }).warn('retrying', { error, details });
+
+        expect(entries[0]?.fields?.['error']).toBe(error);
+        expect(entries[0]?.fields?.['details']).toBe(details);
+    });
+
+    it('stops at the depth limit, so cycles end', () => {
+        const { logger, entries } = capture();
+        const cyclic: Record<string, unknown> = { token: secret };
+        cyclic['self'] = cyclic;
+
+        new ScopedLogger({ logger, redact: [secret] }).info('state', { cyclic });
+
+        let level = entries[0]?.fields?.['cyclic'] as Record<string, unknown> | string;
+        let depth = 0;
+        while (typeof level === 'object') {
+            expect(level['token']).toBe('[REDACTED]');
+            level = level['self'] as Record<string, unknown> | string;
+            depth++;
+        }
+        expect(level).toBe('[Truncated]');
+        expect(depth).toBeGreaterThan(1);
+    });
+});
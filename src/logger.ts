@@ -0,0 +1,176 @@
+import { LogFields, Logger, LogLevel } from './types';
+
+const LEVEL_RANK: Record<LogLevel | 'silent', number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+const REDACTED = '[REDACTED]';
+
+// Nesting below this depth is replaced rather than walked, which also ends reference cycles
+const MAX_REDACT_DEPTH = 8;
+
+/**
+ * Pino/bunyan-style logger, which takes the fields before the message
+ */
+export interface PinoStyleLogger {
+    debug(fields: object, message?: string): void;
+    info(fields: object, message?: string): void;
+    warn(fields: object, message?: string): void;
+    error(fields: object, message?: string): void;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Mask secrets in strings, errors (message, stack and cause) and nested plain objects and arrays.
+ * Values without a secret are returned as they are; others are copied, never mutated, since the
+ * same objects are also returned to the caller.
+ */
+function redactValue(value: unknown, mask: (text: string) => string, depth: number): unknown {
+    if (typeof value === 'string') {
+        return mask(value);
+    }
+    const nested = value instanceof Error || Array.isArray(value) || isPlainObject(value);
+    if (!nested) {
+        return value;
+    }
+    if (depth >= MAX_REDACT_DEPTH) {
+        return '[Truncated]';
+    }
+    if (value instanceof Error) {
+        const message = mask(value.message);
+        const stack = value.stack === undefined ? undefined : mask(value.stack);
+        const cause = value.cause === undefined ? undefined : redactValue(value.cause, mask, depth + 1);
+        if (message === value.message && stack === value.stack && cause === value.cause) {
+            return value;
+        }
+        const copy = new Error(message);
+        copy.name = value.name;
+        if (stack !== undefined) {
+            copy.stack = stack;
+        }
+        if (cause !== undefined) {
+            copy.cause = cause;
+        }
+        return copy;
+    }
+    if (Array.isArray(value)) {
+        const items = value.map(item => redactValue(item, mask, depth + 1));
+        return items.some((item, index) => item !== value[index]) ? items : value;
+    }
+    const entries = Object.entries(value).map(([name, item]) => [name, redactValue(item, mask, depth + 1)] as const);
+    return entries.some(([name, item]) => item !== value[name]) ? Object.fromEntries(entries) : value;
+}
+
+function formatConsole(method: (...args: unknown[]) => void): (message: string, fields?: LogFields) => void {
+    return (message, fields = {}) => {
+        const prefix = fields['domain'] ?? fields['component'];
+        const text = prefix ? `[${String(prefix)}] ${message}` : message;
+        if (fields['error'] !== undefined) {
+            method(`${text}:`, fields['error']);
+        } else {
+            method(text);
+        }
+    };
+}
+
+/**
+ * Default logger: `[domain] message` lines on the console. Fields other than `error` are not printed.
+ */
+export const consoleLogger: Logger = {
+    debug: formatConsole((...args) => console.debug(...args)),
+    info: formatConsole((...args) => console.log(...args)),
+    warn: formatConsole((...args) => console.warn(...args)),
+    error: formatConsole((...args) => console.error(...args))
+};
+
+export const silentLogger: Logger = {
+    debug: () => undefined,
+    info: () => undefined,
+    warn: () => undefined,
+    error: () => undefined
+};
+
+/**
+ * Adapt a pino-style logger. The `error` field is passed as `err` so pino's error serializer applies.
+ */
+export function fromPino(logger: PinoStyleLogger): Logger {
+    const adapt = (level: LogLevel) => (message: string, fields: LogFields = {}) => {
+        const { error, ...rest } = fields;
+        logger[level](error !== undefined ? { ...rest, err: error } : rest, message);
+    };
+    return { debug: adapt('debug'), info: adapt('info'), warn: adapt('warn'), error: adapt('error') };
+}
+
+export interface ScopedLoggerOptions {
+    logger?: Logger | undefined;            // Default: consoleLogger
+    level?: LogLevel | 'silent' | undefined;    // Default: info
+    fields?: LogFields;                     // Added to every entry, e.g. { domain }
+    redact?: string[];                      // Secret values masked in messages and string fields
+}
+
+/**
+ * Logger used inside the SDK: filters by level, adds context fields and masks secrets such as the
+ * installId before entries reach the configured logger. A logger that throws never breaks a sync.
+ */
+export class ScopedLogger implements Logger {
+    private options: ScopedLoggerOptions;
+
+    constructor(options: ScopedLoggerOptions = {}) {
+        this.options = options;
+    }
+
+    configure(options: ScopedLoggerOptions): void {
+        this.options = options;
+    }
+
+    isEnabled(level: LogLevel): boolean {
+        return LEVEL_RANK[level] >= LEVEL_RANK[this.options.level ?? 'info'];
+    }
+
+    debug(message: string, fields?: LogFields): void {
+        this.write('debug', message, fields);
+    }
+
+    info(message: string, fields?: LogFields): void {
+        this.write('info', message, fields);
+    }
+
+    warn(message: string, fields?: LogFields): void {
+        this.write('warn', message, fields);
+    }
+
+    error(message: string, fields?: LogFields): void {
+        this.write('error', message, fields);
+    }
+
+    private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+        if (!this.isEnabled(level)) {
+            return;
+        }
+        const entry: LogFields = {};
+        for (const [name, value] of Object.entries({ ...this.options.fields, ...fields })) {
+            if (value !== undefined) {
+                entry[name] = this.redact(value);
+            }
+        }
+        try {
+            (this.options.logger || consoleLogger)[level](this.redact(message) as string, entry);
+        } catch {
+            // Logging must not take the sync down with it
+        }
+    }
+
+    private redact(value: unknown): unknown {
+        const secrets = (this.options.redact || []).filter(secret => secret !== '');
+        if (secrets.length === 0) {
+            return value;
+        }
+        const mask = (text: string) => secrets.reduce((masked, secret) => masked.split(secret).join(REDACTED), text);
+        return redactValue(value, mask, 0);
+    }
+}
@@ -0,0 +1,49 @@
+import { StorageAdapter, StorageContent } from './types';
+
+/**
+ * Keeps files in memory - for tests, serverless functions and read-only containers
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+    private files: Map<string, StorageContent> = new Map();
+
+    async write(key: string, content: StorageContent): Promise<void> {
+        this.files.set(key, content);
+    }
+
+    async read(key: string): Promise<string | null> {
+        const content = this.files.get(key);
+        if (content === undefined) {
+            return null;
+        }
+        return typeof content === 'string' ? content : Buffer.from(content).toString('utf-8');
+    }
+
+    async readBytes(key: string): Promise<Uint8Array | null> {
+        const content = this.files.get(key);
+        if (content === undefined) {
+            return null;
+        }
+        return typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+    }
+
+    async exists(key: string): Promise<boolean> {
+        return this.files.has(key);
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        return Array.from(this.files.keys()).filter(key => key.startsWith(prefix)).sort();
+    }
+
+    async delete(key: string): Promise<void> {
+        this.files.delete(key);
+    }
+
+    async rename(fromKey: string, toKey: string): Promise<void> {
+        const content = this.files.get(fromKey);
+        if (content === undefined) {
+            throw new Error(`Storage key "${fromKey}" not found`);
+        }
+        this.files.set(toKey, content);
+        this.files.delete(fromKey);
+    }
+}
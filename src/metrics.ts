@@ -0,0 +1,132 @@
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+    labels: MetricLabels;
+    value: number;
+}
+
+export interface HistogramSample {
+    labels: MetricLabels;
+    buckets: number[];                      // Cumulative counts, one per bound
+    sum: number;
+    count: number;
+}
+
+export type MetricFamily =
+    | { name: string; help: string; type: 'counter' | 'gauge'; samples: MetricSample[] }
+    | { name: string; help: string; type: 'histogram'; bounds: number[]; samples: HistogramSample[] };
+
+function labelKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export class Counter {
+    private values: Map<string, MetricSample> = new Map();
+
+    inc(labels: MetricLabels, by: number = 1): void {
+        const key = labelKey(labels);
+        const sample = this.values.get(key);
+        if (sample) {
+            sample.value += by;
+        } else {
+            this.values.set(key, { labels, value: by });
+        }
+    }
+
+    samples(): MetricSample[] {
+        return Array.from(this.values.values(), sample => ({ labels: { ...sample.labels }, value: sample.value }));
+    }
+}
+
+export class Histogram {
+    private values: Map<string, HistogramSample> = new Map();
+
+    constructor(readonly bounds: number[]) {}
+
+    observe(labels: MetricLabels, value: number): void {
+        const key = labelKey(labels);
+        let sample = this.values.get(key);
+        if (!sample) {
+            sample = { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+            this.values.set(key, sample);
+        }
+        sample.buckets = sample.buckets.map((count, index) => value <= (this.bounds[index] as number) ? count + 1 : count);
+        sample.sum += value;
+        sample.count++;
+    }
+
+    samples(): HistogramSample[] {
+        return Array.from(this.values.values(), sample => ({ ...sample, labels: { ...sample.labels }, buckets: [...sample.buckets] }));
+    }
+}
+
+/**
+ * Add labels to every sample, e.g. to tell fetchers apart when their families are combined
+ */
+export function withLabels(families: MetricFamily[], labels: MetricLabels): MetricFamily[] {
+    return families.map(family => family.type === 'histogram'
+        ? { ...family, samples: family.samples.map(sample => ({ ...sample, labels: { ...labels, ...sample.labels } })) }
+        : { ...family, samples: family.samples.map(sample => ({ ...sample, labels: { ...labels, ...sample.labels } })) });
+}
+
+/**
+ * Combine families of the same name, e.g. from several fetchers, keeping the first help text
+ */
+export function mergeMetricFamilies(families: MetricFamily[]): MetricFamily[] {
+    const merged = new Map<string, MetricFamily>();
+    for (const family of families) {
+        const existing = merged.get(family.name);
+        if (!existing) {
+            merged.set(family.name, family.type === 'histogram' ? { ...family, samples: [...family.samples] } : { ...family, samples: [...family.samples] });
+        } else if (existing.type === 'histogram' && family.type === 'histogram') {
+            existing.samples.push(...family.samples);
+        } else if (existing.type !== 'histogram' && family.type !== 'histogram') {
+            existing.samples.push(...family.samples);
+        }
+    }
+    return Array.from(merged.values());
+}
+
+function formatLabels(labels: MetricLabels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => {
+        const escaped = value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+        return `${name}="${escaped}"`;
+    });
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    if (value === Infinity) {
+        return '+Inf';
+    }
+    if (value === -Infinity) {
+        return '-Inf';
+    }
+    return Number.isNaN(value) ? 'NaN' : String(value);
+}
+
+/**
+ * Render metric families in the Prometheus text exposition format (version 0.0.4)
+ */
+export function formatPrometheus(families: MetricFamily[]): string {
+    const lines: string[] = [];
+    for (const family of families) {
+        lines.push(`# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+        lines.push(`# TYPE ${family.name} ${family.type}`);
+        if (family.type !== 'histogram') {
+            for (const sample of family.samples) {
+                lines.push(`${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+            }
+            continue;
+        }
+        for (const sample of family.samples) {
+            family.bounds.forEach((bound, index) => {
+                lines.push(`${family.name}_bucket${formatLabels({ ...sample.labels, le: formatValue(bound) })} ${sample.buckets[index] ?? 0}`);
+            });
+            lines.push(`${family.name}_bucket${formatLabels({ ...sample.labels, le: '+Inf' })} ${sample.count}`);
+            lines.push(`${family.name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`);
+            lines.push(`${family.name}_count${formatLabels(sample.labels)} ${sample.count}`);
+        }
+    }
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,105 @@
+import { extractPageMetadata } from './html-transform';
+import { decodeHtmlEntities, htmlToMarkdown } from './html-to-markdown';
+import { normalizeUrlPath } from './path-resolver';
+import { ContentPage, OutputFormat, SyncManifest } from './types';
+
+export const DEFAULT_COLLECTION_FILE_NAME = 'seotrove-content.json';
+
+export interface ContentCollectionEntry {
+    urlPath: string;
+    file: string;                           // Storage key of the written page
+    title: string;
+    description: string;
+    lastModifiedAt: string;
+    content?: string;                       // File content, when the collection includes it
+}
+
+interface OutputWriter {
+    getKey(htmlKey: string): string;
+    render(page: ContentPage): string;
+}
+
+function frontmatter(fields: Record<string, string>): string {
+    // JSON strings are valid double-quoted YAML scalars
+    const lines = Object.entries(fields).map(([name, value]) => `${name}: ${JSON.stringify(value)}`);
+    return `---\n${lines.join('\n')}\n---\n\n`;
+}
+
+function markdownWriter(extension: string, mdx: boolean): OutputWriter {
+    return {
+        getKey: htmlKey => htmlKey.replace(/\.html$/, extension),
+        render: page => {
+            const metadata = extractPageMetadata(page.html);
+            return frontmatter({
+                title: decodeHtmlEntities(metadata.title),
+                description: decodeHtmlEntities(metadata.description),
+                urlPath: page.urlPath
+            }) + htmlToMarkdown(metadata.body, { mdx });
+        }
+    };
+}
+
+const WRITERS: Record<OutputFormat, OutputWriter> = {
+    'html': {
+        getKey: htmlKey => htmlKey,
+        render: page => page.html
+    },
+    // blog/post.html -> blog/post/index.html, so static hosts serve /blog/post/ without rewrites
+    'clean-urls': {
+        getKey: htmlKey => /(^|\/)index\.html$/.test(htmlKey) ? htmlKey : htmlKey.replace(/\.html$/, '/index.html'),
+        render: page => page.html
+    },
+    'markdown': markdownWriter('.md', false),
+    'mdx': markdownWriter('.mdx', true)
+};
+
+function getWriter(format: OutputFormat): OutputWriter {
+    const writer = WRITERS[format];
+    if (!writer) {
+        throw new Error(`Unknown output format: ${format}`);
+    }
+    return writer;
+}
+
+/**
+ * Storage key a page is written to in the given format. Throws for paths that escape the target directory.
+ */
+export function getOutputKey(urlPath: string, format: OutputFormat = 'html'): string {
+    return getWriter(format).getKey(normalizeUrlPath(urlPath));
+}
+
+export function renderPageOutput(page: ContentPage, format: OutputFormat = 'html'): string {
+    return getWriter(format).render(page);
+}
+
+/**
+ * Build the JSON content collection from the pages recorded in the manifest - all synced pages,
+ * not just the ones written by the current sync
+ */
+export async function buildContentCollection(
+    manifest: SyncManifest,
+    readContent?: (key: string) => Promise<string | null>
+): Promise<string> {
+    const entries: ContentCollectionEntry[] = [];
+    for (const [file, entry] of Object.entries(manifest.files)) {
+        if (entry.urlPath === undefined) {
+            continue;
+        }
+        const collectionEntry: ContentCollectionEntry = {
+            urlPath: entry.urlPath,
+            file,
+            title: entry.title || '',
+            description: entry.description || '',
+            lastModifiedAt: entry.lastModifiedAt || entry.lastSyncedAt
+        };
+        if (readContent) {
+            const content = await readContent(file);
+            if (content !== null) {
+                collectionEntry.content = content;
+            }
+        }
+        entries.push(collectionEntry);
+    }
+    entries.sort((a, b) => a.urlPath.localeCompare(b.urlPath));
+    return JSON.stringify({ version: 1, pages: entries }, null, 2);
+}
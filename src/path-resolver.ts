@@ -0,0 +1,87 @@
+import path from 'path';
+import { PathSecurityError, ValidationError } from './errors';
+
+// Characters that are invalid in file names on at least one supported platform
+const INVALID_SEGMENT_CHARS = /[<>:"|?*\u0000-\u001f]/g;
+
+/**
+ * Normalize a page urlPath into a relative, POSIX-style file path ending in `.html`.
+ *
+ * Handles leading/duplicate slashes, query strings and fragments, percent-encoding,
+ * trailing slashes (`/blog/` -> `blog/index.html`) and Windows separators.
+ * Throws a PathSecurityError when the path would escape a base directory and a ValidationError
+ * when it is empty or malformed.
+ */
+export function normalizeUrlPath(urlPath: string): string {
+    if (typeof urlPath !== 'string' || urlPath.trim() === '') {
+        throw new ValidationError('Empty urlPath');
+    }
+
+    let normalized = urlPath.trim().split(/[?#]/)[0] || '';
+
+    try {
+        normalized = decodeURIComponent(normalized);
+    } catch {
+        throw new ValidationError(`Malformed percent-encoding in urlPath "${urlPath}"`);
+    }
+
+    if (normalized.includes('\0')) {
+        throw new PathSecurityError(`Null byte in urlPath "${urlPath}"`, urlPath);
+    }
+
+    normalized = normalized.replace(/\\/g, '/');
+
+    // Drive letters and UNC paths are absolute on Windows and can never be made relative
+    if (/^[a-zA-Z]:/.test(normalized) || normalized.startsWith('//')) {
+        throw new PathSecurityError(`Absolute urlPath "${urlPath}" is not allowed`, urlPath);
+    }
+
+    const isDirectory = normalized.endsWith('/') || normalized.replace(/\/+/g, '') === '';
+    const segments: string[] = [];
+
+    for (const segment of normalized.split('/')) {
+        if (segment === '' || segment === '.') {
+            continue;
+        }
+        if (segment === '..') {
+            if (segments.length === 0) {
+                throw new PathSecurityError(`urlPath "${urlPath}" escapes the target directory`, urlPath);
+            }
+            segments.pop();
+            continue;
+        }
+        const sanitized = segment.replace(INVALID_SEGMENT_CHARS, '-');
+        if (sanitized.trim() === '') {
+            throw new ValidationError(`Invalid path segment in urlPath "${urlPath}"`);
+        }
+        segments.push(sanitized);
+    }
+
+    if (isDirectory || segments.length === 0) {
+        segments.push('index');
+    }
+
+    let relativePath = segments.join('/');
+    if (!relativePath.endsWith('.html')) {
+        relativePath = relativePath + '.html';
+    }
+    return relativePath;
+}
+
+/**
+ * Resolve a page urlPath to an absolute file path, guaranteeing it stays inside baseDir
+ */
+export function resolvePagePath(baseDir: string, urlPath: string): string {
+    const resolvedBase = path.resolve(baseDir);
+    const filePath = path.resolve(resolvedBase, ...normalizeUrlPath(urlPath).split('/'));
+
+    if (!isPathInside(resolvedBase, filePath)) {
+        throw new PathSecurityError(`urlPath "${urlPath}" resolves outside the target directory`, urlPath);
+    }
+    return filePath;
+}
+
+export function isPathInside(baseDir: string, targetPath: string): boolean {
+    const relative = path.relative(baseDir, targetPath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
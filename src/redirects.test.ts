@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { formatNetlifyRedirects, formatNginxRedirectMap } from './redirects';
+
+describe('redirect outputs', () => {
+    it('hide the state files on Netlify', () => {
+        const output = formatNetlifyRedirects([{ from: '/old', to: '/new', status: 301 }], '/mine  /elsewhere  302\n');
+
+        expect(output).toContain('/.seotrove-manifest.json  /404.html  404!');
+        expect(output).toContain('/.seotrove-release.json  /404.html  404!');
+        expect(output).toContain('/old  /new  301');
+        expect(output.startsWith('/mine  /elsewhere  302\n')).toBe(true);
+    });
+
+    it('list the state file rule for the nginx server block', () => {
+        const output = formatNginxRedirectMap([{ from: '/old', to: '/new', status: 301 }], 301);
+
+        expect(output).toContain('#     if ($uri ~ "/\\.seotrove-") { return 404; }');
+        expect(output).toContain('    "/old" "/new";');
+    });
+});
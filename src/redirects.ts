@@ -0,0 +1,306 @@
+import { ValidationError } from './errors';
+import { mergeManagedBlock } from './robots';
+import { RELEASE_META_FILE } from './release-manager';
+import { normalizeSitePath } from './seo-audit';
+import { MANIFEST_FILE_NAME, STATE_FILE_PREFIX } from './sync-state';
+import { Redirect, RedirectFormat, RedirectHistoryEntry, RedirectRule } from './types';
+
+export const REDIRECT_FILE_NAMES: Record<RedirectFormat, string> = {
+    netlify: '_redirects',
+    vercel: 'vercel.json',
+    nginx: 'seotrove-redirects.conf',
+    json: 'seotrove-redirects.json'
+};
+
+export const REDIRECTS_BLOCK_START = '# BEGIN SEOTrove redirects';
+export const REDIRECTS_BLOCK_END = '# END SEOTrove redirects';
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+const GONE_STATUS = 410;
+const DEFAULT_GONE_PAGE = '/404.html';
+
+export interface RedirectCandidate {
+    urlPath: string;
+    sourceHash?: string;                    // Hash of the page HTML as the API returned it
+    title?: string;
+}
+
+export interface RedirectChanges {
+    moved: Array<{ from: string; to: string }>;
+    removed: string[];                      // URL paths that went away without a new location
+    live: string[];                         // URL paths the sync returned
+}
+
+export interface RedirectHistoryOptions {
+    status: number;                         // Status for moved pages
+    removed: 'gone' | 'ignore';
+    now?: string;                           // ISO timestamp recorded on new entries
+}
+
+/**
+ * Pair pages that went away with pages that appeared in the same sync: identical source HTML
+ * first, then a title that is unique on both sides. Unpaired pages are reported as removed.
+ */
+export function matchMovedPages(removed: RedirectCandidate[], created: RedirectCandidate[]): Pick<RedirectChanges, 'moved' | 'removed'> {
+    const bySource = groupBy(created, page => page.sourceHash);
+    const byTitle = groupBy(created, page => page.title);
+    const removedTitles = groupBy(removed, page => page.title);
+    const used = new Set<string>();
+
+    const moved: RedirectChanges['moved'] = [];
+    const gone: string[] = [];
+    for (const page of removed) {
+        const sameSource = page.sourceHash ? bySource.get(page.sourceHash) : undefined;
+        const sameTitle = page.title && removedTitles.get(page.title)?.length === 1 ? byTitle.get(page.title) : undefined;
+        const match = [sameSource, sameTitle]
+            .map(matches => matches?.length === 1 ? matches[0] : undefined)
+            .find(candidate => candidate !== undefined && !used.has(candidate.urlPath));
+        if (match) {
+            used.add(match.urlPath);
+            moved.push({ from: page.urlPath, to: match.urlPath });
+        } else {
+            gone.push(page.urlPath);
+        }
+    }
+    return { moved, removed: gone };
+}
+
+/**
+ * Record moved and removed pages in a manifest's redirect history (keyed by normalized URL path).
+ * Chains collapse - a page that moves twice redirects straight to its latest URL - and paths that
+ * are live again lose their entry. Returns the redirects added and the paths whose entry was dropped.
+ * Throws a ValidationError for an unsupported status.
+ */
+export function updateRedirectHistory(
+    history: Record<string, RedirectHistoryEntry>,
+    changes: RedirectChanges,
+    options: RedirectHistoryOptions
+): { added: Redirect[]; dropped: string[] } {
+    if (!REDIRECT_STATUSES.includes(options.status)) {
+        throw new ValidationError(`Unsupported redirect status ${options.status}`);
+    }
+    const now = options.now || new Date().toISOString();
+    const live = new Set(changes.live.map(normalizeSitePath));
+    const dropped: string[] = [];
+    for (const path of live) {
+        if (history[path]) {
+            delete history[path];
+            dropped.push(path);
+        }
+    }
+
+    const added: Redirect[] = [];
+    const pointingAt = (path: string) => Object.values(history).filter(entry => entry.to !== undefined && normalizeSitePath(entry.to) === path);
+
+    for (const move of changes.moved) {
+        const from = normalizeSitePath(move.from);
+        if (live.has(from) || from === normalizeSitePath(move.to)) {
+            continue;
+        }
+        for (const entry of pointingAt(from)) {
+            entry.to = move.to;
+        }
+        history[from] = { to: move.to, status: options.status, reason: 'moved', createdAt: now };
+        added.push({ from, to: move.to, status: options.status });
+    }
+
+    if (options.removed === 'gone') {
+        for (const path of changes.removed) {
+            const from = normalizeSitePath(path);
+            if (live.has(from)) {
+                continue;
+            }
+            // Anything that redirected to the removed page is gone too
+            for (const entry of pointingAt(from)) {
+                delete entry.to;
+                entry.status = GONE_STATUS;
+                entry.reason = 'removed';
+            }
+            history[from] = { status: GONE_STATUS, reason: 'removed', createdAt: now };
+            added.push({ from, status: GONE_STATUS });
+        }
+    }
+
+    return { added, dropped };
+}
+
+/**
+ * Combine the redirect history with configured rules (rules win), sorted by path.
+ * Throws a ValidationError for a rule without a target or for an unsupported status.
+ */
+export function collectRedirects(history: Record<string, RedirectHistoryEntry>, rules: RedirectRule[], defaultStatus: number): Redirect[] {
+    const redirects = new Map<string, Redirect>();
+    for (const [from, entry] of Object.entries(history)) {
+        redirects.set(from, entry.to !== undefined ? { from, to: entry.to, status: entry.status } : { from, status: entry.status });
+    }
+
+    for (const rule of rules) {
+        const from = normalizeSitePath(rule.from);
+        const status = rule.status ?? (rule.to !== undefined ? defaultStatus : GONE_STATUS);
+        if (status === GONE_STATUS) {
+            redirects.set(from, { from, status });
+            continue;
+        }
+        if (!REDIRECT_STATUSES.includes(status)) {
+            throw new ValidationError(`Redirect rule for ${rule.from} has unsupported status ${status}`);
+        }
+        if (rule.to === undefined || rule.to.trim() === '') {
+            throw new ValidationError(`Redirect rule for ${rule.from} needs a \`to\` for status ${status}`);
+        }
+        redirects.set(from, { from, to: rule.to, status });
+    }
+
+    return [...redirects.values()].sort((a, b) => a.from < b.from ? -1 : a.from > b.from ? 1 : 0);
+}
+
+/**
+ * Netlify `_redirects`: replaces (or appends) the SEOTrove block, keeping your own rules.
+ * Netlify needs a page to serve with a 410, so Gone entries point at `gonePage`. The SDK's state
+ * files answer 404, in case the target directory is the published directory.
+ */
+export function formatNetlifyRedirects(redirects: Redirect[], existing: string | null, gonePage: string = DEFAULT_GONE_PAGE): string {
+    // Netlify splats only match whole path segments, so each state file is listed
+    const hidden = [MANIFEST_FILE_NAME, RELEASE_META_FILE].map(file => `/${file}  ${formatTarget(gonePage)}  404!`);
+    const lines = hidden.concat(redirects.map(redirect =>
+        `${encodeURI(redirect.from)}  ${formatTarget(redirect.to ?? gonePage)}  ${redirect.status}`));
+    return mergeManagedBlock(existing, lines.join('\n'), REDIRECTS_BLOCK_START, REDIRECTS_BLOCK_END);
+}
+
+/**
+ * `vercel.json` with the redirects merged into its `redirects` array. Entries for `managedPaths`
+ * are replaced; everything else in the file is kept. Vercel redirects can't answer 410, so Gone
+ * entries are left out. Throws a ValidationError when the existing file isn't a JSON object.
+ */
+export function formatVercelRedirects(redirects: Redirect[], existing: string | null, managedPaths: Iterable<string> = []): string {
+    let config: Record<string, unknown> = {};
+    if (existing && existing.trim() !== '') {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(existing);
+        } catch (error) {
+            throw new ValidationError(`vercel.json is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+        if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+            throw new ValidationError('vercel.json is not a JSON object');
+        }
+        config = parsed as Record<string, unknown>;
+    }
+
+    const current = config['redirects'] ?? [];
+    if (!Array.isArray(current)) {
+        throw new ValidationError('vercel.json `redirects` is not an array');
+    }
+
+    const managed = new Set([...redirects.map(redirect => redirect.from), ...managedPaths].map(toVercelSource));
+    const kept = current.filter(entry => typeof entry !== 'object' || entry === null || !managed.has((entry as Record<string, unknown>)['source'] as string));
+    const generated = redirects
+        .filter(redirect => redirect.to !== undefined)
+        .map(redirect => ({ source: toVercelSource(redirect.from), destination: formatTarget(redirect.to as string), statusCode: redirect.status }));
+
+    config['redirects'] = [...kept, ...generated];
+    return `${JSON.stringify(config, null, 2)}\n`;
+}
+
+/**
+ * nginx `map` blocks keyed on `$uri`: one `$seotrove_redirect_<status>` variable per redirect
+ * status plus `$seotrove_gone`. The header comment lists the `if` lines for the server block,
+ * including one that hides the SDK's state files.
+ */
+export function formatNginxRedirectMap(redirects: Redirect[], defaultStatus: number): string {
+    const statuses = [...new Set([defaultStatus, ...redirects.filter(redirect => redirect.to !== undefined).map(redirect => redirect.status)])]
+        .sort((a, b) => a - b);
+
+    const lines = [
+        '# Generated by SEOTrove - include in the http {} block and add to the server {} block:'
+    ];
+    for (const status of statuses) {
+        lines.push(`#     if ($seotrove_redirect_${status}) { return ${status} $seotrove_redirect_${status}; }`);
+    }
+    lines.push('#     if ($seotrove_gone) { return 410; }');
+    lines.push(`#     if ($uri ~ "/\\${STATE_FILE_PREFIX}") { return 404; }`, '');
+
+    const map = (variable: string, entries: Array<[string, string]>) => {
+        lines.push(`map $uri $${variable} {`);
+        for (const [from, value] of entries) {
+            // $uri may or may not carry the trailing slash
+            for (const key of from === '/' ? [from] : [from, `${from}/`]) {
+                lines.push(`    ${nginxString(key)} ${nginxString(value)};`);
+            }
+        }
+        lines.push('}');
+    };
+    for (const status of statuses) {
+        map(`seotrove_redirect_${status}`, redirects
+            .filter(redirect => redirect.status === status && redirect.to !== undefined)
+            // Values are interpolated, so a literal $ is escaped
+            .map(redirect => [redirect.from, formatTarget(redirect.to as string).replace(/\$/g, '%24')]));
+    }
+    map('seotrove_gone', redirects.filter(redirect => redirect.to === undefined).map(redirect => [redirect.from, '1']));
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * JSON redirect map, read by ContentRequestHandler and usable from your own middleware
+ */
+export function formatRedirectMap(redirects: Redirect[]): string {
+    const map: Record<string, { to?: string; status: number }> = {};
+    for (const redirect of redirects) {
+        map[redirect.from] = redirect.to !== undefined ? { to: formatTarget(redirect.to), status: redirect.status } : { status: redirect.status };
+    }
+    return `${JSON.stringify({ version: 1, redirects: map }, null, 2)}\n`;
+}
+
+/**
+ * Parse a map written by formatRedirectMap. Keys are normalized URL paths - look requests up
+ * with normalizeSitePath(). Throws a ValidationError when the map is malformed.
+ */
+export function parseRedirectMap(raw: string): Map<string, Redirect> {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch (error) {
+        throw new ValidationError(`Invalid redirect map: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    const entries = (parsed as { version?: unknown; redirects?: unknown } | null)?.redirects;
+    if ((parsed as { version?: unknown } | null)?.version !== 1 || typeof entries !== 'object' || entries === null) {
+        throw new ValidationError('Invalid redirect map: unsupported format');
+    }
+
+    const redirects = new Map<string, Redirect>();
+    for (const [from, value] of Object.entries(entries as Record<string, { to?: unknown; status?: unknown }>)) {
+        if (typeof value?.status !== 'number') {
+            continue;
+        }
+        redirects.set(from, typeof value.to === 'string' ? { from, to: value.to, status: value.status } : { from, status: value.status });
+    }
+    return redirects;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string | undefined): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+    for (const item of items) {
+        const value = key(item);
+        if (value) {
+            groups.set(value, [...(groups.get(value) || []), item]);
+        }
+    }
+    return groups;
+}
+
+/**
+ * Redirect targets are kept as given, with a leading slash for paths and whitespace escaped
+ */
+function formatTarget(to: string): string {
+    const target = /^[a-z][a-z0-9+.-]*:\/\//i.test(to) || to.startsWith('/') ? to.trim() : `/${to.trim()}`;
+    return target.replace(/\s/g, encodeURIComponent);
+}
+
+// Vercel sources are path-to-regexp patterns
+function toVercelSource(path: string): string {
+    return encodeURI(path).replace(/[:()*+?{}\\]/g, '\\$&');
+}
+
+function nginxString(value: string): string {
+    return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReleaseManager } from './release-manager';
+
+describe('ReleaseManager', () => {
+    let root: string;
+    let target: string;
+    let releases: string;
+
+    beforeEach(async () => {
+        root = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-releases-'));
+        target = path.join(root, 'public');
+        releases = `${target}.releases`;
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        await fs.rm(root, { recursive: true, force: true });
+    });
+
+    const writeFile = (name: string, content: string) => async (stagingDir: string) => {
+        await fs.writeFile(path.join(stagingDir, name), content);
+        return { result: name, valid: true };
+    };
+
+    it('activates a staged release and rolls back to the previous one', async () => {
+        const manager = new ReleaseManager(target);
+
+        const first = await manager.deploy(writeFile('index.html', 'one'));
+        const second = await manager.deploy(writeFile('index.html', 'two'));
+
+        expect(await fs.readFile(path.join(target, 'index.html'), 'utf-8')).toBe('two');
+        expect(second.release?.id).not.toBe(first.release?.id);
+
+        await manager.rollback();
+        expect(await fs.readFile(path.join(target, 'index.html'), 'utf-8')).toBe('one');
+        expect(await manager.getCurrentReleaseId()).toBe(first.release?.id);
+    });
+
+    it('discards the staging directory of an invalid build', async () => {
+        const manager = new ReleaseManager(target);
+        await manager.deploy(writeFile('index.html', 'one'));
+
+        const deployed = await manager.deploy(async () => ({ result: null, valid: false, reason: 'broken' }));
+
+        expect(deployed.release).toBeNull();
+        expect(deployed.reason).toBe('broken');
+        expect((await fs.readdir(releases)).filter(name => name.endsWith('.staging'))).toEqual([]);
+    });
+
+    it('does not reuse an id whose staging directory exists', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+        await fs.mkdir(path.join(releases, '20240101T000000000Z.staging'), { recursive: true });
+
+        const deployed = await new ReleaseManager(target).deploy(writeFile('index.html', 'one'));
+
+        expect(deployed.release?.id).toBe('20240101T000000000Z-1');
+        expect(await fs.readdir(path.join(releases, '20240101T000000000Z.staging'))).toEqual([]);
+    });
+
+    it('gives concurrent deploys their own staging directories', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(new Date('2024-01-01T00:00:00.000Z'));
+        const manager = new ReleaseManager(target);
+        let firstStaging = '';
+        let releaseFirst: () => void = () => undefined;
+        const first = manager.deploy(async stagingDir => {
+            firstStaging = stagingDir;
+            await new Promise<void>(resolve => {
+                releaseFirst = resolve;
+            });
+            return writeFile('first.html', 'first')(stagingDir);
+        });
+        await vi.waitFor(() => expect(firstStaging).not.toBe(''));
+
+        const second = await manager.deploy(writeFile('second.html', 'second'));
+        expect(await fs.readdir(firstStaging)).toEqual([]);
+        releaseFirst();
+
+        expect((await first).release?.id).not.toBe(second.release?.id);
+        expect(await fs.readFile(path.join(target, 'first.html'), 'utf-8')).toBe('first');
+    });
+
+    it('removes only staging directories that are stale', async () => {
+        const manager = new ReleaseManager(target);
+        await manager.deploy(writeFile('index.html', 'one'));
+        const stale = path.join(releases, 'stale.staging');
+        const recent = path.join(releases, 'recent.staging');
+        await fs.mkdir(stale);
+        await fs.mkdir(recent);
+        const twoHoursAgo = new Date(Date.now() - 2 * 60 * 60 * 1000);
+        await fs.utimes(stale, twoHoursAgo, twoHoursAgo);
+
+        await manager.deploy(writeFile('index.html', 'two'));
+
+        const names = await fs.readdir(releases);
+        expect(names).not.toContain('stale.staging');
+        expect(names).toContain('recent.staging');
+    });
+
+    it('orders releases of the same millisecond by their numeric suffix', async () => {
+        const manager = new ReleaseManager(target, { keep: 2 });
+        const ids = ['20240101T000000000Z', '20240101T000000000Z-2', '20240101T000000000Z-10'];
+        for (const id of ids) {
+            await fs.mkdir(path.join(releases, id), { recursive: true });
+        }
+
+        expect((await manager.listReleases()).map(release => release.id)).toEqual([...ids].reverse());
+
+        await manager.deploy(writeFile('index.html', 'one'));
+        expect((await manager.listReleases()).map(release => release.id)).toContain('20240101T000000000Z-10');
+        expect((await manager.listReleases()).map(release => release.id)).not.toContain('20240101T000000000Z-2');
+    });
+});
@@ -0,0 +1,264 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FileManager } from './file-manager';
+import { STATE_FILE_PREFIX } from './sync-state';
+import { ReleaseConfig, ReleaseInfo } from './types';
+
+const DEFAULT_KEEP_RELEASES = 5;
+const STAGING_SUFFIX = '.staging';
+export const RELEASE_META_FILE = `${STATE_FILE_PREFIX}release.json`;
+
+// A staging directory not touched for this long is left over from a crashed deploy
+const STALE_STAGING_MS = 60 * 60 * 1000;
+
+// Staging directories of deploys running in this process - possibly several managers for one target
+const stagingInProgress = new Set<string>();
+
+export interface StagedBuild<T> {
+    result: T;
+    valid: boolean;
+    changed?: boolean;                      // `false` discards the staging directory without activating it
+    reason?: string;
+}
+
+export interface DeployResult<T> {
+    result: T;
+    release: ReleaseInfo | null;            // Null when the build was invalid or unchanged
+    changed: boolean;
+    reason?: string;
+}
+
+/**
+ * Order release ids chronologically: by timestamp, then by the numeric suffix a deploy in the same
+ * millisecond gets (`-2` before `-10`)
+ */
+function compareReleaseIds(a: string, b: string): number {
+    const parse = (id: string) => {
+        const match = /^(.*?)(?:-(\d+))?$/.exec(id);
+        return { timestamp: match?.[1] ?? id, suffix: Number(match?.[2] ?? 0) };
+    };
+    const left = parse(a);
+    const right = parse(b);
+    return left.timestamp.localeCompare(right.timestamp) || left.suffix - right.suffix;
+}
+
+/**
+ * Manages atomic releases of the target directory.
+ *
+ * `targetDirectory` becomes a symlink to `<releasesDirectory>/<releaseId>`. Each deploy copies the
+ * active release into a staging directory, lets the caller write into it, validates it and then
+ * flips the symlink with a rename - readers always see either the old or the new release.
+ */
+export class ReleaseManager {
+    private targetDirectory: string;
+    private releasesDirectory: string;
+    private keep: number;
+
+    constructor(targetDirectory: string, config: ReleaseConfig = {}) {
+        this.targetDirectory = path.resolve(targetDirectory);
+        this.releasesDirectory = path.resolve(config.directory || `${this.targetDirectory}.releases`);
+        this.keep = Math.max(1, config.keep ?? DEFAULT_KEEP_RELEASES);
+    }
+
+    async deploy<T>(build: (stagingDir: string) => Promise<StagedBuild<T>>): Promise<DeployResult<T>> {
+        await this.migrateTargetDirectory();
+
+        const { releaseId, stagingDir } = await this.createStagingDirectory();
+        stagingInProgress.add(stagingDir);
+        try {
+            return await this.deployIn(releaseId, stagingDir, build);
+        } finally {
+            stagingInProgress.delete(stagingDir);
+        }
+    }
+
+    private async deployIn<T>(releaseId: string, stagingDir: string, build: (stagingDir: string) => Promise<StagedBuild<T>>): Promise<DeployResult<T>> {
+        const releaseDir = path.join(this.releasesDirectory, releaseId);
+
+        let staged: StagedBuild<T>;
+        try {
+            const current = await this.getCurrentReleaseId();
+            if (current) {
+                await fs.cp(path.join(this.releasesDirectory, current), stagingDir, { recursive: true, verbatimSymlinks: true });
+            }
+            staged = await build(stagingDir);
+        } catch (error) {
+            await fs.rm(stagingDir, { recursive: true, force: true });
+            throw error;
+        }
+
+        if (!staged.valid || staged.changed === false) {
+            await fs.rm(stagingDir, { recursive: true, force: true });
+            const changed = staged.changed !== false;
+            return staged.reason !== undefined
+                ? { result: staged.result, release: null, changed, reason: staged.reason }
+                : { result: staged.result, release: null, changed };
+        }
+
+        const createdAt = new Date().toISOString();
+        await fs.writeFile(path.join(stagingDir, RELEASE_META_FILE), JSON.stringify({ id: releaseId, createdAt }), 'utf-8');
+        await fs.rename(stagingDir, releaseDir);
+        await this.activate(releaseDir);
+        await this.cleanup();
+
+        return { result: staged.result, release: { id: releaseId, path: releaseDir, createdAt, active: true }, changed: true };
+    }
+
+    async listReleases(): Promise<ReleaseInfo[]> {
+        const entries = await fs.readdir(this.releasesDirectory, { withFileTypes: true }).catch(() => []);
+        const current = await this.getCurrentReleaseId();
+        const releases: ReleaseInfo[] = [];
+
+        for (const entry of entries) {
+            if (!entry.isDirectory() || entry.name.endsWith(STAGING_SUFFIX)) {
+                continue;
+            }
+            const releaseDir = path.join(this.releasesDirectory, entry.name);
+            releases.push({
+                id: entry.name,
+                path: releaseDir,
+                createdAt: await this.readCreatedAt(releaseDir),
+                active: entry.name === current
+            });
+        }
+
+        // Newest first
+        return releases.sort((a, b) => compareReleaseIds(b.id, a.id));
+    }
+
+    /**
+     * Point the target directory at an earlier release. Defaults to the release before the active one.
+     */
+    async rollback(releaseId?: string): Promise<ReleaseInfo> {
+        const releases = await this.listReleases();
+        let target: ReleaseInfo | undefined;
+
+        if (releaseId) {
+            target = releases.find(release => release.id === releaseId);
+        } else {
+            const activeIndex = releases.findIndex(release => release.active);
+            target = releases[activeIndex + 1];
+        }
+
+        if (!target) {
+            throw new Error(releaseId ? `Release ${releaseId} not found` : 'No previous release to roll back to');
+        }
+
+        await this.activate(target.path);
+        return { ...target, active: true };
+    }
+
+    async getCurrentReleaseId(): Promise<string | null> {
+        try {
+            const linkTarget = await fs.readlink(this.targetDirectory);
+            const resolved = path.resolve(path.dirname(this.targetDirectory), linkTarget);
+            return path.dirname(resolved) === this.releasesDirectory ? path.basename(resolved) : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private async activate(releaseDir: string): Promise<void> {
+        const tempLink = `${this.targetDirectory}.${process.pid}.${Date.now()}.link`;
+        const linkTarget = process.platform === 'win32'
+            ? releaseDir
+            : path.relative(path.dirname(this.targetDirectory), releaseDir);
+
+        await FileManager.ensureDirectoryExists(path.dirname(this.targetDirectory));
+        await fs.symlink(linkTarget, tempLink, process.platform === 'win32' ? 'junction' : 'dir');
+        try {
+            await fs.rename(tempLink, this.targetDirectory);
+        } catch (error) {
+            await fs.rm(tempLink, { force: true });
+            throw error;
+        }
+    }
+
+    /**
+     * A pre-existing real target directory becomes the first release so nothing in it is lost
+     */
+    private async migrateTargetDirectory(): Promise<void> {
+        const stat = await fs.lstat(this.targetDirectory).catch(() => null);
+        if (!stat || stat.isSymbolicLink()) {
+            return;
+        }
+        if (!stat.isDirectory()) {
+            throw new Error(`Target ${this.targetDirectory} exists and is not a directory`);
+        }
+
+        const releaseId = await this.createReleaseId();
+        const releaseDir = path.join(this.releasesDirectory, releaseId);
+        await FileManager.ensureDirectoryExists(this.releasesDirectory);
+        await fs.rename(this.targetDirectory, releaseDir);
+        await fs.writeFile(path.join(releaseDir, RELEASE_META_FILE), JSON.stringify({ id: releaseId, createdAt: new Date().toISOString() }), 'utf-8');
+        await this.activate(releaseDir);
+    }
+
+    private async cleanup(): Promise<void> {
+        const releases = await this.listReleases();
+        const removable = releases.filter(release => !release.active).slice(Math.max(0, this.keep - 1));
+        for (const release of removable) {
+            await fs.rm(release.path, { recursive: true, force: true });
+        }
+
+        // Staging directories left behind by a crashed deploy - not those of deploys still running
+        // here, or of recent ones that may still be running in another process
+        const entries = await fs.readdir(this.releasesDirectory).catch(() => []);
+        for (const name of entries) {
+            const stagingDir = path.join(this.releasesDirectory, name);
+            if (!name.endsWith(STAGING_SUFFIX) || stagingInProgress.has(stagingDir)) {
+                continue;
+            }
+            const stat = await fs.stat(stagingDir).catch(() => null);
+            if (stat && Date.now() - stat.mtimeMs > STALE_STAGING_MS) {
+                await fs.rm(stagingDir, { recursive: true, force: true });
+            }
+        }
+    }
+
+    /**
+     * Create the staging directory of a new release. mkdir fails when it already exists, so two
+     * deploys starting at once - in this process or another - never share one.
+     */
+    private async createStagingDirectory(): Promise<{ releaseId: string; stagingDir: string }> {
+        for (;;) {
+            const releaseId = await this.createReleaseId();
+            const stagingDir = path.join(this.releasesDirectory, releaseId) + STAGING_SUFFIX;
+            try {
+                await fs.mkdir(stagingDir);
+                return { releaseId, stagingDir };
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+        }
+    }
+
+    private async createReleaseId(): Promise<string> {
+        await FileManager.ensureDirectoryExists(this.releasesDirectory);
+        const base = new Date().toISOString().replace(/[-:.]/g, '');
+        const taken = async (releaseId: string) => {
+            const releaseDir = path.join(this.releasesDirectory, releaseId);
+            return await FileManager.fileExists(releaseDir) || await FileManager.fileExists(releaseDir + STAGING_SUFFIX);
+        };
+        let releaseId = base;
+        for (let i = 1; await taken(releaseId); i++) {
+            releaseId = `${base}-${i}`;
+        }
+        return releaseId;
+    }
+
+    private async readCreatedAt(releaseDir: string): Promise<string> {
+        try {
+            const meta = JSON.parse(await FileManager.readFile(path.join(releaseDir, RELEASE_META_FILE))) as { createdAt?: string };
+            if (meta.createdAt) {
+                return meta.createdAt;
+            }
+        } catch {
+            // Fall back to the directory timestamp
+        }
+        const stat = await fs.stat(releaseDir);
+        return stat.mtime.toISOString();
+    }
+}
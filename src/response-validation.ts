@@ -0,0 +1,94 @@
+import { ValidationError } from './errors';
+import { ContentApiResponse, ContentPage } from './types';
+
+export interface InvalidPage {
+    index: number;                          // Position in the response's pages array
+    urlPath?: string;                       // When the item has a usable urlPath
+    reason: string;
+}
+
+export interface ValidatedContent {
+    content: ContentApiResponse;            // Only the valid pages
+    invalidPages: InvalidPage[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Why a page item can't be written, or null when it is a valid ContentPage
+ */
+export function validateContentPage(item: unknown): string | null {
+    if (!isRecord(item)) {
+        return `expected an object, got ${item === null ? 'null' : Array.isArray(item) ? 'an array' : typeof item}`;
+    }
+    if (typeof item['urlPath'] !== 'string' || item['urlPath'].trim() === '') {
+        return 'urlPath must be a non-empty string';
+    }
+    if (typeof item['html'] !== 'string') {
+        return `html must be a string, got ${item['html'] === null ? 'null' : typeof item['html']}`;
+    }
+    return null;
+}
+
+/**
+ * The quarantine record for a page item at `index`, or null when the item is a valid ContentPage
+ */
+export function checkContentPage(item: unknown, index: number): InvalidPage | null {
+    const reason = validateContentPage(item);
+    if (reason === null) {
+        return null;
+    }
+    const invalid: InvalidPage = { index, reason };
+    if (isRecord(item) && typeof item['urlPath'] === 'string' && item['urlPath'].trim() !== '') {
+        invalid.urlPath = item['urlPath'];
+    }
+    return invalid;
+}
+
+/**
+ * Check an API response against ContentApiResponse. A response with the wrong shape (not an object,
+ * `pages` not an array, non-string sitemap or robots.txt) throws a ValidationError; invalid page
+ * items are separated out so the rest of the response can still be synced.
+ */
+export function validateContentResponse(data: unknown): ValidatedContent {
+    if (!isRecord(data)) {
+        throw new ValidationError('API response is not a JSON object');
+    }
+
+    const issues: string[] = [];
+    for (const field of ['sitemapXml', 'robotTxt'] as const) {
+        const value = data[field];
+        if (value !== undefined && value !== null && typeof value !== 'string') {
+            issues.push(`${field} must be a string, got ${typeof value}`);
+        }
+    }
+    const rawPages = data['pages'];
+    if (rawPages !== undefined && rawPages !== null && !Array.isArray(rawPages)) {
+        issues.push(`pages must be an array, got ${typeof rawPages}`);
+    }
+    if (issues.length > 0) {
+        throw new ValidationError(`Invalid API response: ${issues.join('; ')}`, issues);
+    }
+
+    const pages: ContentPage[] = [];
+    const invalidPages: InvalidPage[] = [];
+    (Array.isArray(rawPages) ? rawPages as unknown[] : []).forEach((item, index) => {
+        const invalid = checkContentPage(item, index);
+        if (invalid) {
+            invalidPages.push(invalid);
+        } else {
+            pages.push(item as ContentPage);
+        }
+    });
+
+    return {
+        content: {
+            sitemapXml: typeof data['sitemapXml'] === 'string' ? data['sitemapXml'] : '',
+            robotTxt: typeof data['robotTxt'] === 'string' ? data['robotTxt'] : '',
+            pages
+        },
+        invalidPages
+    };
+}
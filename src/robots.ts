@@ -0,0 +1,27 @@
+export const ROBOTS_BLOCK_START = '# BEGIN SEOTrove';
+export const ROBOTS_BLOCK_END = '# END SEOTrove';
+
+/**
+ * Replace (or append) the SEOTrove-managed block in a robots.txt, leaving every other directive as-is
+ */
+export function mergeRobotsBlock(existing: string | null, managed: string): string {
+    return mergeManagedBlock(existing, managed, ROBOTS_BLOCK_START, ROBOTS_BLOCK_END);
+}
+
+/**
+ * Replace (or append) a block between `start` and `end` marker lines in a `#`-commented text file
+ */
+export function mergeManagedBlock(existing: string | null, managed: string, start: string, end: string): string {
+    const block = `${start}\n${managed.trim()}\n${end}`;
+    if (!existing || existing.trim() === '') {
+        return `${block}\n`;
+    }
+
+    const startIndex = existing.indexOf(start);
+    const endIndex = existing.indexOf(end, startIndex);
+    if (startIndex !== -1 && endIndex !== -1) {
+        return existing.slice(0, startIndex) + block + existing.slice(endIndex + end.length);
+    }
+
+    return `${existing.replace(/\s*$/, '')}\n\n${block}\n`;
+}
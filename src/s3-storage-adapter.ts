@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import { FetchFunction, S3StorageConfig, StorageAdapter, StorageContent } from './types';
+
+const CONTENT_TYPES: Record<string, string> = {
+    html: 'text/html; charset=utf-8',
+    xml: 'application/xml; charset=utf-8',
+    txt: 'text/plain; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    md: 'text/markdown; charset=utf-8',
+    mdx: 'text/markdown; charset=utf-8',
+    gz: 'application/gzip'
+};
+
+/**
+ * Stores files in an S3-compatible object store (AWS S3, MinIO, R2, ...) using
+ * SigV4-signed requests, without depending on the AWS SDK.
+ *
+ * Object stores have no atomic rename - `rename` copies and then deletes the source.
+ */
+export class S3StorageAdapter implements StorageAdapter {
+    private config: S3StorageConfig;
+    private region: string;
+    private endpoint: URL;
+    private forcePathStyle: boolean;
+    private prefix: string;
+
+    constructor(config: S3StorageConfig) {
+        this.config = config;
+        this.region = config.region || 'us-east-1';
+        this.endpoint = new URL(config.endpoint || `https://s3.${this.region}.amazonaws.com`);
+        this.forcePathStyle = config.forcePathStyle ?? config.endpoint !== undefined;
+        this.prefix = (config.prefix || '').replace(/^\/+|\/+$/g, '');
+    }
+
+    async write(key: string, content: StorageContent): Promise<void> {
+        const extension = key.split('.').pop()?.toLowerCase() || '';
+        const response = await this.send('PUT', this.objectKey(key), {
+            body: content,
+            headers: { 'content-type': CONTENT_TYPES[extension] || 'application/octet-stream' }
+        });
+        await this.assertOk(response, `write ${key}`);
+    }
+
+    async read(key: string): Promise<string | null> {
+        const response = await this.send('GET', this.objectKey(key));
+        if (response.status === 404) {
+            return null;
+        }
+        await this.assertOk(response, `read ${key}`);
+        return response.text();
+    }
+
+    async readBytes(key: string): Promise<Uint8Array | null> {
+        const response = await this.send('GET', this.objectKey(key));
+        if (response.status === 404) {
+            return null;
+        }
+        await this.assertOk(response, `read ${key}`);
+        return new Uint8Array(await response.arrayBuffer());
+    }
+
+    async exists(key: string): Promise<boolean> {
+        const response = await this.send('HEAD', this.objectKey(key));
+        if (response.status === 404) {
+            return false;
+        }
+        await this.assertOk(response, `check ${key}`);
+        return true;
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        const keys: string[] = [];
+        let continuationToken: string | null = null;
+
+        do {
+            const query: Record<string, string> = { 'list-type': '2', prefix: this.objectKey(prefix) };
+            if (continuationToken) {
+                query['continuation-token'] = continuationToken;
+            }
+            const response = await this.send('GET', '', { query });
+            await this.assertOk(response, `list ${prefix}`);
+            const xml = await response.text();
+
+            for (const match of xml.matchAll(/<Key>([\s\S]*?)<\/Key>/g)) {
+                const objectKey = decodeXml(match[1] || '');
+                keys.push(this.prefix ? objectKey.slice(this.prefix.length + 1) : objectKey);
+            }
+            continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+                ? decodeXml(/<NextContinuationToken>([\s\S]*?)<\/NextContinuationToken>/.exec(xml)?.[1] || '') || null
+                : null;
+        } while (continuationToken);
+
+        return keys.sort();
+    }
+
+    async delete(key: string): Promise<void> {
+        const response = await this.send('DELETE', this.objectKey(key));
+        if (response.status !== 404) {
+            await this.assertOk(response, `delete ${key}`);
+        }
+    }
+
+    async rename(fromKey: string, toKey: string): Promise<void> {
+        const response = await this.send('PUT', this.objectKey(toKey), {
+            headers: { 'x-amz-copy-source': `/${this.config.bucket}/${encodePath(this.objectKey(fromKey))}` }
+        });
+        await this.assertOk(response, `copy ${fromKey} to ${toKey}`);
+        // CopyObject can report failure in a 200 response body
+        const body = await response.text();
+        if (body.includes('<Error>')) {
+            throw new Error(`S3 copy ${fromKey} to ${toKey} failed: ${body}`);
+        }
+        await this.delete(fromKey);
+    }
+
+    private objectKey(key: string): string {
+        return this.prefix ? `${this.prefix}/${key}` : key;
+    }
+
+    private async send(
+        method: string,
+        objectKey: string,
+        options: { body?: StorageContent; headers?: Record<string, string>; query?: Record<string, string> } = {}
+    ): Promise<Response> {
+        const host = this.forcePathStyle ? this.endpoint.host : `${this.config.bucket}.${this.endpoint.host}`;
+        const basePath = this.endpoint.pathname.replace(/\/+$/, '');
+        const canonicalUri = `${basePath}${this.forcePathStyle ? `/${this.config.bucket}` : ''}/${encodePath(objectKey)}`;
+        const canonicalQuery = Object.keys(options.query || {}).sort()
+            .map(key => `${encodeRfc3986(key)}=${encodeRfc3986(options.query?.[key] || '')}`)
+            .join('&');
+
+        const now = new Date();
+        const amzDate = now.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+        const dateStamp = amzDate.slice(0, 8);
+        const payloadHash = sha256Hex(options.body || '');
+
+        const headers: Record<string, string> = {
+            ...(options.headers || {}),
+            host,
+            'x-amz-content-sha256': payloadHash,
+            'x-amz-date': amzDate
+        };
+        if (this.config.sessionToken) {
+            headers['x-amz-security-token'] = this.config.sessionToken;
+        }
+
+        const signedHeaderNames = Object.keys(headers)
+            .filter(name => name === 'host' || name.startsWith('x-amz-'))
+            .sort();
+        const canonicalHeaders = signedHeaderNames.map(name => `${name}:${(headers[name] || '').trim()}\n`).join('');
+        const signedHeaders = signedHeaderNames.join(';');
+
+        const canonicalRequest = [method, canonicalUri, canonicalQuery, canonicalHeaders, signedHeaders, payloadHash].join('\n');
+        const scope = `${dateStamp}/${this.region}/s3/aws4_request`;
+        const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+        const signingKey = ['s3', 'aws4_request'].reduce(
+            (key, part) => hmac(key, part),
+            hmac(hmac(`AWS4${this.config.secretAccessKey}`, dateStamp), this.region)
+        );
+        const signature = hmac(signingKey, stringToSign).toString('hex');
+
+        headers['authorization'] = `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+        delete headers['host'];
+
+        const url = `${this.endpoint.protocol}//${host}${canonicalUri}${canonicalQuery ? `?${canonicalQuery}` : ''}`;
+        const fetchFn: FetchFunction = this.config.fetch || globalThis.fetch;
+        const init: RequestInit = { method, headers };
+        if (options.body !== undefined) {
+            init.body = typeof options.body === 'string' ? options.body : Buffer.from(options.body);
+        }
+        return fetchFn(url, init);
+    }
+
+    private async assertOk(response: Response, operation: string): Promise<void> {
+        if (!response.ok) {
+            const body = await response.text().catch(() => '');
+            const code = /<Code>([\s\S]*?)<\/Code>/.exec(body)?.[1];
+            throw new Error(`S3 ${operation} failed: ${response.status} ${code || response.statusText}`);
+        }
+    }
+}
+
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function encodePath(key: string): string {
+    return key.split('/').map(encodeRfc3986).join('/');
+}
+
+function sha256Hex(value: StorageContent): string {
+    return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+    return crypto.createHmac('sha256', key).update(value, 'utf-8').digest();
+}
+
+function decodeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
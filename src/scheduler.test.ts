@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { MemoryStorageAdapter } from './memory-storage-adapter';
+import { ContentScheduler } from './scheduler';
+import { ContentFetcherConfig, FetchFunction } from './types';
+
+const silent = { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined };
+const fetch: FetchFunction = async () => new Response(JSON.stringify({ pages: [{ urlPath: '/a', html: '<h1>A</h1>' }], sitemapXml: '', robotTxt: '' }), { status: 200 });
+
+function fetcherConfig(domain: string): ContentFetcherConfig {
+    return { domain, installId: 'install-1', targetDirectory: '/tmp/unused', storage: new MemoryStorageAdapter(), circuitBreaker: false, logger: silent, transport: { fetch } };
+}
+
+describe('ContentScheduler events', () => {
+    it('delivers events from every fetcher, including ones added later, tagged with their id', async () => {
+        const scheduler = new ContentScheduler({ logger: silent });
+        scheduler.addFetcher('one', fetcherConfig('one.example.com'));
+        const completed: string[] = [];
+        const written: string[] = [];
+        scheduler.on('syncComplete', event => {
+            completed.push(`${event.id}:${event.result.success}`);
+        });
+        scheduler.on('pageWritten', event => {
+            written.push(`${event.id}:${event.key}`);
+        });
+        scheduler.addFetcher('two', fetcherConfig('two.example.com'));
+
+        await scheduler.syncNewContent('one');
+        await scheduler.syncNewContent('two');
+
+        expect(completed).toEqual(['one:true', 'two:true']);
+        expect(written).toEqual(['one:a.html', 'two:a.html']);
+    });
+
+    it('stops delivering once the listener is removed, also from fetchers removed and added again', async () => {
+        const scheduler = new ContentScheduler({ logger: silent });
+        scheduler.addFetcher('one', fetcherConfig('one.example.com'));
+        const events: string[] = [];
+        const remove = scheduler.on('syncStart', event => {
+            events.push(event.id);
+        });
+
+        await scheduler.syncNewContent('one');
+        scheduler.removeFetcher('one');
+        scheduler.addFetcher('one', fetcherConfig('one.example.com'));
+        await scheduler.syncNewContent('one');
+        remove();
+        await scheduler.syncNewContent('one');
+
+        expect(events).toEqual(['one', 'one']);
+    });
+});
+
+describe('ContentScheduler syncs', () => {
+    it('returns the plan of a dry run', async () => {
+        const scheduler = new ContentScheduler({ logger: silent });
+        scheduler.addFetcher('one', fetcherConfig('one.example.com'));
+
+        const result = await scheduler.syncAllContent('one', { dryRun: true });
+
+        expect(result.dryRun).toBe(true);
+        expect(result.plan?.files.map(file => [file.key, file.action])).toEqual([['a.html', 'create']]);
+        expect((await scheduler.syncNewContent('one')).filesCreated).toContain('a.html');
+    });
+
+    it('aborts a sync through the signal it was given', async () => {
+        const scheduler = new ContentScheduler({ logger: silent });
+        const hanging: FetchFunction = (_url, init) => new Promise((_resolve, reject) => {
+            init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        });
+        scheduler.addFetcher('one', { ...fetcherConfig('one.example.com'), transport: { fetch: hanging } });
+        const controller = new AbortController();
+
+        const sync = scheduler.syncNewContent('one', { signal: controller.signal });
+        controller.abort(new Error('stop'));
+
+        expect((await sync).aborted).toBe(true);
+    });
+});
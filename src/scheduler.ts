@@ -1,9 +1,25 @@
 import { ContentFetcher } from './content-fetcher';
-import { ContentFetcherConfig } from './types';
+import { ScopedLogger } from './logger';
+import { formatPrometheus, mergeMetricFamilies, withLabels } from './metrics';
+import { SyncSchedule } from './sync-schedule';
+import { getFetcherHealth } from './sync-status';
+import { ContentFetcherConfig, ContentSchedulerOptions, FetcherHealth, FetcherStatus, HealthOptions, HealthReport, ReleaseInfo, ScheduleInfo, SchedulerEventListener, ShutdownOptions, ShutdownResult, SyncAllContentOptions, SyncEventMap, SyncEventName, SyncOptions, SyncResult } from './types';
+
+interface SchedulerSubscription<E extends SyncEventName> {
+    listener: SchedulerEventListener<E>;
+    removers: Map<string, () => void>;      // Per fetcher id
+}
+
+// Each event's subscriptions are typed by that event
+type SchedulerSubscriptions = { [E in SyncEventName]: SchedulerSubscription<E>[] };
 
 export class ContentScheduler {
     private fetchers: Map<string, ContentFetcher> = new Map();
-    private schedulers: Map<string, NodeJS.Timeout> = new Map();
+    private schedulers: Map<string, SyncSchedule> = new Map();
+    private triggers: Map<string, SyncSchedule> = new Map();    // Unscheduled fetchers, for triggerSync()
+    private subscriptions: Map<SyncEventName, SchedulerSubscriptions[SyncEventName]> = new Map();
+    private options: ContentSchedulerOptions = {};
+    private logger: ScopedLogger;
 
     // Legacy support: single fetcher mode
     private legacyFetcher: ContentFetcher | null = null;
@@ -12,8 +28,15 @@ export class ContentScheduler {
 
     // Constructor overloads for backward compatibility
     constructor();
+    constructor(options: ContentSchedulerOptions);
     constructor(fetcher: ContentFetcher, id: string);
-    constructor(fetcher?: ContentFetcher, id?: string) {
+    constructor(fetcherOrOptions?: ContentFetcher | ContentSchedulerOptions, id?: string) {
+        const fetcher = fetcherOrOptions instanceof ContentFetcher ? fetcherOrOptions : undefined;
+        if (fetcherOrOptions && !fetcher) {
+            this.options = fetcherOrOptions as ContentSchedulerOptions;
+        }
+        this.logger = new ScopedLogger({ logger: this.options.logger, level: this.options.logLevel, fields: { component: 'ContentScheduler' } });
+
         if (fetcher && id) {
             // Legacy mode: single fetcher
             this.legacyFetcher = fetcher;
@@ -27,20 +50,29 @@ export class ContentScheduler {
 
     addFetcher(id: string, config: ContentFetcherConfig): void {
         if (this.fetchers.has(id)) {
-            console.log(`[ContentScheduler] Fetcher ${id} already exists, updating config`);
-            this.fetchers.get(id)?.updateConfig(config);
+            this.logger.info(`Fetcher ${id} already exists, updating config`, { fetcherId: id });
+            this.fetchers.get(id)?.updateConfig(this.withLogger(id, config));
+            if (config.schedule) {
+                this.schedulers.get(id)?.configure(config.schedule);
+            }
         } else {
-            const fetcher = new ContentFetcher(config);
+            const fetcher = new ContentFetcher(this.withLogger(id, config));
             this.fetchers.set(id, fetcher);
-            console.log(`[ContentScheduler] Added fetcher: ${id}`);
+            this.forEachSubscription((event, subscription) => this.attach(event, subscription, id, fetcher));
+            this.logger.info(`Added fetcher: ${id}`, { fetcherId: id });
         }
     }
 
     removeFetcher(id: string): void {
         if (this.fetchers.has(id)) {
             this.stop(id);
+            this.forEachSubscription((_event, subscription) => {
+                subscription.removers.get(id)?.();
+                subscription.removers.delete(id);
+            });
             this.fetchers.delete(id);
-            console.log(`[ContentScheduler] Removed fetcher: ${id}`);
+            this.triggers.delete(id);
+            this.logger.info(`Removed fetcher: ${id}`, { fetcherId: id });
         }
     }
 
@@ -59,30 +91,16 @@ export class ContentScheduler {
         }
 
         if (this.schedulers.has(targetId)) {
-            console.log(`[ContentScheduler] Scheduler ${targetId} already running`);
+            this.logger.info(`Scheduler ${targetId} already running`, { fetcherId: targetId });
             return;
         }
 
-        // Run every 24 hours (24 * 60 * 60 * 1000 milliseconds)
-        const TWENTY_FOUR_HOURS = 24 * 60 * 60 * 1000;
-
-        console.log(`[ContentScheduler] Starting 24-hour scheduler: ${targetId}`);
+        const schedule = new SyncSchedule(() => fetcher.syncContent(), fetcher.getConfig().schedule, `ContentScheduler:${targetId}`, this.logger);
+        this.schedulers.set(targetId, schedule);
+        schedule.start();
 
-        const intervalId = setInterval(async () => {
-            console.log(`[ContentScheduler] Scheduled sync triggered: ${targetId}`);
-            try {
-                await fetcher.syncContent();
-            } catch (error) {
-                console.error(`[ContentScheduler] Scheduled sync failed for ${targetId}:`, error);
-            }
-        }, TWENTY_FOUR_HOURS);
-
-        this.schedulers.set(targetId, intervalId);
-
-        // Run initial sync
-        fetcher.syncContent().catch(error => {
-            console.error(`[ContentScheduler] Initial sync failed for ${targetId}:`, error);
-        });
+        const info = schedule.getInfo();
+        this.logger.info(`Started scheduler ${targetId} - ${info.cron ? `cron "${info.cron}"` : `every ${info.intervalMs}ms`}`, { fetcherId: targetId });
     }
 
     stop(): void;
@@ -94,11 +112,11 @@ export class ContentScheduler {
             throw new Error(`[ContentScheduler] No fetcher ID provided and not in legacy mode`);
         }
 
-        const intervalId = this.schedulers.get(targetId);
-        if (intervalId) {
-            clearInterval(intervalId);
+        const schedule = this.schedulers.get(targetId);
+        if (schedule) {
+            schedule.stop();
             this.schedulers.delete(targetId);
-            console.log(`[ContentScheduler] Scheduler ${targetId} stopped`);
+            this.logger.info(`Scheduler ${targetId} stopped`, { fetcherId: targetId });
         }
     }
 
@@ -114,6 +132,21 @@ export class ContentScheduler {
         }
     }
 
+    /**
+     * Stop every scheduler and shut down every fetcher - see ContentFetcher.shutdown(). The timeout
+     * applies to all fetchers at once, not one after another.
+     */
+    async shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+        const startTime = Date.now();
+        this.stopAll();
+        const results = await Promise.all(Array.from(this.fetchers.values()).map(fetcher => fetcher.shutdown(options)));
+        return {
+            syncs: results.reduce((total, result) => total + result.syncs, 0),
+            aborted: results.reduce((total, result) => total + result.aborted, 0),
+            durationMs: Date.now() - startTime
+        };
+    }
+
     getActiveFetchers(): string[] {
         return Array.from(this.fetchers.keys());
     }
@@ -122,40 +155,201 @@ export class ContentScheduler {
         return Array.from(this.schedulers.keys());
     }
 
+    /**
+     * Next run time, last run time and last result of a fetcher's scheduler, or null when it isn't running
+     */
+    getSchedule(id: string): ScheduleInfo | null {
+        const fetcher = this.fetchers.get(id);
+        if (!fetcher) {
+            throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
+        }
+        return this.schedulers.get(id)?.getInfo() || fetcher.getSchedule();
+    }
+
+    /**
+     * Status snapshot of one fetcher, or of every fetcher by id
+     */
+    getStatus(): Record<string, FetcherStatus>;
+    getStatus(id: string): FetcherStatus;
+    getStatus(id?: string): FetcherStatus | Record<string, FetcherStatus> {
+        if (id !== undefined) {
+            const fetcher = this.fetchers.get(id);
+            if (!fetcher) {
+                throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
+            }
+            return this.getFetcherStatus(id, fetcher);
+        }
+        const statuses: Record<string, FetcherStatus> = {};
+        for (const [fetcherId, fetcher] of this.fetchers) {
+            statuses[fetcherId] = this.getFetcherStatus(fetcherId, fetcher);
+        }
+        return statuses;
+    }
+
+    /**
+     * Health of every fetcher against the given thresholds - unhealthy when any fetcher is
+     */
+    getHealth(options: HealthOptions = {}): HealthReport {
+        const now = Date.now();
+        const fetchers: Record<string, FetcherHealth> = {};
+        for (const [id, status] of Object.entries(this.getStatus())) {
+            fetchers[id] = getFetcherHealth(status, options, now);
+        }
+        return {
+            healthy: Object.values(fetchers).every(health => health.healthy),
+            checkedAt: new Date(now).toISOString(),
+            fetchers
+        };
+    }
+
+    /**
+     * Sync metrics of every fetcher in the Prometheus text format, labelled with fetcher id and domain
+     */
+    getMetrics(): string {
+        // Read through getFetcherStatus, which knows the next run of the scheduler's own schedule
+        const families = Array.from(this.fetchers.entries()).flatMap(([id, fetcher]) =>
+            withLabels(fetcher.getMetricFamilies(this.getFetcherStatus(id, fetcher)), { fetcher: id })
+        );
+        return formatPrometheus(mergeMetricFamilies(families));
+    }
+
+    private getFetcherStatus(id: string, fetcher: ContentFetcher): FetcherStatus {
+        const status = fetcher.getStatus();
+        const schedule = this.schedulers.get(id);
+        return schedule ? { ...status, nextRunAt: schedule.getInfo().nextRunAt } : status;
+    }
+
+    /**
+     * Subscribe to lifecycle events of every fetcher, including ones added later.
+     * Returns a function that removes the listener.
+     */
+    on<E extends SyncEventName>(event: E, listener: SchedulerEventListener<E>): () => void {
+        const subscription: SchedulerSubscription<E> = { listener, removers: new Map() };
+        this.setSubscriptions(event, [...this.getSubscriptions(event), subscription]);
+        for (const [id, fetcher] of this.fetchers) {
+            this.attach(event, subscription, id, fetcher);
+        }
+        return () => this.off(event, listener);
+    }
+
+    off<E extends SyncEventName>(event: E, listener: SchedulerEventListener<E>): void {
+        this.setSubscriptions(event, this.getSubscriptions(event).filter(subscription => {
+            if (subscription.listener !== listener) {
+                return true;
+            }
+            subscription.removers.forEach(remove => remove());
+            return false;
+        }));
+    }
+
+    private getSubscriptions<E extends SyncEventName>(event: E): SchedulerSubscription<E>[] {
+        return (this.subscriptions.get(event) || []) as SchedulerSubscriptions[E];
+    }
+
+    private setSubscriptions<E extends SyncEventName>(event: E, subscriptions: SchedulerSubscription<E>[]): void {
+        if (subscriptions.length > 0) {
+            this.subscriptions.set(event, subscriptions as SchedulerSubscriptions[SyncEventName]);
+        } else {
+            this.subscriptions.delete(event);
+        }
+    }
+
+    private forEachSubscription(callback: <E extends SyncEventName>(event: E, subscription: SchedulerSubscription<E>) => void): void {
+        for (const event of this.subscriptions.keys()) {
+            this.getSubscriptions(event).forEach(subscription => callback(event, subscription));
+        }
+    }
+
+    private attach<E extends SyncEventName>(event: E, subscription: SchedulerSubscription<E>, id: string, fetcher: ContentFetcher): void {
+        const listener = (payload: SyncEventMap[E]) => subscription.listener({ ...payload, id });
+        subscription.removers.set(id, fetcher.on(event, listener));
+    }
+
+    /**
+     * Fetchers without their own logger log through the scheduler's, tagged with their id
+     */
+    private withLogger(id: string, config: ContentFetcherConfig): ContentFetcherConfig {
+        const withLogger: ContentFetcherConfig = { ...config };
+        if (!config.logger) {
+            // Level filtering is left to the fetcher
+            withLogger.logger = new ScopedLogger({ logger: this.options.logger, level: 'debug', fields: { fetcherId: id } });
+        }
+        if (config.logLevel === undefined && this.options.logLevel !== undefined) {
+            withLogger.logLevel = this.options.logLevel;
+        }
+        return withLogger;
+    }
+
     getFetcher(id: string): ContentFetcher | undefined {
         return this.fetchers.get(id);
     }
 
-    async syncContent(id: string): Promise<void> {
+    async syncContent(id: string, options: SyncOptions = {}): Promise<SyncResult> {
+        const fetcher = this.fetchers.get(id);
+        if (!fetcher) {
+            throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
+        }
+        return fetcher.syncContent(options);
+    }
+
+    async syncNewContent(id: string, options: SyncOptions = {}): Promise<SyncResult> {
+        const fetcher = this.fetchers.get(id);
+        if (!fetcher) {
+            throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
+        }
+        return fetcher.syncNewContentOnly(options);
+    }
+
+    /**
+     * Sync a fetcher now, e.g. because a webhook announced new content. `sync` picks the kind of
+     * sync (default: new content only). The run goes through the fetcher's schedule when it has one,
+     * and is queued behind a sync of that fetcher still in flight rather than overlapping it.
+     * Resolves to null when it was queued.
+     */
+    async triggerSync(id: string, sync: (fetcher: ContentFetcher) => Promise<SyncResult> = fetcher => fetcher.syncNewContentOnly()): Promise<SyncResult | null> {
+        const fetcher = this.fetchers.get(id);
+        if (!fetcher) {
+            throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
+        }
+        let schedule = this.schedulers.get(id) || this.triggers.get(id);
+        if (!schedule) {
+            // Never started - only used for its overlap guard
+            schedule = new SyncSchedule(() => sync(fetcher), {}, `ContentScheduler:${id}`, this.logger);
+            this.triggers.set(id, schedule);
+        }
+        return schedule.runNow('queue', () => sync(fetcher));
+    }
+
+    async syncPreviousContent(id: string, options: SyncOptions = {}): Promise<SyncResult> {
         const fetcher = this.fetchers.get(id);
         if (!fetcher) {
             throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
         }
-        await fetcher.syncContent();
+        return fetcher.syncPreviousContentOnly(options);
     }
 
-    async syncNewContent(id: string): Promise<void> {
+    async syncAllContent(id: string, options: SyncAllContentOptions = {}): Promise<SyncResult> {
         const fetcher = this.fetchers.get(id);
         if (!fetcher) {
             throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
         }
-        await fetcher.syncNewContentOnly();
+        return fetcher.syncAllContent(options);
     }
 
-    async syncPreviousContent(id: string): Promise<void> {
+    async listReleases(id: string): Promise<ReleaseInfo[]> {
         const fetcher = this.fetchers.get(id);
         if (!fetcher) {
             throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
         }
-        await fetcher.syncPreviousContentOnly();
+        return fetcher.listReleases();
     }
 
-    async syncAllContent(id: string): Promise<void> {
+    async rollback(id: string, releaseId?: string): Promise<ReleaseInfo> {
         const fetcher = this.fetchers.get(id);
         if (!fetcher) {
             throw new Error(`[ContentScheduler] Fetcher ${id} not found`);
         }
-        await fetcher.syncAllContent();
+        return fetcher.rollback(releaseId);
     }
 
     resetFirstSyncFlag(id: string): void {
@@ -171,7 +365,7 @@ export class ContentScheduler {
             try {
                 await fetcher.syncContent();
             } catch (error) {
-                console.error(`[ContentScheduler] Sync failed for ${id}:`, error);
+                this.logger.error(`Sync failed for ${id}`, { fetcherId: id, error });
             }
         });
         await Promise.all(promises);
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { auditPages, AuditPage, normalizeSitePath } from './seo-audit';
+import { AuditConfig, AuditRule } from './types';
+
+const SITE = 'https://example.com';
+
+interface PageParts {
+    title?: string;
+    description?: string;
+    canonical?: boolean;
+    head?: string;
+    body?: string;
+}
+
+/**
+ * A page that passes every rule unless parts are left out or replaced
+ */
+function page(key: string, parts: PageParts = {}): AuditPage {
+    const path = `/${key.replace(/(^|\/)index\.html$/, '$1').replace(/\.html$/, '')}`;
+    const head = [
+        parts.title !== '' ? `<title>${parts.title ?? `Title of ${key}`}</title>` : '',
+        parts.description !== '' ? `<meta name="description" content="${parts.description ?? `About ${key}`}">` : '',
+        parts.canonical !== false ? `<link rel="canonical" href="${SITE}${path}">` : '',
+        parts.head ?? ''
+    ].join('');
+    return { key, html: `<html><head>${head}</head><body>${parts.body ?? '<h1>Heading</h1>'}</body></html>` };
+}
+
+function rules(pages: AuditPage[], config: AuditConfig = {}, sitemapUrls: string[] | null = null): Array<[AuditRule, string, string | undefined]> {
+    return auditPages(pages, { siteUrl: SITE, sitemapUrls }, config).issues.map(issue => [issue.rule, issue.message, issue.file ?? issue.url]);
+}
+
+describe('normalizeSitePath', () => {
+    it.each([
+        ['/blog/post', '/blog/post'],
+        ['/blog/post/', '/blog/post'],
+        ['/blog/post.html', '/blog/post'],
+        ['/blog/post/index.html', '/blog/post'],
+        ['/blog/post.htm?ref=1#top', '/blog/post'],
+        ['blog/post', '/blog/post'],
+        ['/caf%C3%A9', '/café'],
+        ['/bad%E0%A4', '/bad%E0%A4'],
+        ['/', '/'],
+        ['/index.html', '/'],
+        ['', '/']
+    ])('normalizes %j to %j', (input, expected) => {
+        expect(normalizeSitePath(input)).toBe(expected);
+    });
+});
+
+describe('auditPages', () => {
+    it('reports nothing for a clean site', () => {
+        expect(rules([page('index.html', { body: '<h1>Home</h1><a href="/blog/post">Post</a>' }), page('blog/post.html')])).toEqual([]);
+    });
+
+    it('reports missing title, description, canonical and h1', () => {
+        expect(rules([page('a.html', { title: '', description: '', canonical: false, body: '<p>No heading</p>' })])).toEqual([
+            ['missing-title', 'Page has no <title>', 'a.html'],
+            ['missing-description', 'Page has no meta description', 'a.html'],
+            ['missing-canonical', 'Page has no <link rel="canonical">', 'a.html'],
+            ['missing-h1', 'Page has no <h1>', 'a.html']
+        ]);
+    });
+
+    it('reports multiple h1 elements', () => {
+        expect(rules([page('a.html', { body: '<h1>One</h1><H1 class="x">Two</H1>' })])).toEqual([['multiple-h1', 'Page has 2 <h1> elements', 'a.html']]);
+    });
+
+    it('reports titles and descriptions shared by several pages, ignoring case and whitespace', () => {
+        const pages = [
+            page('a.html', { title: 'Pricing', description: 'Same' }),
+            page('b.html', { title: ' pricing\n', description: 'same' }),
+            page('c.html', { title: 'Other' })
+        ];
+
+        expect(rules(pages)).toEqual([
+            ['duplicate-title', 'Title is also used by b.html', 'a.html'],
+            ['duplicate-title', 'Title is also used by a.html', 'b.html'],
+            ['duplicate-description', 'Meta description is also used by b.html', 'a.html'],
+            ['duplicate-description', 'Meta description is also used by a.html', 'b.html']
+        ]);
+    });
+
+    it('reports internal links to pages that were not synced, once per target', () => {
+        const body = '<h1>Home</h1><a href="/missing">1</a><a href="missing/">2</a><a href="https://example.com/docs/">3</a>'
+            + '<a href="https://other.com/x">4</a><a href="/logo.png">5</a><a href="/app/login">6</a><a href="#top">7</a><a href="mailto:a@example.com">8</a>';
+
+        expect(rules([page('index.html', { body })], { ignoreLinks: ['/app/'] })).toEqual([
+            ['broken-link', 'Link to /missing does not match a synced page', 'index.html'],
+            ['broken-link', 'Link to /docs does not match a synced page', 'index.html']
+        ]);
+        expect(rules([page('index.html', { body: '<h1>Home</h1><a href="/docs/a">1</a>' })], { ignoreLinks: [/^\/docs\//] })).toEqual([]);
+    });
+
+    it('reports sitemap entries without a page and pages missing from the sitemap', () => {
+        const pages = [page('index.html'), page('blog/post.html'), page('about.html')];
+        const sitemap = [`${SITE}/`, `${SITE}/blog/post/`, `${SITE}/gone`, 'https://other.com/x', 'not a url'];
+
+        expect(rules(pages, {}, sitemap)).toEqual([
+            ['sitemap-entry-without-page', `Sitemap lists ${SITE}/gone but no synced page exists for it`, `${SITE}/gone`],
+            ['page-missing-from-sitemap', 'Page is not listed in the sitemap', 'about.html']
+        ]);
+    });
+
+    it('limits the sitemap entry check to the URLs SEOTrove added', () => {
+        const report = auditPages([page('index.html')], {
+            siteUrl: SITE,
+            sitemapUrls: [`${SITE}/`, `${SITE}/theirs`, `${SITE}/ours`],
+            ownedSitemapUrls: [`${SITE}/ours`]
+        });
+
+        expect(report.issues.map(issue => issue.url)).toEqual([`${SITE}/ours`]);
+    });
+
+    describe('hreflang', () => {
+        const alternates = (...links: Array<[string, string]>) =>
+            links.map(([hreflang, href]) => `<link rel="alternate" hreflang="${hreflang}" href="${href}">`).join('');
+
+        it('accepts reciprocal alternates with valid language codes', () => {
+            const links = alternates(['en', `${SITE}/en`], ['de-AT', `${SITE}/de`], ['zh-Hant-TW', `${SITE}/zh`], ['es-419', `${SITE}/es`], ['x-default', `${SITE}/en`]);
+            const pages = ['en', 'de', 'zh', 'es'].map(lang => page(`${lang}.html`, { head: links }));
+
+            expect(rules(pages)).toEqual([]);
+        });
+
+        it.each(['en_US', 'english', 'e', 'en-USA', 'de-1234', 'x-other'])('rejects %j', hreflang => {
+            const head = alternates(['en', `${SITE}/en`], [hreflang, 'https://other.com/']);
+
+            expect(rules([page('en.html', { head })])).toEqual([['hreflang', `Invalid hreflang value "${hreflang}"`, 'en.html']]);
+        });
+
+        it('reports duplicates, missing self references and missing return links', () => {
+            const pages = [
+                page('en.html', { head: alternates(['en', `${SITE}/fr`], ['EN', `${SITE}/fr`]) }),
+                page('fr.html', { head: alternates(['fr', `${SITE}/fr`]) })
+            ];
+
+            expect(rules(pages)).toEqual([
+                ['hreflang', 'Alternate fr.html does not link back with hreflang', 'en.html'],
+                ['hreflang', 'Duplicate hreflang "EN"', 'en.html'],
+                ['hreflang', 'Alternate fr.html does not link back with hreflang', 'en.html'],
+                ['hreflang', 'hreflang alternates do not include the page itself', 'en.html']
+            ]);
+        });
+    });
+
+    it('applies configured severities, turns rules off and fails at failOn', () => {
+        const pages = [page('a.html', { description: '', canonical: false })];
+
+        const report = auditPages(pages, { siteUrl: SITE }, { rules: { 'missing-canonical': 'off', 'missing-description': 'error' }, failOn: 'error' });
+
+        expect(report.issues).toEqual([{ rule: 'missing-description', severity: 'error', message: 'Page has no meta description', file: 'a.html' }]);
+        expect(report.counts).toEqual({ error: 1, warning: 0, info: 0 });
+        expect(report.failed).toBe(true);
+        expect(auditPages(pages, { siteUrl: SITE }, { failOn: 'error' }).failed).toBe(false);
+        expect(auditPages(pages, { siteUrl: SITE }, { failOn: 'warning' }).failed).toBe(true);
+    });
+});
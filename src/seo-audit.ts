@@ -0,0 +1,252 @@
+import { decodeHtmlEntities } from './html-to-markdown';
+import { getPageUrlPath, isInternalLink } from './html-transform';
+import { AuditConfig, AuditIssue, AuditReport, AuditRule, AuditSeverity } from './types';
+
+export interface AuditPage {
+    key: string;                            // Storage key, e.g. blog/post.html
+    html: string;
+}
+
+export interface AuditOptions {
+    siteUrl: string;
+    sitemapUrls?: string[] | null;          // <loc> values of the written sitemap; null skips the sitemap rules
+    checkSitemapEntries?: boolean;          // Report sitemap URLs without a synced page
+    ownedSitemapUrls?: string[];            // Limit that check to these URLs - the ones SEOTrove added to a merged sitemap
+}
+
+interface ParsedPage {
+    key: string;
+    path: string;                           // Normalized path the page is served at
+    url: URL;
+    title: string;
+    description: string;
+    canonical: string | null;
+    h1Count: number;
+    alternates: Array<{ hreflang: string; href: string }>;
+    links: string[];
+}
+
+export const DEFAULT_AUDIT_SEVERITIES: Record<AuditRule, AuditSeverity> = {
+    'missing-title': 'error',
+    'duplicate-title': 'warning',
+    'missing-description': 'warning',
+    'duplicate-description': 'warning',
+    'missing-canonical': 'warning',
+    'hreflang': 'warning',
+    'missing-h1': 'warning',
+    'multiple-h1': 'warning',
+    'broken-link': 'error',
+    'sitemap-entry-without-page': 'warning',
+    'page-missing-from-sitemap': 'warning'
+};
+
+const SEVERITY_RANK: Record<AuditSeverity, number> = { info: 0, warning: 1, error: 2 };
+
+// BCP 47 language[-script][-region], as used by hreflang
+const HREFLANG_PATTERN = /^(x-default|[a-z]{2,3}(-[a-z]{4})?(-([a-z]{2}|\d{3}))?)$/i;
+
+/**
+ * Compare paths the way they are served: `/blog/post`, `/blog/post/`, `/blog/post.html` and
+ * `/blog/post/index.html` are the same page
+ */
+export function normalizeSitePath(path: string): string {
+    let normalized = path.split(/[?#]/)[0] || '/';
+    try {
+        normalized = decodeURIComponent(normalized);
+    } catch {
+        // Keep malformed escapes as they are
+    }
+    normalized = normalized
+        .replace(/\/index\.html?$/i, '/')
+        .replace(/\.html?$/i, '')
+        .replace(/\/+$/, '');
+    return normalized.startsWith('/') ? normalized || '/' : `/${normalized}`;
+}
+
+function readTags(html: string, tag: string): Array<Record<string, string>> {
+    const tags: Array<Record<string, string>> = [];
+    for (const match of html.matchAll(new RegExp(`<${tag}\\b((?:"[^"]*"|'[^']*'|[^'">])*)>`, 'gi'))) {
+        const attributes: Record<string, string> = {};
+        for (const attribute of (match[1] || '').matchAll(/([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+            if (attribute[1]) {
+                attributes[attribute[1].toLowerCase()] = decodeHtmlEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? '');
+            }
+        }
+        tags.push(attributes);
+    }
+    return tags;
+}
+
+function hasRel(attributes: Record<string, string>, rel: string): boolean {
+    return (attributes['rel'] || '').toLowerCase().split(/\s+/).includes(rel);
+}
+
+function parsePage(page: AuditPage, siteUrl: string): ParsedPage {
+    const html = page.html;
+    const links = readTags(html, 'link');
+    const title = /<title\b[^>]*>([\s\S]*?)<\/title>/i.exec(html)?.[1];
+    const description = readTags(html, 'meta').find(meta => (meta['name'] || '').toLowerCase() === 'description');
+    const servedPath = getPageUrlPath(page.key);
+
+    return {
+        key: page.key,
+        path: normalizeSitePath(servedPath),
+        url: new URL(servedPath, `${siteUrl}/`),
+        title: decodeHtmlEntities(title || '').replace(/\s+/g, ' ').trim(),
+        description: (description?.['content'] || '').trim(),
+        canonical: links.find(link => hasRel(link, 'canonical'))?.['href'] ?? null,
+        h1Count: (html.match(/<h1\b/gi) || []).length,
+        alternates: links
+            .filter(link => hasRel(link, 'alternate') && link['hreflang'] !== undefined)
+            .map(link => ({ hreflang: link['hreflang'] || '', href: link['href'] || '' })),
+        links: readTags(html, 'a').map(anchor => anchor['href']).filter((href): href is string => href !== undefined)
+    };
+}
+
+/**
+ * Check synced pages for basic SEO hygiene: titles, descriptions, canonical and hreflang links,
+ * headings, internal links between synced pages and sitemap coverage
+ */
+export function auditPages(pages: AuditPage[], options: AuditOptions, config: AuditConfig = {}): AuditReport {
+    const siteUrl = options.siteUrl.replace(/\/+$/, '');
+    const siteHost = new URL(siteUrl).host;
+    const issues: AuditIssue[] = [];
+
+    const report = (rule: AuditRule, message: string, details: { file?: string; url?: string } = {}) => {
+        const severity = config.rules?.[rule] ?? DEFAULT_AUDIT_SEVERITIES[rule];
+        if (severity !== 'off') {
+            issues.push({ rule, severity, message, ...details });
+        }
+    };
+
+    const parsed = pages.map(page => parsePage(page, siteUrl));
+    const byPath = new Map(parsed.map(page => [page.path, page]));
+
+    // Resolve an href against a page to a normalized path on this site, or null for other hosts
+    const resolvePath = (href: string, page: ParsedPage): string | null => {
+        try {
+            const url = new URL(href, page.url);
+            return url.host === siteHost ? normalizeSitePath(url.pathname) : null;
+        } catch {
+            return null;
+        }
+    };
+
+    const isIgnoredLink = (path: string) => (config.ignoreLinks || []).some(pattern =>
+        typeof pattern === 'string' ? path.startsWith(pattern) : pattern.test(path));
+
+    for (const page of parsed) {
+        const file = { file: page.key };
+
+        if (!page.title) {
+            report('missing-title', 'Page has no <title>', file);
+        }
+        if (!page.description) {
+            report('missing-description', 'Page has no meta description', file);
+        }
+        if (!page.canonical) {
+            report('missing-canonical', 'Page has no <link rel="canonical">', file);
+        }
+        if (page.h1Count === 0) {
+            report('missing-h1', 'Page has no <h1>', file);
+        } else if (page.h1Count > 1) {
+            report('multiple-h1', `Page has ${page.h1Count} <h1> elements`, file);
+        }
+
+        if (page.alternates.length > 0) {
+            const seen = new Set<string>();
+            let selfReferenced = false;
+            for (const alternate of page.alternates) {
+                const code = alternate.hreflang.toLowerCase();
+                if (!HREFLANG_PATTERN.test(alternate.hreflang)) {
+                    report('hreflang', `Invalid hreflang value "${alternate.hreflang}"`, { ...file, url: alternate.href });
+                }
+                if (seen.has(code)) {
+                    report('hreflang', `Duplicate hreflang "${alternate.hreflang}"`, { ...file, url: alternate.href });
+                }
+                seen.add(code);
+
+                const targetPath = resolvePath(alternate.href, page);
+                if (targetPath === page.path) {
+                    selfReferenced = true;
+                    continue;
+                }
+                const target = targetPath ? byPath.get(targetPath) : undefined;
+                if (target && !target.alternates.some(back => resolvePath(back.href, target) === page.path)) {
+                    report('hreflang', `Alternate ${target.key} does not link back with hreflang`, { ...file, url: alternate.href });
+                }
+            }
+            if (!selfReferenced) {
+                report('hreflang', 'hreflang alternates do not include the page itself', file);
+            }
+        }
+
+        const broken = new Set<string>();
+        for (const href of page.links) {
+            if (!isInternalLink(href, siteUrl)) {
+                continue;
+            }
+            const path = resolvePath(href, page);
+            // Only page links are checked - assets and other file types are not synced
+            if (!path || /\.[a-z0-9]+$/i.test(path) || isIgnoredLink(path) || byPath.has(path) || broken.has(path)) {
+                continue;
+            }
+            broken.add(path);
+            report('broken-link', `Link to ${path} does not match a synced page`, { ...file, url: href });
+        }
+    }
+
+    for (const rule of ['duplicate-title', 'duplicate-description'] as const) {
+        const groups = new Map<string, ParsedPage[]>();
+        for (const page of parsed) {
+            const value = (rule === 'duplicate-title' ? page.title : page.description).toLowerCase();
+            if (value) {
+                groups.set(value, [...(groups.get(value) || []), page]);
+            }
+        }
+        for (const group of groups.values()) {
+            if (group.length > 1) {
+                const label = rule === 'duplicate-title' ? 'Title' : 'Meta description';
+                for (const page of group) {
+                    const others = group.filter(other => other !== page).map(other => other.key).join(', ');
+                    report(rule, `${label} is also used by ${others}`, { file: page.key });
+                }
+            }
+        }
+    }
+
+    if (options.sitemapUrls) {
+        const sitemapPaths = new Set<string>();
+        const owned = options.ownedSitemapUrls ? new Set(options.ownedSitemapUrls) : null;
+        for (const loc of options.sitemapUrls) {
+            let url: URL;
+            try {
+                url = new URL(loc);
+            } catch {
+                continue;
+            }
+            if (url.host !== siteHost) {
+                continue;
+            }
+            const path = normalizeSitePath(url.pathname);
+            sitemapPaths.add(path);
+            if (options.checkSitemapEntries !== false && (!owned || owned.has(loc)) && !byPath.has(path)) {
+                report('sitemap-entry-without-page', `Sitemap lists ${loc} but no synced page exists for it`, { url: loc });
+            }
+        }
+        for (const page of parsed) {
+            if (!sitemapPaths.has(page.path)) {
+                report('page-missing-from-sitemap', 'Page is not listed in the sitemap', { file: page.key });
+            }
+        }
+    }
+
+    const counts: Record<AuditSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const issue of issues) {
+        counts[issue.severity]++;
+    }
+    const failOn = config.failOn ?? 'never';
+    const failed = failOn !== 'never' && issues.some(issue => SEVERITY_RANK[issue.severity] >= SEVERITY_RANK[failOn]);
+
+    return { pagesAudited: parsed.length, issues, counts, failed };
+}
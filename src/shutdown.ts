@@ -0,0 +1,59 @@
+import { ScopedLogger } from './logger';
+import { Logger, ShutdownOptions, ShutdownResult } from './types';
+
+/**
+ * Anything that can be shut down gracefully - a ContentFetcher or a ContentScheduler
+ */
+export interface ShutdownTarget {
+    shutdown(options?: ShutdownOptions): Promise<ShutdownResult>;
+}
+
+export interface ShutdownSignalOptions extends ShutdownOptions {
+    signals?: NodeJS.Signals[];             // Default: SIGTERM and SIGINT
+    exit?: boolean;                         // Exit the process once shut down (default: true)
+    logger?: Logger;                        // Default: console
+}
+
+/**
+ * Shut the targets down when the process receives SIGTERM or SIGINT, then exit. In-flight syncs get
+ * `timeoutMs` to finish before they are aborted; a second signal exits right away.
+ * Returns a function that removes the handlers.
+ */
+export function handleShutdownSignals(targets: ShutdownTarget | ShutdownTarget[], options: ShutdownSignalOptions = {}): () => void {
+    const logger = new ScopedLogger({ logger: options.logger, fields: { component: 'shutdown' } });
+    const signals = options.signals || ['SIGTERM', 'SIGINT'];
+    const shutdownOptions: ShutdownOptions = {};
+    if (options.timeoutMs !== undefined) {
+        shutdownOptions.timeoutMs = options.timeoutMs;
+    }
+
+    let shuttingDown = false;
+    const onSignal = (signal: NodeJS.Signals) => {
+        if (shuttingDown) {
+            logger.warn(`Received ${signal} again - exiting without waiting for syncs`);
+            process.exit(1);
+        }
+        shuttingDown = true;
+        logger.info(`Received ${signal} - shutting down`);
+
+        Promise.all((Array.isArray(targets) ? targets : [targets]).map(target => target.shutdown(shutdownOptions)))
+            .then(() => 0, error => {
+                logger.error('Shutdown failed', { error });
+                return 1;
+            })
+            .then(exitCode => {
+                if (options.exit !== false) {
+                    process.exit(exitCode);
+                }
+            });
+    };
+
+    for (const signal of signals) {
+        process.on(signal, onSignal);
+    }
+    return () => {
+        for (const signal of signals) {
+            process.off(signal, onSignal);
+        }
+    };
+}
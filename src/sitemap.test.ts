@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { mergeUrlsets, ParsedSitemap, parseSitemap } from './sitemap';
+
+type Urlset = Extract<ParsedSitemap, { type: 'urlset' }>;
+
+const urlset = (...locs: string[]): string =>
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">${locs.map(loc => `<url><loc>${loc}</loc></url>`).join('')}</urlset>`;
+
+describe('parseSitemap', () => {
+    it('reads elements with a namespace prefix and attributes', () => {
+        const parsed = parseSitemap(`<?xml version="1.0"?>
+<sm:urlset xmlns:sm="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">
+  <sm:url id="home">
+    <sm:loc>https://example.com/</sm:loc>
+    <sm:lastmod>2024-01-01</sm:lastmod>
+    <image:image><image:loc>https://example.com/a.png</image:loc></image:image>
+  </sm:url>
+</sm:urlset>`) as Urlset;
+
+        expect(parsed.type).toBe('urlset');
+        expect(parsed.urls).toHaveLength(1);
+        expect(parsed.urls[0]?.loc).toBe('https://example.com/');
+        expect(parsed.urls[0]?.lastmod).toBe('2024-01-01');
+        expect(parsed.namespaces['xmlns:image']).toBe('http://www.google.com/schemas/sitemap-image/1.1');
+    });
+
+    it('keeps a prefixed urlset readable after it is merged', () => {
+        const existing = parseSitemap(`<sm:urlset xmlns:sm='http://www.sitemaps.org/schemas/sitemap/0.9'>
+<sm:url><sm:loc>https://example.com/own</sm:loc></sm:url></sm:urlset>`) as Urlset;
+
+        const merged = parseSitemap(mergeUrlsets(existing, parseSitemap(urlset('https://example.com/a')) as Urlset)) as Urlset;
+
+        expect(merged.urls.map(url => url.loc)).toEqual(['https://example.com/own', 'https://example.com/a']);
+    });
+
+    it('reads a sitemap index with attributes on its entries', () => {
+        const parsed = parseSitemap(`<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+<sitemap xml:lang="en"><loc> https://example.com/a.xml </loc></sitemap></sitemapindex>`);
+
+        expect(parsed).toEqual({
+            type: 'sitemapindex',
+            namespaces: { xmlns: 'http://www.sitemaps.org/schemas/sitemap/0.9' },
+            sitemaps: [{ loc: 'https://example.com/a.xml' }]
+        });
+    });
+
+    it('does not mistake a urlset for a url', () => {
+        const parsed = parseSitemap('<urlset><urls><loc>https://example.com/x</loc></urls></urlset>') as Urlset;
+
+        expect(parsed.urls).toEqual([]);
+    });
+});
+
+describe('mergeUrlsets', () => {
+    it('drops existing entries listed for removal unless the incoming urlset has them', () => {
+        const existing = parseSitemap(urlset('https://example.com/own', 'https://example.com/old', 'https://example.com/kept')) as Urlset;
+        const incoming = parseSitemap(urlset('https://example.com/kept')) as Urlset;
+
+        const merged = parseSitemap(mergeUrlsets(existing, incoming, ['https://example.com/old', 'https://example.com/kept'])) as Urlset;
+
+        expect(merged.urls.map(url => url.loc)).toEqual(['https://example.com/own', 'https://example.com/kept']);
+    });
+});
@@ -0,0 +1,270 @@
+import zlib from 'zlib';
+
+export interface SitemapUrlEntry {
+    loc: string;
+    lastmod?: string;
+    raw: string;                            // Inner XML of the <url> element, kept so extensions survive a merge
+}
+
+export interface SitemapIndexEntry {
+    loc: string;
+    lastmod?: string;
+}
+
+export type ParsedSitemap =
+    | { type: 'urlset'; namespaces: Record<string, string>; urls: SitemapUrlEntry[] }
+    | { type: 'sitemapindex'; namespaces: Record<string, string>; sitemaps: SitemapIndexEntry[] };
+
+export interface SitemapPageUrl {
+    loc: string;
+    lastmod?: string;
+    priority?: number;
+}
+
+export interface SitemapGenerationOptions {
+    baseName?: string;                      // Root file name without extension (default: sitemap)
+    siteUrl: string;                        // Used for the <loc> of split sitemap files in the index
+    gzip?: boolean;
+    maxUrlsPerFile?: number;
+    maxBytesPerFile?: number;
+}
+
+export interface GeneratedSitemapFile {
+    key: string;
+    content: string | Uint8Array;
+}
+
+export interface GeneratedSitemap {
+    rootKey: string;                        // sitemap.xml - a urlset, or an index when split/gzipped
+    split: boolean;
+    files: GeneratedSitemapFile[];          // Child files first, root file last
+}
+
+const SITEMAP_NAMESPACE = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+
+// Protocol limits per sitemap file - https://www.sitemaps.org/protocol.html
+export const MAX_SITEMAP_URLS = 50000;
+export const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+export function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
+
+export function unescapeXml(value: string): string {
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Match `<tag>...</tag>` in the sitemap namespace, which the root element may bind to a prefix
+ * (`<sm:urlset>` has `<sm:url>`). Attributes on the opening tag are allowed. Group 1 is the inner XML.
+ */
+function elementPattern(tag: string, prefix: string | undefined, flags?: string): RegExp {
+    const name = prefix ? `${prefix.replace(/\./g, '\\.')}:${tag}` : tag;
+    return new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}\\s*>`, flags);
+}
+
+function readTag(xml: string, tag: string, prefix: string | undefined): string | undefined {
+    const match = elementPattern(tag, prefix).exec(xml);
+    return match?.[1] !== undefined ? unescapeXml(match[1].trim()) : undefined;
+}
+
+function readNamespaces(rootTag: string): Record<string, string> {
+    const namespaces: Record<string, string> = {};
+    for (const match of rootTag.matchAll(/(xmlns(?::[\w.-]+)?)\s*=\s*(["'])(.*?)\2/g)) {
+        if (match[1] && match[3] !== undefined) {
+            namespaces[match[1]] = match[3];
+        }
+    }
+    return namespaces;
+}
+
+/**
+ * Parse a sitemap `<urlset>` or sitemap index. Returns null for anything else.
+ */
+export function parseSitemap(xml: string): ParsedSitemap | null {
+    const urlsetRoot = /<(?:([\w.-]+):)?urlset\b[^>]*>/.exec(xml);
+    if (urlsetRoot) {
+        const prefix = urlsetRoot[1];
+        const urls: SitemapUrlEntry[] = [];
+        for (const match of xml.matchAll(elementPattern('url', prefix, 'g'))) {
+            let raw = (match[1] || '').trim();
+            if (prefix) {
+                // Drop the prefix so the entry fits the default namespace buildUrlset writes
+                raw = raw.replace(new RegExp(`(</?)${prefix.replace(/\./g, '\\.')}:`, 'g'), '$1');
+            }
+            const loc = readTag(raw, 'loc', undefined);
+            if (!loc) {
+                continue;
+            }
+            const lastmod = readTag(raw, 'lastmod', undefined);
+            urls.push(lastmod !== undefined ? { loc, lastmod, raw } : { loc, raw });
+        }
+        return { type: 'urlset', namespaces: readNamespaces(urlsetRoot[0]), urls };
+    }
+
+    const indexRoot = /<(?:([\w.-]+):)?sitemapindex\b[^>]*>/.exec(xml);
+    if (indexRoot) {
+        const sitemaps: SitemapIndexEntry[] = [];
+        for (const match of xml.matchAll(elementPattern('sitemap', indexRoot[1], 'g'))) {
+            const loc = readTag(match[1] || '', 'loc', indexRoot[1]);
+            if (!loc) {
+                continue;
+            }
+            const lastmod = readTag(match[1] || '', 'lastmod', indexRoot[1]);
+            sitemaps.push(lastmod !== undefined ? { loc, lastmod } : { loc });
+        }
+        return { type: 'sitemapindex', namespaces: readNamespaces(indexRoot[0]), sitemaps };
+    }
+
+    return null;
+}
+
+function renderAttributes(namespaces: Record<string, string>): string {
+    const merged = { xmlns: SITEMAP_NAMESPACE, ...namespaces };
+    return Object.entries(merged).map(([name, value]) => ` ${name}="${value}"`).join('');
+}
+
+export function buildUrlset(urls: SitemapUrlEntry[], namespaces: Record<string, string> = {}): string {
+    const body = urls.map(url => `  <url>\n    ${url.raw.replace(/\n\s*/g, '\n    ')}\n  </url>`).join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset${renderAttributes(namespaces)}>\n${body}${body ? '\n' : ''}</urlset>\n`;
+}
+
+export function buildSitemapIndex(sitemaps: SitemapIndexEntry[], namespaces: Record<string, string> = {}): string {
+    const body = sitemaps.map(sitemap => {
+        const lastmod = sitemap.lastmod ? `\n    <lastmod>${escapeXml(sitemap.lastmod)}</lastmod>` : '';
+        return `  <sitemap>\n    <loc>${escapeXml(sitemap.loc)}</loc>${lastmod}\n  </sitemap>`;
+    }).join('\n');
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<sitemapindex${renderAttributes(namespaces)}>\n${body}${body ? '\n' : ''}</sitemapindex>\n`;
+}
+
+function isNewer(candidate?: string, current?: string): boolean {
+    if (!candidate) {
+        return false;
+    }
+    if (!current) {
+        return true;
+    }
+    const candidateTime = Date.parse(candidate);
+    const currentTime = Date.parse(current);
+    if (Number.isNaN(candidateTime) || Number.isNaN(currentTime)) {
+        return false;
+    }
+    return candidateTime >= currentTime;
+}
+
+/**
+ * Union two urlsets by <loc>. When both contain a URL, the entry with the newer <lastmod> wins;
+ * the incoming entry wins ties, and an existing entry without a lastmod is always replaced.
+ * Existing entries listed in `removeLocs` are dropped unless the incoming urlset has them.
+ */
+export function mergeUrlsets(
+    existing: Extract<ParsedSitemap, { type: 'urlset' }>,
+    incoming: Extract<ParsedSitemap, { type: 'urlset' }>,
+    removeLocs: string[] = []
+): string {
+    const removed = new Set(removeLocs);
+    const byLoc = new Map<string, SitemapUrlEntry>();
+    for (const url of existing.urls) {
+        if (!removed.has(url.loc)) {
+            byLoc.set(url.loc, url);
+        }
+    }
+    for (const url of incoming.urls) {
+        const current = byLoc.get(url.loc);
+        if (!current || !current.lastmod || isNewer(url.lastmod, current.lastmod)) {
+            byLoc.set(url.loc, url);
+        }
+    }
+    return buildUrlset(Array.from(byLoc.values()), { ...existing.namespaces, ...incoming.namespaces });
+}
+
+/**
+ * Add or update sitemap references in a sitemap index, optionally dropping others by <loc>
+ */
+export function updateSitemapIndex(
+    existing: Extract<ParsedSitemap, { type: 'sitemapindex' }> | null,
+    entries: SitemapIndexEntry[],
+    removeLocs: string[] = []
+): string {
+    const replaced = new Set([...entries.map(entry => entry.loc), ...removeLocs]);
+    const sitemaps = (existing?.sitemaps || []).filter(sitemap => !replaced.has(sitemap.loc));
+    sitemaps.push(...entries);
+    return buildSitemapIndex(sitemaps, existing?.namespaces || {});
+}
+
+function renderPageUrl(url: SitemapPageUrl): SitemapUrlEntry {
+    let raw = `<loc>${escapeXml(url.loc)}</loc>`;
+    if (url.lastmod) {
+        raw += `\n<lastmod>${escapeXml(url.lastmod)}</lastmod>`;
+    }
+    if (url.priority !== undefined) {
+        raw += `\n<priority>${Math.min(1, Math.max(0, url.priority)).toFixed(1)}</priority>`;
+    }
+    return url.lastmod !== undefined ? { loc: url.loc, lastmod: url.lastmod, raw } : { loc: url.loc, raw };
+}
+
+/**
+ * Generate sitemap files for a list of page URLs. Output is split into `<baseName>-<n>.xml` files
+ * plus a `<baseName>.xml` sitemap index once the protocol's URL or size limits are exceeded, and
+ * child files are gzipped when requested.
+ */
+export function generateSitemapFiles(urls: SitemapPageUrl[], options: SitemapGenerationOptions): GeneratedSitemap {
+    const baseName = options.baseName || 'sitemap';
+    const maxUrls = Math.min(options.maxUrlsPerFile ?? MAX_SITEMAP_URLS, MAX_SITEMAP_URLS);
+    const maxBytes = Math.min(options.maxBytesPerFile ?? MAX_SITEMAP_BYTES, MAX_SITEMAP_BYTES);
+    const rootKey = `${baseName}.xml`;
+
+    const entries = [...urls].sort((a, b) => a.loc.localeCompare(b.loc)).map(renderPageUrl);
+    const overhead = Buffer.byteLength(buildUrlset([]));
+
+    const chunks: SitemapUrlEntry[][] = [];
+    let current: SitemapUrlEntry[] = [];
+    let currentBytes = overhead;
+    for (const entry of entries) {
+        const entryBytes = Buffer.byteLength(entry.raw) + 32;
+        if (current.length > 0 && (current.length >= maxUrls || currentBytes + entryBytes > maxBytes)) {
+            chunks.push(current);
+            current = [];
+            currentBytes = overhead;
+        }
+        current.push(entry);
+        currentBytes += entryBytes;
+    }
+    chunks.push(current);
+
+    if (chunks.length === 1 && !options.gzip) {
+        return { rootKey, split: false, files: [{ key: rootKey, content: buildUrlset(chunks[0] || []) }] };
+    }
+
+    const siteUrl = options.siteUrl.replace(/\/+$/, '');
+    const extension = options.gzip ? '.xml.gz' : '.xml';
+    const files: GeneratedSitemapFile[] = chunks.map((chunk, index) => {
+        const xml = buildUrlset(chunk);
+        return {
+            key: `${baseName}-${index + 1}${extension}`,
+            content: options.gzip ? zlib.gzipSync(xml) : xml
+        };
+    });
+
+    const lastmods = chunks.map(chunk => chunk.reduce<string | undefined>(
+        (latest, entry) => entry.lastmod && (!latest || entry.lastmod > latest) ? entry.lastmod : latest,
+        undefined
+    ));
+    const index = buildSitemapIndex(files.map((file, i) => {
+        const lastmod = lastmods[i];
+        return lastmod ? { loc: `${siteUrl}/${file.key}`, lastmod } : { loc: `${siteUrl}/${file.key}` };
+    }));
+    files.push({ key: rootKey, content: index });
+
+    return { rootKey, split: true, files };
+}
@@ -0,0 +1,62 @@
+import { consoleLogger } from './logger';
+import { Logger, SyncEventListener, SyncEventMap, SyncEventName, SyncHooks } from './types';
+
+type AnyListener = (event: never) => unknown;
+
+/**
+ * Typed, async-aware event emitter for sync lifecycle events. Listeners run in registration order
+ * and are awaited; a failing listener is logged and never breaks the sync.
+ */
+export class SyncEventEmitter {
+    private listeners: Map<SyncEventName, AnyListener[]> = new Map();
+    private label: string;
+    private logger: Logger;
+
+    constructor(label: string, logger: Logger = consoleLogger) {
+        this.label = label;
+        this.logger = logger;
+    }
+
+    on<E extends SyncEventName>(event: E, listener: SyncEventListener<E>): () => void {
+        this.listeners.set(event, [...(this.listeners.get(event) || []), listener as AnyListener]);
+        return () => this.off(event, listener);
+    }
+
+    off<E extends SyncEventName>(event: E, listener: SyncEventListener<E>): void {
+        const remaining = (this.listeners.get(event) || []).filter(candidate => candidate !== listener);
+        if (remaining.length > 0) {
+            this.listeners.set(event, remaining);
+        } else {
+            this.listeners.delete(event);
+        }
+    }
+
+    /**
+     * Register every hook in a hooks object. Returns a function that removes them again.
+     */
+    addHooks(hooks: SyncHooks): () => void {
+        const removers = (Object.keys(hooks) as SyncEventName[]).flatMap(event => {
+            const listener = hooks[event];
+            return listener ? [this.on(event, listener as SyncEventListener<typeof event>)] : [];
+        });
+        return () => removers.forEach(remove => remove());
+    }
+
+    getListeners<E extends SyncEventName>(event: E): SyncEventListener<E>[] {
+        return [...(this.listeners.get(event) || [])] as unknown as SyncEventListener<E>[];
+    }
+
+    listenerCount(event: SyncEventName): number {
+        return this.listeners.get(event)?.length || 0;
+    }
+
+    async emit<E extends Exclude<SyncEventName, 'beforePageWrite'>>(event: E, payload: SyncEventMap[E]): Promise<void> {
+        for (const listener of this.getListeners(event)) {
+            try {
+                await listener(payload);
+            } catch (error) {
+                this.logger.error(`${event} listener failed`, { component: this.label, event, error });
+            }
+        }
+    }
+}
@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileLockProvider, MemoryLockProvider } from './sync-lock';
+import { Logger, SyncLock } from './types';
+
+const silent: Logger = { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined };
+
+describe('FileLockProvider', () => {
+    let directory: string;
+    const held: SyncLock[] = [];
+
+    beforeEach(async () => {
+        directory = await fs.mkdtemp(path.join(os.tmpdir(), 'seotrove-lock-'));
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await Promise.all(held.splice(0).map(lock => lock.release()));
+        await fs.rm(directory, { recursive: true, force: true });
+    });
+
+    const createProvider = () => new FileLockProvider(directory, { staleMs: 1000, logger: silent });
+
+    async function acquire(provider: FileLockProvider): Promise<SyncLock | null> {
+        const lock = await provider.acquire('example.com');
+        if (lock) {
+            held.push(lock);
+        }
+        return lock;
+    }
+
+    async function writeStaleLock(provider: FileLockProvider, owner: string): Promise<string> {
+        const lockPath = provider.getLockPath('example.com');
+        await fs.writeFile(lockPath, JSON.stringify({ owner, key: 'example.com', hostname: 'old-host', pid: 1, acquiredAt: '2024-01-01T00:00:00.000Z' }));
+        const hourAgo = new Date(Date.now() - 60 * 60 * 1000);
+        await fs.utimes(lockPath, hourAgo, hourAgo);
+        return lockPath;
+    }
+
+    it('lets only one instance hold the lock until it is released', async () => {
+        const lock = await acquire(createProvider());
+        expect(lock).not.toBeNull();
+        expect(await acquire(createProvider())).toBeNull();
+
+        await lock?.release();
+        expect(await acquire(createProvider())).not.toBeNull();
+    });
+
+    it('takes over a stale lock, which its old holder can no longer release', async () => {
+        const provider = createProvider();
+        const lockPath = await writeStaleLock(provider, 'crashed');
+
+        expect(await acquire(provider)).not.toBeNull();
+        const content = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+        expect(content.owner).not.toBe('crashed');
+        expect((await fs.readdir(directory)).filter(name => name.endsWith('.stale'))).toEqual([]);
+    });
+
+    it('gives a stale lock to only one of several instances', async () => {
+        const provider = createProvider();
+        await writeStaleLock(provider, 'crashed');
+
+        const locks = await Promise.all([acquire(createProvider()), acquire(createProvider()), acquire(createProvider())]);
+
+        expect(locks.filter(lock => lock !== null)).toHaveLength(1);
+    });
+
+    it('hands back a lock that another instance took over between the check and the removal', async () => {
+        const provider = createProvider();
+        const lockPath = await writeStaleLock(provider, 'crashed');
+        const fresh = JSON.stringify({ owner: 'fresh', key: 'example.com', hostname: 'other-host', pid: 2, acquiredAt: new Date().toISOString() });
+        const rename = fs.rename.bind(fs);
+        vi.spyOn(fs, 'rename').mockImplementationOnce(async (from, to) => {
+            // The other instance removed the stale lock and created its own just before our rename
+            await fs.writeFile(lockPath, fresh);
+            await rename(from, to);
+        });
+
+        expect(await acquire(provider)).toBeNull();
+        expect(await fs.readFile(lockPath, 'utf-8')).toBe(fresh);
+        expect((await fs.readdir(directory)).filter(name => name.endsWith('.stale'))).toEqual([]);
+    });
+});
+
+describe('MemoryLockProvider', () => {
+    it('holds a key until it is released', async () => {
+        const provider = new MemoryLockProvider();
+        const lock = await provider.acquire('example.com');
+
+        expect(await provider.acquire('example.com')).toBeNull();
+        expect(await provider.acquire('other.com')).not.toBeNull();
+        await lock?.release();
+        expect(await provider.acquire('example.com')).not.toBeNull();
+    });
+});
@@ -0,0 +1,212 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { consoleLogger } from './logger';
+import { FileLockOptions, LockProvider, Logger, SyncLock } from './types';
+
+const DEFAULT_STALE_MS = 60 * 1000;
+
+interface LockFileContent {
+    owner: string;
+    key: string;
+    hostname: string;
+    pid: number;
+    acquiredAt: string;
+}
+
+function isErrorCode(error: unknown, code: string): boolean {
+    return error instanceof Error && (error as NodeJS.ErrnoException).code === code;
+}
+
+/**
+ * Lock held through a lock file. The file's mtime is renewed on every heartbeat, so a crashed
+ * holder's lock goes stale and can be taken over by another instance.
+ */
+class FileLock implements SyncLock {
+    private heartbeat: NodeJS.Timeout | null;
+
+    constructor(private lockPath: string, private owner: string, heartbeatMs: number, private logger: Logger) {
+        this.heartbeat = setInterval(() => {
+            this.renew().catch(error => {
+                this.logger.error(`Failed to renew lock ${this.lockPath}`, { component: 'FileLockProvider', lockPath: this.lockPath, error });
+            });
+        }, heartbeatMs);
+        // A held lock must not keep the process alive on its own
+        this.heartbeat.unref();
+    }
+
+    async release(): Promise<void> {
+        this.stopHeartbeat();
+        if (await this.isOwned()) {
+            await fs.unlink(this.lockPath).catch(error => {
+                if (!isErrorCode(error, 'ENOENT')) {
+                    throw error;
+                }
+            });
+        }
+    }
+
+    private async renew(): Promise<void> {
+        if (!(await this.isOwned())) {
+            this.stopHeartbeat();
+            this.logger.error(`Lock ${this.lockPath} was taken over by another instance`, { component: 'FileLockProvider', lockPath: this.lockPath });
+            return;
+        }
+        const now = new Date();
+        await fs.utimes(this.lockPath, now, now);
+    }
+
+    private async isOwned(): Promise<boolean> {
+        try {
+            const content = JSON.parse(await fs.readFile(this.lockPath, 'utf-8')) as LockFileContent;
+            return content.owner === this.owner;
+        } catch {
+            return false;
+        }
+    }
+
+    private stopHeartbeat(): void {
+        if (this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+    }
+}
+
+/**
+ * Cross-process lock based on lock files in a shared directory - the default for `lock: true`.
+ * Works across instances on one host and over shared volumes (NFS, EFS) that support exclusive create.
+ */
+export class FileLockProvider implements LockProvider {
+    private directory: string;
+    private staleMs: number;
+    private heartbeatMs: number;
+    private logger: Logger;
+
+    constructor(directory: string, options: FileLockOptions = {}) {
+        this.directory = path.resolve(directory);
+        this.staleMs = options.staleMs ?? DEFAULT_STALE_MS;
+        this.heartbeatMs = options.heartbeatMs ?? Math.floor(this.staleMs / 3);
+        this.logger = options.logger || consoleLogger;
+        if (this.heartbeatMs >= this.staleMs) {
+            throw new Error('FileLockProvider heartbeatMs must be lower than staleMs');
+        }
+    }
+
+    getLockPath(key: string): string {
+        return path.join(this.directory, `.seotrove-${key.replace(/[^a-zA-Z0-9._-]/g, '_')}.lock`);
+    }
+
+    async acquire(key: string): Promise<SyncLock | null> {
+        const lockPath = this.getLockPath(key);
+        const content: LockFileContent = {
+            owner: crypto.randomUUID(),
+            key,
+            hostname: os.hostname(),
+            pid: process.pid,
+            acquiredAt: new Date().toISOString()
+        };
+        await fs.mkdir(this.directory, { recursive: true });
+
+        // Second attempt only happens after a stale lock was removed
+        for (let attempt = 0; attempt < 2; attempt++) {
+            try {
+                await fs.writeFile(lockPath, JSON.stringify(content, null, 2), { flag: 'wx' });
+                return new FileLock(lockPath, content.owner, this.heartbeatMs, this.logger);
+            } catch (error) {
+                if (!isErrorCode(error, 'EEXIST')) {
+                    throw error;
+                }
+            }
+            if (!(await this.removeIfStale(lockPath))) {
+                return null;
+            }
+        }
+        return null;
+    }
+
+    async getHolder(key: string): Promise<string | null> {
+        const lockPath = this.getLockPath(key);
+        try {
+            const [raw, stats] = await Promise.all([fs.readFile(lockPath, 'utf-8'), fs.stat(lockPath)]);
+            const content = JSON.parse(raw) as LockFileContent;
+            return `${content.hostname} (pid ${content.pid}) since ${content.acquiredAt}, last renewed ${stats.mtime.toISOString()}`;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Take a stale lock out of the way. Another instance may replace it between our check and the
+     * removal, so the lock file is first renamed to a name only we use, then checked again: if it
+     * is no longer the stale lock we saw, it is put back. Returns true when the lock can be retried.
+     */
+    private async removeIfStale(lockPath: string): Promise<boolean> {
+        let seen: string;
+        try {
+            seen = await fs.readFile(lockPath, 'utf-8');
+            if (!(await this.isStale(lockPath))) {
+                return false;
+            }
+        } catch (error) {
+            // Released between our create attempt and the check - try again
+            if (isErrorCode(error, 'ENOENT')) {
+                return true;
+            }
+            throw error;
+        }
+
+        const claimed = `${lockPath}.${crypto.randomUUID()}.stale`;
+        try {
+            await fs.rename(lockPath, claimed);
+        } catch (error) {
+            // Another instance took the stale lock over first
+            if (isErrorCode(error, 'ENOENT')) {
+                return true;
+            }
+            throw error;
+        }
+
+        try {
+            if (await fs.readFile(claimed, 'utf-8') !== seen || !(await this.isStale(claimed))) {
+                // Replaced or renewed in the meantime - that lock is live, hand it back unless a newer one exists
+                await fs.link(claimed, lockPath).catch(error => {
+                    if (!isErrorCode(error, 'EEXIST')) {
+                        throw error;
+                    }
+                });
+                return false;
+            }
+            const stats = await fs.stat(claimed);
+            this.logger.warn(`Removing stale lock ${lockPath} (last renewed ${stats.mtime.toISOString()})`, { component: 'FileLockProvider', lockPath });
+            return true;
+        } finally {
+            await fs.unlink(claimed).catch(() => undefined);
+        }
+    }
+
+    private async isStale(lockPath: string): Promise<boolean> {
+        const stats = await fs.stat(lockPath);
+        return Date.now() - stats.mtimeMs > this.staleMs;
+    }
+}
+
+/**
+ * In-process lock - only prevents concurrent syncs within a single process
+ */
+export class MemoryLockProvider implements LockProvider {
+    private held: Set<string> = new Set();
+
+    async acquire(key: string): Promise<SyncLock | null> {
+        if (this.held.has(key)) {
+            return null;
+        }
+        this.held.add(key);
+        return {
+            release: async () => {
+                this.held.delete(key);
+            }
+        };
+    }
+}
@@ -0,0 +1,136 @@
+import { PlannedAction, PlannedFile, StorageAdapter, StorageContent, SyncPlan } from './types';
+import { createUnifiedDiff } from './unified-diff';
+
+function toBytes(content: StorageContent): Uint8Array {
+    return typeof content === 'string' ? Buffer.from(content, 'utf-8') : content;
+}
+
+function isBinaryKey(key: string): boolean {
+    return key.endsWith('.gz');
+}
+
+/**
+ * Storage overlay for dry runs: reads see the underlying storage plus the pending changes,
+ * writes and deletes are only recorded
+ */
+export class DryRunStorageAdapter implements StorageAdapter {
+    private written: Map<string, StorageContent> = new Map();
+    private deleted: Set<string> = new Set();
+
+    constructor(private base: StorageAdapter) {}
+
+    async write(key: string, content: StorageContent): Promise<void> {
+        this.written.set(key, content);
+        this.deleted.delete(key);
+    }
+
+    async read(key: string): Promise<string | null> {
+        const bytes = await this.readBytes(key);
+        return bytes === null ? null : Buffer.from(bytes).toString('utf-8');
+    }
+
+    async readBytes(key: string): Promise<Uint8Array | null> {
+        if (this.deleted.has(key)) {
+            return null;
+        }
+        const content = this.written.get(key);
+        return content !== undefined ? toBytes(content) : this.base.readBytes(key);
+    }
+
+    async exists(key: string): Promise<boolean> {
+        if (this.deleted.has(key)) {
+            return false;
+        }
+        return this.written.has(key) || this.base.exists(key);
+    }
+
+    async list(prefix: string = ''): Promise<string[]> {
+        const keys = new Set(await this.base.list(prefix));
+        for (const key of this.written.keys()) {
+            if (key.startsWith(prefix)) {
+                keys.add(key);
+            }
+        }
+        return Array.from(keys).filter(key => !this.deleted.has(key)).sort();
+    }
+
+    async delete(key: string): Promise<void> {
+        this.written.delete(key);
+        this.deleted.add(key);
+    }
+
+    async rename(fromKey: string, toKey: string): Promise<void> {
+        const content = await this.readBytes(fromKey);
+        if (content === null) {
+            throw new Error(`Storage key "${fromKey}" not found`);
+        }
+        await this.write(toKey, content);
+        await this.delete(fromKey);
+    }
+
+    getWrittenKeys(): string[] {
+        return Array.from(this.written.keys());
+    }
+
+    getDeletedKeys(): string[] {
+        return Array.from(this.deleted);
+    }
+
+    getBase(): StorageAdapter {
+        return this.base;
+    }
+}
+
+/**
+ * Compare what a dry run wrote to the overlay with what is in the underlying storage.
+ * `unchangedKeys` are files the sync skipped because the manifest showed identical content.
+ */
+export async function buildSyncPlan(storage: DryRunStorageAdapter, unchangedKeys: string[] = []): Promise<SyncPlan> {
+    const base = storage.getBase();
+    const files: PlannedFile[] = [];
+
+    for (const key of storage.getWrittenKeys()) {
+        const next = await storage.readBytes(key) as Uint8Array;
+        const current = await base.readBytes(key);
+        if (current === null) {
+            files.push({ key, action: 'create', bytes: next.byteLength });
+            continue;
+        }
+        if (Buffer.from(current).equals(Buffer.from(next))) {
+            files.push({ key, action: 'unchanged', bytes: next.byteLength });
+            continue;
+        }
+        const file: PlannedFile = { key, action: 'update', bytes: next.byteLength, previousBytes: current.byteLength };
+        if (!isBinaryKey(key)) {
+            file.diff = createUnifiedDiff(
+                Buffer.from(current).toString('utf-8'),
+                Buffer.from(next).toString('utf-8'),
+                { fromFile: `a/${key}`, toFile: `b/${key}` }
+            );
+        }
+        files.push(file);
+    }
+
+    for (const key of storage.getDeletedKeys()) {
+        const current = await base.readBytes(key);
+        if (current !== null) {
+            files.push({ key, action: 'delete', bytes: 0, previousBytes: current.byteLength });
+        }
+    }
+
+    const planned = new Set(files.map(file => file.key));
+    for (const key of unchangedKeys) {
+        const current = planned.has(key) ? null : await base.readBytes(key);
+        if (current !== null) {
+            files.push({ key, action: 'unchanged', bytes: current.byteLength });
+            planned.add(key);
+        }
+    }
+
+    files.sort((a, b) => a.key.localeCompare(b.key));
+    const counts: Record<PlannedAction, number> = { create: 0, update: 0, unchanged: 0, delete: 0 };
+    for (const file of files) {
+        counts[file.action]++;
+    }
+    return { files, counts };
+}
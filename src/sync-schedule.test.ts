@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as cron from './cron';
+import { SyncSchedule } from './sync-schedule';
+import { Logger, SyncResult } from './types';
+
+vi.mock('./cron', async importOriginal => {
+    const actual = await importOriginal<typeof import('./cron')>();
+    return { ...actual, getNextCronDate: vi.fn(actual.getNextCronDate) };
+});
+
+function createLogger(): Logger & { errors: string[] } {
+    const errors: string[] = [];
+    return { errors, debug: () => undefined, info: () => undefined, warn: () => undefined, error: message => errors.push(message) };
+}
+
+const ok = (): SyncResult => ({ success: true, message: 'ok', filesCreated: [] });
+
+describe('SyncSchedule', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2024, 0, 1, 0, 0, 30));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.mocked(cron.getNextCronDate).mockRestore();
+    });
+
+    it('rejects a cron expression without an upcoming run', () => {
+        expect(() => new SyncSchedule(async () => ok(), { cron: '0 0 30 2 *' })).toThrow('has no upcoming run');
+        expect(() => new SyncSchedule(async () => ok(), { cron: '0 0 1 * *' }).configure({ cron: '0 0 31 4 *' })).toThrow('has no upcoming run');
+    });
+
+    it('runs on start and then every interval', async () => {
+        const task = vi.fn(async () => ok());
+        const schedule = new SyncSchedule(task, { intervalMs: 1000 }, 'test', createLogger());
+
+        schedule.start();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(task).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(task).toHaveBeenCalledTimes(3);
+        schedule.stop();
+    });
+
+    it('skips or queues a run while the previous one is in flight', async () => {
+        let finish: () => void = () => undefined;
+        const task = vi.fn(() => new Promise<SyncResult>(resolve => {
+            finish = () => resolve(ok());
+        }));
+        const schedule = new SyncSchedule(task, {}, 'test', createLogger());
+
+        const first = schedule.runNow();
+        expect(await schedule.runNow()).toBeNull();
+        expect(schedule.getInfo().skippedRuns).toBe(1);
+        expect(await schedule.runNow('queue')).toBeNull();
+
+        finish();
+        await vi.waitFor(() => expect(task).toHaveBeenCalledTimes(2));
+        finish();
+        await first;
+        expect(schedule.isRunning()).toBe(false);
+    });
+
+    it('runs a queued run with the task it was queued with', async () => {
+        let finish: () => void = () => undefined;
+        const task = vi.fn(() => new Promise<SyncResult>(resolve => {
+            finish = () => resolve(ok());
+        }));
+        const other = vi.fn(async () => ok());
+        const schedule = new SyncSchedule(task, {}, 'test', createLogger());
+
+        const first = schedule.runNow();
+        expect(await schedule.runNow('queue', other)).toBeNull();
+        finish();
+        await first;
+
+        expect(task).toHaveBeenCalledTimes(1);
+        expect(other).toHaveBeenCalledTimes(1);
+    });
+
+    it('logs instead of throwing from the timer when no next run can be found', async () => {
+        const logger = createLogger();
+        const task = vi.fn(async () => ok());
+        const schedule = new SyncSchedule(task, { cron: '* * * * *', runOnStart: false }, 'test', logger);
+        schedule.start();
+        vi.mocked(cron.getNextCronDate).mockImplementation(() => {
+            throw new Error('no upcoming run');
+        });
+
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+
+        expect(task).toHaveBeenCalledTimes(1);
+        expect(logger.errors).toEqual(['Failed to schedule the next sync: no upcoming run']);
+        expect(schedule.getInfo().nextRunAt).toBeNull();
+        schedule.stop();
+    });
+});
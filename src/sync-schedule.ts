@@ -0,0 +1,202 @@
+import { getNextCronDate } from './cron';
+import { consoleLogger } from './logger';
+import { Logger, ScheduleConfig, ScheduleInfo, SyncResult } from './types';
+
+const TWENTY_FOUR_HOURS = 24 * 60 * 60 * 1000;
+
+// setTimeout overflows above 2^31-1 ms (~24.8 days) - longer waits are chained
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+/**
+ * Runs a sync task on a cron expression or fixed interval, with optional random jitter and a
+ * guard that skips or queues runs while the previous one is still in flight
+ */
+export class SyncSchedule {
+    private config: ScheduleConfig;
+    private task: () => Promise<SyncResult>;
+    private label: string;
+    private logger: Logger;
+    private timer: NodeJS.Timeout | null = null;
+    private active: boolean = false;
+    private running: Promise<SyncResult | null> | null = null;
+    private queued: (() => Promise<SyncResult>) | null = null;     // Task of the run queued behind the running one
+    private nextRunAt: Date | null = null;
+    private lastRunAt: Date | null = null;
+    private lastFinishedAt: Date | null = null;
+    private lastResult: SyncResult | null = null;
+    private skippedRuns: number = 0;
+
+    constructor(task: () => Promise<SyncResult>, config: ScheduleConfig = {}, label: string = 'ContentScheduler', logger: Logger = consoleLogger) {
+        validateSchedule(config);
+        this.task = task;
+        this.config = config;
+        this.label = label;
+        this.logger = logger;
+    }
+
+    start(): void {
+        if (this.active) {
+            return;
+        }
+        this.active = true;
+
+        if (this.config.runOnStart !== false) {
+            this.scheduleAt(new Date(Date.now() + this.getJitter()));
+        } else {
+            this.scheduleNext();
+        }
+    }
+
+    stop(): void {
+        this.active = false;
+        this.queued = null;
+        this.nextRunAt = null;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Apply new timing options. A running schedule is re-timed from now; run history is kept.
+     */
+    configure(config: ScheduleConfig): void {
+        validateSchedule(config);
+        this.config = config;
+        if (this.active) {
+            if (this.timer) {
+                clearTimeout(this.timer);
+                this.timer = null;
+            }
+            this.scheduleNext();
+        }
+    }
+
+    isActive(): boolean {
+        return this.active;
+    }
+
+    isRunning(): boolean {
+        return this.running !== null;
+    }
+
+    /**
+     * Resolves once the in-flight run (and any queued follow-up) has finished
+     */
+    async whenIdle(): Promise<void> {
+        while (this.running) {
+            await this.running;
+        }
+    }
+
+    getInfo(): ScheduleInfo {
+        const info: ScheduleInfo = {
+            active: this.active,
+            running: this.running !== null,
+            nextRunAt: this.nextRunAt?.toISOString() || null,
+            lastRunAt: this.lastRunAt?.toISOString() || null,
+            lastFinishedAt: this.lastFinishedAt?.toISOString() || null,
+            lastResult: this.lastResult,
+            skippedRuns: this.skippedRuns
+        };
+        if (this.config.cron) {
+            info.cron = this.config.cron;
+        } else {
+            info.intervalMs = this.config.intervalMs ?? TWENTY_FOUR_HOURS;
+        }
+        return info;
+    }
+
+    /**
+     * Run the task now - or `task` instead, for this run only - honoring the overlap policy, or
+     * `overlap` for this run. Resolves to null when the run was skipped or queued.
+     */
+    async runNow(overlap: ScheduleConfig['overlap'] = this.config.overlap, task: () => Promise<SyncResult> = this.task): Promise<SyncResult | null> {
+        if (this.running) {
+            if (overlap === 'queue') {
+                this.queued = task;
+                this.logger.info('Previous sync still running - queued another run', { component: this.label });
+            } else {
+                this.skippedRuns++;
+                this.logger.warn('Previous sync still running - skipped this run', { component: this.label, skippedRuns: this.skippedRuns });
+            }
+            return null;
+        }
+
+        this.running = this.execute(task);
+        return this.running;
+    }
+
+    private async execute(first: () => Promise<SyncResult>): Promise<SyncResult | null> {
+        let result: SyncResult | null = null;
+        let task: (() => Promise<SyncResult>) | null = first;
+        try {
+            while (task) {
+                this.queued = null;
+                this.lastRunAt = new Date();
+                try {
+                    result = await task();
+                } catch (error) {
+                    const errorMsg = `Scheduled sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+                    this.logger.error(errorMsg, { component: this.label });
+                    result = { success: false, message: errorMsg, filesCreated: [], errors: [errorMsg] };
+                }
+                this.lastResult = result;
+                this.lastFinishedAt = new Date();
+                // stop() drops a queued run
+                task = this.queued;
+            }
+        } finally {
+            this.running = null;
+        }
+        return result;
+    }
+
+    private scheduleNext(): void {
+        const base = this.config.cron
+            ? getNextCronDate(this.config.cron)
+            : new Date(Date.now() + (this.config.intervalMs ?? TWENTY_FOUR_HOURS));
+        this.scheduleAt(new Date(base.getTime() + this.getJitter()));
+    }
+
+    private scheduleAt(runAt: Date): void {
+        if (!this.active) {
+            return;
+        }
+        this.nextRunAt = runAt;
+
+        const delay = Math.max(0, runAt.getTime() - Date.now());
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            if (runAt.getTime() > Date.now()) {
+                // Woke up early because the wait was chained around the setTimeout limit
+                this.scheduleAt(runAt);
+                return;
+            }
+            this.logger.info('Running scheduled content sync...', { component: this.label });
+            this.runNow().catch(() => undefined);
+            // Measure the next run from now, not from when this one finishes
+            try {
+                this.scheduleNext();
+            } catch (error) {
+                // Thrown from a timer this would be an uncaught exception and end the process
+                this.nextRunAt = null;
+                this.logger.error(`Failed to schedule the next sync: ${error instanceof Error ? error.message : 'Unknown error'}`, { component: this.label });
+            }
+        }, Math.min(delay, MAX_TIMEOUT_MS));
+    }
+
+    private getJitter(): number {
+        return this.config.jitterMs ? Math.floor(Math.random() * this.config.jitterMs) : 0;
+    }
+}
+
+function validateSchedule(config: ScheduleConfig): void {
+    if (config.cron) {
+        // Fail fast on a bad expression, or one that never fires ("0 0 30 2 *"), instead of at the first tick
+        getNextCronDate(config.cron);
+    }
+    if (config.intervalMs !== undefined && config.intervalMs <= 0) {
+        throw new Error(`Invalid schedule interval: ${config.intervalMs}`);
+    }
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import path from 'path';
+import { FileManager } from './file-manager';
+import { StorageAdapter, StorageContent, SyncManifest, SyncStateStore } from './types';
+
+/**
+ * State files the SDK keeps in the target directory (the manifest, release metadata) start with this.
+ * They are never served by ContentRequestHandler, and the netlify and nginx redirect outputs block them.
+ */
+export const STATE_FILE_PREFIX = '.seotrove-';
+
+export const MANIFEST_FILE_NAME = `${STATE_FILE_PREFIX}manifest.json`;
+
+export function hashContent(content: StorageContent): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+export function createEmptyManifest(domain: string): SyncManifest {
+    return { version: 1, domain, files: {} };
+}
+
+function parseManifest(raw: string, location: string): SyncManifest {
+    try {
+        const manifest = JSON.parse(raw) as SyncManifest;
+        if (manifest.version !== 1 || typeof manifest.files !== 'object' || manifest.files === null) {
+            throw new Error('unsupported manifest format');
+        }
+        return manifest;
+    } catch (error) {
+        throw new Error(`Invalid sync manifest at ${location}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+}
+
+/**
+ * Stores the sync manifest as a JSON file at an explicit path
+ */
+export class FileStateStore implements SyncStateStore {
+    constructor(private filePath: string) {}
+
+    static forDirectory(targetDirectory: string): FileStateStore {
+        return new FileStateStore(path.join(path.resolve(targetDirectory), MANIFEST_FILE_NAME));
+    }
+
+    async load(): Promise<SyncManifest | null> {
+        if (!(await FileManager.fileExists(this.filePath))) {
+            return null;
+        }
+        return parseManifest(await FileManager.readFile(this.filePath), this.filePath);
+    }
+
+    async save(manifest: SyncManifest): Promise<void> {
+        await FileManager.writeFileAtomic(this.filePath, JSON.stringify(manifest, null, 2));
+    }
+}
+
+/**
+ * Stores the sync manifest next to the synced content in a storage adapter - the default
+ */
+export class StorageStateStore implements SyncStateStore {
+    constructor(private storage: StorageAdapter, private key: string = MANIFEST_FILE_NAME) {}
+
+    async load(): Promise<SyncManifest | null> {
+        const raw = await this.storage.read(this.key);
+        return raw === null ? null : parseManifest(raw, this.key);
+    }
+
+    async save(manifest: SyncManifest): Promise<void> {
+        await this.storage.write(this.key, JSON.stringify(manifest, null, 2));
+    }
+}
+
+/**
+ * Keeps the sync manifest in memory only - state is lost when the process exits
+ */
+export class MemoryStateStore implements SyncStateStore {
+    private manifest: SyncManifest | null = null;
+
+    async load(): Promise<SyncManifest | null> {
+        return this.manifest ? structuredClone(this.manifest) : null;
+    }
+
+    async save(manifest: SyncManifest): Promise<void> {
+        this.manifest = structuredClone(manifest);
+    }
+}
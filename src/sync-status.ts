@@ -0,0 +1,154 @@
+import { Counter, Histogram, MetricFamily, MetricSample } from './metrics';
+import { FetcherHealth, FetcherStatus, HealthOptions, SyncCounts, SyncOperation, SyncResult } from './types';
+
+const DEFAULT_MAX_CONSECUTIVE_FAILURES = 3;
+
+// Seconds - syncs range from a few unchanged pages to full rewrites of large sites
+const SYNC_DURATION_BUCKETS = [0.5, 1, 5, 10, 30, 60, 120, 300, 600, 1800];
+const API_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+type SyncOutcome = 'success' | 'failure' | 'skipped' | 'aborted';
+
+function emptyCounts(): SyncCounts {
+    return { created: 0, updated: 0, unchanged: 0, deleted: 0, skipped: 0, errors: 0 };
+}
+
+function countResult(result: SyncResult): SyncCounts {
+    return {
+        created: result.filesCreated.length,
+        updated: result.filesUpdated?.length || 0,
+        unchanged: result.filesUnchanged?.length || 0,
+        deleted: result.filesDeleted?.length || 0,
+        skipped: result.filesSkipped?.length || 0,
+        errors: result.errors?.length || 0
+    };
+}
+
+function getOutcome(result: SyncResult): SyncOutcome {
+    if (result.skipped) {
+        return 'skipped';
+    }
+    if (result.aborted) {
+        return 'aborted';
+    }
+    return result.success ? 'success' : 'failure';
+}
+
+/**
+ * In-memory record of a fetcher's finished syncs: the status snapshot and the counters behind
+ * its Prometheus metrics. Dry runs are not recorded.
+ */
+export class SyncStatusTracker {
+    private trackingSince: Date = new Date();
+    private lastSyncAt: Date | null = null;
+    private lastSuccessAt: Date | null = null;
+    private lastFailureAt: Date | null = null;
+    private consecutiveFailures: number = 0;
+    private lastDurationMs: number | null = null;
+    private lastResult: SyncResult | null = null;
+    private totalCounts: SyncCounts = emptyCounts();
+    private syncs: Counter = new Counter();
+    private files: Counter = new Counter();
+    private errors: Counter = new Counter();
+    private syncDuration: Histogram = new Histogram(SYNC_DURATION_BUCKETS);
+    private apiLatency: Histogram = new Histogram(API_LATENCY_BUCKETS);
+
+    record(operation: SyncOperation, result: SyncResult, durationMs: number): void {
+        const now = new Date();
+        const outcome = getOutcome(result);
+        this.syncs.inc({ operation, outcome });
+        for (const attempt of result.attempts || []) {
+            this.apiLatency.observe({ status: attempt.status !== undefined ? String(attempt.status) : 'error' }, attempt.durationMs / 1000);
+        }
+        if (outcome === 'skipped') {
+            return;
+        }
+
+        const counts = countResult(result);
+        for (const name of ['created', 'updated', 'unchanged', 'deleted', 'skipped'] as const) {
+            this.totalCounts[name] += counts[name];
+            if (counts[name] > 0) {
+                this.files.inc({ outcome: name }, counts[name]);
+            }
+        }
+        this.totalCounts.errors += counts.errors;
+        if (counts.errors > 0) {
+            this.errors.inc({ operation }, counts.errors);
+        }
+        this.syncDuration.observe({ operation }, durationMs / 1000);
+
+        this.lastSyncAt = now;
+        this.lastDurationMs = durationMs;
+        this.lastResult = result;
+        if (outcome === 'success') {
+            this.lastSuccessAt = now;
+            this.consecutiveFailures = 0;
+        } else if (outcome === 'failure') {
+            this.lastFailureAt = now;
+            this.consecutiveFailures++;
+        }
+    }
+
+    getStatus(): Omit<FetcherStatus, 'domain' | 'running' | 'nextRunAt' | 'circuitState'> {
+        return {
+            trackingSince: this.trackingSince.toISOString(),
+            lastSyncAt: this.lastSyncAt?.toISOString() || null,
+            lastSuccessAt: this.lastSuccessAt?.toISOString() || null,
+            lastFailureAt: this.lastFailureAt?.toISOString() || null,
+            consecutiveFailures: this.consecutiveFailures,
+            lastDurationMs: this.lastDurationMs,
+            lastResult: this.lastResult,
+            lastCounts: this.lastResult ? countResult(this.lastResult) : null,
+            totalCounts: { ...this.totalCounts }
+        };
+    }
+
+    /**
+     * Metric families for this fetcher, without fetcher or domain labels
+     */
+    getMetricFamilies(status: FetcherStatus): MetricFamily[] {
+        const gauge = (value: number): MetricSample[] => [{ labels: {}, value }];
+        const timestamp = (iso: string | null): MetricSample[] => iso ? gauge(Date.parse(iso) / 1000) : [];
+
+        return [
+            { name: 'seotrove_syncs_total', help: 'Finished syncs by operation and outcome', type: 'counter', samples: this.syncs.samples() },
+            { name: 'seotrove_sync_duration_seconds', help: 'Duration of syncs that ran', type: 'histogram', bounds: SYNC_DURATION_BUCKETS, samples: this.syncDuration.samples() },
+            { name: 'seotrove_files_synced_total', help: 'Files created, updated, left unchanged, deleted or skipped by syncs', type: 'counter', samples: this.files.samples() },
+            { name: 'seotrove_sync_errors_total', help: 'Errors reported by syncs', type: 'counter', samples: this.errors.samples() },
+            { name: 'seotrove_api_request_duration_seconds', help: 'SEOTrove API request attempts by response status', type: 'histogram', bounds: API_LATENCY_BUCKETS, samples: this.apiLatency.samples() },
+            { name: 'seotrove_last_success_timestamp_seconds', help: 'When the last successful sync finished', type: 'gauge', samples: timestamp(status.lastSuccessAt) },
+            { name: 'seotrove_last_failure_timestamp_seconds', help: 'When the last failed sync finished', type: 'gauge', samples: timestamp(status.lastFailureAt) },
+            { name: 'seotrove_consecutive_failures', help: 'Failed syncs since the last successful one', type: 'gauge', samples: gauge(status.consecutiveFailures) },
+            { name: 'seotrove_sync_running', help: 'Whether a sync is in flight', type: 'gauge', samples: gauge(status.running ? 1 : 0) },
+            { name: 'seotrove_next_run_timestamp_seconds', help: 'When the next scheduled sync runs', type: 'gauge', samples: timestamp(status.nextRunAt) }
+        ];
+    }
+}
+
+/**
+ * Judge a fetcher's status against the health thresholds
+ */
+export function getFetcherHealth(status: FetcherStatus, options: HealthOptions = {}, now: number = Date.now()): FetcherHealth {
+    const reasons: string[] = [];
+    const maxFailures = options.maxConsecutiveFailures ?? DEFAULT_MAX_CONSECUTIVE_FAILURES;
+    if (status.consecutiveFailures >= maxFailures) {
+        reasons.push(`${status.consecutiveFailures} consecutive failed syncs`);
+    }
+    if (options.maxSuccessAgeMs !== undefined) {
+        // A fetcher that never succeeded is judged from when tracking began
+        const since = Date.parse(status.lastSuccessAt || status.trackingSince);
+        if (now - since > options.maxSuccessAgeMs) {
+            reasons.push(status.lastSuccessAt
+                ? `no successful sync since ${status.lastSuccessAt}`
+                : `no successful sync since tracking began at ${status.trackingSince}`);
+        }
+    }
+    return {
+        healthy: reasons.length === 0,
+        reasons,
+        lastSuccessAt: status.lastSuccessAt,
+        lastFailureAt: status.lastFailureAt,
+        consecutiveFailures: status.consecutiveFailures,
+        nextRunAt: status.nextRunAt
+    };
+}
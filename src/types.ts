@@ -1,7 +1,13 @@
+import type { ContentFetcher } from './content-fetcher';
+import type { ContentScheduler } from './scheduler';
+
 export interface ContentApiResponse {
     sitemapXml: string;
     robotTxt: string;
     pages: ContentPage[];
+    nextCursor?: string | null;             // Paginated responses: more pages follow, request them with `cursor`
+    page?: number;                          // Paginated responses: this batch's number, with totalPages
+    totalPages?: number;
 }
 
 export interface ContentPage {
@@ -9,15 +15,526 @@ export interface ContentPage {
     html: string;
 }
 
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface TransportConfig {
+    fetch?: FetchFunction;                  // Custom fetch implementation (defaults to global fetch)
+    headers?: Record<string, string>;       // Extra headers sent with every request
+    authToken?: string;                     // Sent as `Authorization: Bearer <token>`
+    dispatcher?: unknown;                   // undici Dispatcher / ProxyAgent for the global fetch
+    agent?: unknown;                        // http(s).Agent for node-fetch compatible implementations
+}
+
+export interface RetryConfig {
+    maxRetries?: number;                    // Retries after the first attempt (default: 3)
+    baseDelayMs?: number;                   // Initial backoff delay (default: 500)
+    maxDelayMs?: number;                    // Upper bound for a single backoff or Retry-After wait (default: 30000)
+    jitter?: boolean;                       // Randomize backoff delays - "full jitter" (default: true)
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+    failureThreshold?: number;              // Consecutive failed requests before opening (default: 5)
+    resetTimeoutMs?: number;                // Time before a trial request is allowed again (default: 60000)
+}
+
+export interface RequestAttempt {
+    url: string;                            // Request URL without query string
+    attempt: number;                        // 1-based attempt number
+    status?: number;
+    error?: string;
+    durationMs: number;
+    retryDelayMs?: number;                  // Wait before the next attempt, when one follows
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Structured logger. winston-style loggers (`logger.info(message, meta)`) can be passed as is;
+ * wrap pino-style loggers, which take the fields first, with fromPino().
+ */
+export interface Logger {
+    debug(message: string, fields?: LogFields): void;
+    info(message: string, fields?: LogFields): void;
+    warn(message: string, fields?: LogFields): void;
+    error(message: string, fields?: LogFields): void;
+}
+
+export interface ManifestEntry {
+    hash: string;                           // sha256 of the written content
+    lastSyncedAt: string;                   // ISO timestamp of the last write or verification
+    lastModifiedAt?: string;                // ISO timestamp of the last write that changed the content
+    urlPath?: string;                       // Source urlPath for page files
+    title?: string;                         // Page title and description, recorded for the content collection and redirects
+    description?: string;
+    sourceHash?: string;                    // sha256 of the page HTML as the API returned it, recorded to detect moved pages
+}
+
+export interface SyncManifest {
+    version: 1;
+    domain: string;
+    firstSyncCompletedAt?: string;
+    lastSyncAt?: string;
+    files: Record<string, ManifestEntry>;   // Keyed by POSIX path relative to targetDirectory
+    redirects?: Record<string, RedirectHistoryEntry>;   // Detected redirects, keyed by the old URL path
+    sitemapLocs?: string[];                 // URLs SEOTrove added to a merged sitemap, removed again once it stops publishing them
+}
+
+export interface SyncStateStore {
+    load(): Promise<SyncManifest | null>;
+    save(manifest: SyncManifest): Promise<void>;
+}
+
+/**
+ * Backend the fetcher writes through. Keys are POSIX paths relative to the storage root,
+ * e.g. `blog/post.html`.
+ */
+export type StorageContent = string | Uint8Array;
+
+export interface StorageAdapter {
+    write(key: string, content: StorageContent): Promise<void>;
+    read(key: string): Promise<string | null>;  // null when the key doesn't exist
+    readBytes(key: string): Promise<Uint8Array | null>;  // Raw content, for binary files such as .xml.gz
+    exists(key: string): Promise<boolean>;
+    list(prefix?: string): Promise<string[]>;
+    delete(key: string): Promise<void>;
+    rename(fromKey: string, toKey: string): Promise<void>;  // Atomic where the backend supports it
+}
+
+export interface S3StorageConfig {
+    bucket: string;
+    region?: string;                        // Default: us-east-1
+    endpoint?: string;                      // e.g. http://localhost:9000 for MinIO
+    prefix?: string;                        // Key prefix inside the bucket
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+    forcePathStyle?: boolean;               // Default: true when `endpoint` is set
+    fetch?: FetchFunction;
+}
+
+export interface SitemapOptions {
+    mode?: 'overwrite' | 'merge' | 'index'; // Default: overwrite
+    fileName?: string;                      // SEOTrove sitemap in index mode (default: seotrove-sitemap.xml)
+    indexFileName?: string;                 // Sitemap index in index mode (default: sitemap.xml)
+    siteUrl?: string;                       // Base URL for sitemap URLs (default: https://<domain>)
+    generate?: 'never' | 'fallback' | 'always'; // Build the sitemap from synced pages; `fallback` only when the API sends none (default: never)
+    priority?: number | ((urlPath: string) => number | undefined);
+    gzip?: boolean;                         // Gzip generated sitemap files (sitemap.xml becomes an index)
+    maxUrlsPerFile?: number;                // Split threshold for generated sitemaps (default/max: 50000)
+    maxBytesPerFile?: number;               // Split threshold for generated sitemaps (default/max: 50MB)
+}
+
+export interface RobotsOptions {
+    mode?: 'overwrite' | 'block';           // `block` only manages a delimited SEOTrove section (default: overwrite)
+}
+
+export interface PageTransformContext {
+    domain: string;
+    siteUrl: string;                        // sitemap.siteUrl or https://<domain>, without trailing slash
+    key: string;                            // Storage key the page is written to, e.g. blog/post.html
+    canonicalUrl: string;
+}
+
+export type PageTransformer = (html: string, page: ContentPage, context: PageTransformContext) => string | Promise<string>;
+
+export interface TransformConfig {
+    layout?: string;                        // Template with {{content}}, {{title}}, {{description}}, {{head}}, {{canonicalUrl}}, {{urlPath}}, {{domain}}
+    layoutFile?: string;                    // Or read the template from this file at every sync
+    headTags?: string[] | ((page: ContentPage, context: PageTransformContext) => string[] | Promise<string[]>);
+    canonical?: boolean;                    // Add <link rel="canonical"> unless the page has one
+    rewriteLink?: (href: string, context: PageTransformContext) => string | undefined;  // Internal <a href> only; undefined keeps the link
+    transformers?: PageTransformer[];       // Run last, in order
+}
+
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+export type AuditRule =
+    | 'missing-title'
+    | 'duplicate-title'
+    | 'missing-description'
+    | 'duplicate-description'
+    | 'missing-canonical'
+    | 'hreflang'
+    | 'missing-h1'
+    | 'multiple-h1'
+    | 'broken-link'
+    | 'sitemap-entry-without-page'
+    | 'page-missing-from-sitemap';
+
+export interface AuditConfig {
+    failOn?: AuditSeverity | 'never';       // Fail the sync when an issue of this severity or worse is found (default: never)
+    rules?: Partial<Record<AuditRule, AuditSeverity | 'off'>>;  // Override rule severities or turn rules off
+    ignoreLinks?: Array<string | RegExp>;   // Internal links not checked by broken-link (strings are path prefixes)
+}
+
+export interface AuditIssue {
+    rule: AuditRule;
+    severity: AuditSeverity;
+    message: string;
+    file?: string;                          // Storage key of the page the issue was found in
+    url?: string;                           // Sitemap URL or link target the issue is about
+}
+
+export interface AuditReport {
+    pagesAudited: number;
+    issues: AuditIssue[];
+    counts: Record<AuditSeverity, number>;
+    failed: boolean;                        // An issue reached the configured failOn severity
+}
+
+export type OutputFormat = 'html' | 'clean-urls' | 'markdown' | 'mdx';
+
+export interface OutputConfig {
+    format?: OutputFormat;                  // Default: html (<urlPath>.html)
+    collection?: boolean | string;          // Write a JSON content collection; a string sets its file name (default: seotrove-content.json)
+    collectionContent?: boolean;            // Include each page's file content in the collection
+}
+
+export type RedirectFormat = 'netlify' | 'vercel' | 'nginx' | 'json';
+
+export interface RedirectConfig {
+    formats?: RedirectFormat[];             // Files to write (default: ['json'])
+    fileNames?: Partial<Record<RedirectFormat, string>>;    // Storage keys (defaults: _redirects, vercel.json, seotrove-redirects.conf, seotrove-redirects.json)
+    status?: 301 | 302 | 307 | 308;         // Status of redirects to moved pages (default: 301)
+    removed?: 'gone' | 'ignore';            // Pruned pages that didn't move get a 410 Gone entry (default: gone)
+    rules?: RedirectRule[];                 // Your own entries - they win over detected ones
+    gonePage?: string;                      // Page Netlify serves with 410 responses (default: /404.html)
+}
+
+export interface RedirectRule {
+    from: string;                           // URL path, e.g. /old-pricing
+    to?: string;                            // Path or absolute URL - omit for 410 Gone
+    status?: number;                        // Default: RedirectConfig.status, or 410 without `to`
+}
+
+export interface Redirect {
+    from: string;                           // URL path without trailing slash or .html
+    to?: string;                            // Omitted for 410 Gone
+    status: number;
+}
+
+export interface RedirectHistoryEntry {
+    to?: string;                            // Omitted for 410 Gone
+    status: number;
+    reason: 'moved' | 'removed';
+    createdAt: string;                      // ISO timestamp of the sync that detected it
+}
+
+export interface InvalidationRequest {
+    domain: string;
+    paths: string[];                        // URL paths that changed, without trailing slash or .html (e.g. /blog/post, /sitemap.xml)
+    files: string[];                        // Storage keys created, updated or deleted by the sync
+    signal?: AbortSignal;                   // Aborted when the sync is cancelled or the fetcher shuts down
+}
+
+export interface CacheInvalidator {
+    readonly name: string;                  // Reported in SyncResult.invalidation
+    invalidate(request: InvalidationRequest): Promise<void>;    // Throw to report a failure
+}
+
+export interface InvalidationResult {
+    invalidator: string;
+    success: boolean;
+    paths: number;                          // Number of paths passed to the invalidator
+    durationMs: number;
+    error?: string;
+}
+
+export interface NextRevalidateOptions {
+    name?: string;                          // Default: nextjs
+    revalidatePath?: (path: string) => unknown;  // `revalidatePath` from next/cache, when syncing inside the Next.js server
+    url?: string;                           // Or a revalidate route, sent POST { paths: string[] }
+    secret?: string;                        // Sent as `Authorization: Bearer <secret>`
+    headers?: Record<string, string>;
+    batchSize?: number;                     // Paths per request (default: 100)
+    timeoutMs?: number;                     // Per request (default: 10000)
+    fetch?: FetchFunction;
+}
+
+export interface HttpPurgeOptions {
+    name?: string;                          // Default: http-purge
+    url: string;                            // Purge endpoint; with a {path} placeholder one request is sent per path
+    method?: string;                        // Default: POST, or PURGE with {path}
+    headers?: Record<string, string>;
+    body?: (paths: string[], request: InvalidationRequest) => unknown;  // JSON body of batch requests (default: { domain, paths })
+    batchSize?: number;                     // Paths per batch request (default: 100)
+    concurrency?: number;                   // Per-path requests in flight (default: 4)
+    timeoutMs?: number;                     // Per request (default: 10000)
+    fetch?: FetchFunction;
+}
+
+export interface TriggerFileOptions {
+    name?: string;                          // Default: trigger-file
+    file: string;                           // Rewritten after every sync that changed files
+    format?: 'json' | 'timestamp';          // { domain, syncedAt, paths } or just the ISO time (default: json)
+}
+
+export type CacheInvalidatorOptions =
+    | ({ type: 'nextjs' } & NextRevalidateOptions)
+    | ({ type: 'http' } & HttpPurgeOptions)
+    | ({ type: 'trigger-file' } & TriggerFileOptions);
+
+export interface ReleaseConfig {
+    directory?: string;                     // Where releases are kept (default: <targetDirectory>.releases)
+    keep?: number;                          // Number of releases to keep, including the active one (default: 5)
+}
+
+export interface ReleaseInfo {
+    id: string;
+    path: string;
+    createdAt: string;
+    active: boolean;
+}
+
+export interface SyncLock {
+    release(): Promise<void>;
+}
+
+export interface LockProvider {
+    acquire(key: string): Promise<SyncLock | null>;    // null when another instance holds the lock
+    getHolder?(key: string): Promise<string | null>;    // Human-readable holder description for skip messages
+}
+
+export interface FileLockOptions {
+    staleMs?: number;                       // A lock not renewed for this long can be taken over (default: 60000)
+    heartbeatMs?: number;                   // How often a held lock is renewed (default: staleMs / 3)
+    logger?: Logger;                        // Default: console
+}
+
+export interface LockConfig {
+    directory?: string;                     // Where the lock file is kept (default: <targetDirectory>.locks)
+    staleMs?: number;                       // See FileLockOptions
+    heartbeatMs?: number;
+}
+
+export interface ScheduleConfig {
+    cron?: string;                          // 5-field cron expression or @hourly/@daily/...; takes precedence over intervalMs
+    intervalMs?: number;                    // Default: 24 hours
+    jitterMs?: number;                      // Random delay of up to this many ms added to every run
+    overlap?: 'skip' | 'queue';             // When a run is due while the previous one is in flight (default: skip)
+    runOnStart?: boolean;                   // Sync immediately when the scheduler starts (default: true)
+}
+
+export interface ScheduleInfo {
+    active: boolean;
+    running: boolean;
+    cron?: string;
+    intervalMs?: number;
+    nextRunAt: string | null;
+    lastRunAt: string | null;
+    lastFinishedAt: string | null;
+    lastResult: SyncResult | null;
+    skippedRuns: number;                    // Runs skipped because the previous sync was still in flight
+}
+
+export interface SyncCounts {
+    created: number;
+    updated: number;
+    unchanged: number;
+    deleted: number;
+    skipped: number;                        // Vetoed by beforePageWrite
+    errors: number;
+}
+
+export interface FetcherStatus {
+    domain: string;
+    running: boolean;                       // A sync is in flight
+    trackingSince: string;                  // When this fetcher was created - status is kept in memory
+    lastSyncAt: string | null;              // When the last sync finished, successful or not
+    lastSuccessAt: string | null;
+    lastFailureAt: string | null;
+    consecutiveFailures: number;            // Failed syncs since the last successful one - skipped and aborted syncs don't count
+    lastDurationMs: number | null;
+    lastResult: SyncResult | null;
+    lastCounts: SyncCounts | null;          // File counts of the last sync
+    totalCounts: SyncCounts;                // File counts of every sync since trackingSince
+    nextRunAt: string | null;               // Next scheduled sync, null when no scheduler is running
+    circuitState: CircuitState | null;
+}
+
+export interface HealthOptions {
+    maxConsecutiveFailures?: number;        // Unhealthy at this many failed syncs in a row (default: 3)
+    maxSuccessAgeMs?: number;               // Unhealthy when there was no successful sync for this long
+}
+
+export interface FetcherHealth {
+    healthy: boolean;
+    reasons: string[];                      // Why the fetcher is unhealthy
+    lastSuccessAt: string | null;
+    lastFailureAt: string | null;
+    consecutiveFailures: number;
+    nextRunAt: string | null;
+}
+
+export interface HealthReport {
+    healthy: boolean;                       // Every fetcher is healthy
+    checkedAt: string;
+    fetchers: Record<string, FetcherHealth>;
+}
+
 export interface ContentFetcherConfig {
     domain: string;
     installId: string;
     targetDirectory: string;
+    baseUrl?: string;                       // Defaults to https://api.seotrove.com/api/v1/sdk
+    transport?: TransportConfig;
+    timeoutMs?: number;                     // Per-attempt request timeout (default: 30000)
+    retry?: RetryConfig | false;            // `false` disables retries
+    circuitBreaker?: CircuitBreakerConfig | false;  // `false` disables the circuit breaker
+    storage?: StorageAdapter;               // Defaults to the local filesystem at targetDirectory
+    stateStore?: SyncStateStore;            // Defaults to .seotrove-manifest.json in storage
+    releases?: ReleaseConfig;               // Enables atomic releases - targetDirectory becomes a symlink
+    sitemap?: SitemapOptions;
+    robots?: RobotsOptions;
+    schedule?: ScheduleConfig;              // Used by startScheduler() and ContentScheduler
+    lock?: LockProvider | LockConfig | boolean; // `true` or a LockConfig uses a FileLockProvider, by default in <targetDirectory>.locks
+    hooks?: SyncHooks;                      // Lifecycle listeners, same as calling fetcher.on() for each
+    transform?: TransformConfig;            // Applied to every page after beforePageWrite listeners
+    output?: OutputConfig;
+    audit?: AuditConfig | boolean;          // SEO audit of the synced pages, reported in SyncResult.audit
+    redirects?: RedirectConfig | boolean;   // Redirect maps for pages that moved or were removed, updated after every sync
+    invalidators?: CacheInvalidator[];      // Told which paths changed after every sync that wrote or deleted files
+    onInvalidPage?: 'quarantine' | 'reject';    // Skip pages that fail validation, or reject the whole response (default: quarantine)
+    concurrency?: number;                   // Pages written in parallel (default: 4)
+    streaming?: boolean;                    // Parse responses incrementally and write pages as they arrive (default: false)
+    pageSize?: number;                      // Ask the API for batches of this many pages, sent as `limit`
+    logger?: Logger;                        // Default: console
+    logLevel?: LogLevel | 'silent';         // Default: info
+}
+
+export interface S3StorageOptions extends S3StorageConfig {
+    type: 's3';
+}
+
+export interface SiteConfig extends Omit<ContentFetcherConfig, 'storage' | 'invalidators'> {
+    storage?: StorageAdapter | S3StorageOptions;    // An adapter, or S3 settings for JSON/YAML config files
+    invalidators?: Array<CacheInvalidator | CacheInvalidatorOptions>;  // Instances, or built-in settings for JSON/YAML config files
+}
+
+export interface SeoTroveConfig {
+    sites?: Record<string, SiteConfig>;     // Keyed by fetcher id
+    defaults?: Partial<SiteConfig>;         // Shared by every site - site values win, nested objects are merged
+    logLevel?: LogLevel | 'silent';         // Scheduler log level, inherited by sites that don't set one
+}
+
+export interface ContentSchedulerOptions {
+    logger?: Logger;                        // Used by the scheduler and by fetchers that don't set their own
+    logLevel?: LogLevel | 'silent';         // Default: info
+}
+
+export interface ContentHandlerOptions {
+    fetcher?: ContentFetcher;               // Serve what this fetcher writes, from its storage and state store
+    targetDirectory?: string;               // Or serve a local directory synced by another process
+    storage?: StorageAdapter;               // Or any storage adapter
+    stateStore?: SyncStateStore;            // Manifest location when it isn't stored alongside the content
+    cacheControl?: string;                  // Default: public, max-age=0, must-revalidate
+    manifestTtlMs?: number;                 // How long a loaded manifest is reused (default: 5000)
+    redirectMap?: string | false;           // JSON redirect map to answer 301/410 from (default: seotrove-redirects.json)
+}
+
+export interface WebhookHandlerOptions {
+    scheduler: ContentScheduler;            // Fetchers are matched by the payload's domain/installId
+    secret: string | string[];              // Shared signing secret; several are accepted during rotation
+    toleranceMs?: number;                   // Max age of a signed timestamp (default: 300000)
+    debounceMs?: number;                    // Bursts of events for one fetcher trigger a single sync (default: 2000)
+    maxBodyBytes?: number;                  // Default: 1MB
+    logger?: Logger;                        // Default: console
+    logLevel?: LogLevel | 'silent';         // Default: info
+}
+
+export interface HealthHandlerOptions extends HealthOptions {
+    scheduler: ContentScheduler;
+}
+
+export interface WebhookPayload {
+    event?: string;                         // e.g. "content.published"
+    domain?: string;
+    installId?: string;
+}
+
+export type SyncOperation = 'sync' | 'syncNewContent' | 'syncPreviousContent' | 'syncAllContent';
+
+export interface SyncEventMap {
+    syncStart: { domain: string; operation: SyncOperation };
+    contentFetched: { domain: string; operation: SyncOperation; content: ContentApiResponse };
+    beforePageWrite: { domain: string; page: ContentPage; key: string };
+    pageWritten: { domain: string; page: ContentPage; key: string; outcome: 'created' | 'updated' | 'unchanged' };
+    syncComplete: { domain: string; operation: SyncOperation; result: SyncResult; durationMs: number };
+    syncError: { domain: string; operation: SyncOperation; error: Error; result: SyncResult; durationMs: number };
+}
+
+export type SyncEventName = keyof SyncEventMap;
+
+// Return false to skip the page, or a page to write instead of the fetched one
+export type BeforePageWriteResult = void | false | ContentPage;
+
+export type SyncEventListener<E extends SyncEventName> = (
+    event: SyncEventMap[E]
+) => E extends 'beforePageWrite' ? BeforePageWriteResult | Promise<BeforePageWriteResult> : void | Promise<void>;
+
+// ContentScheduler listeners also receive the id of the fetcher that emitted the event
+export type SchedulerEventListener<E extends SyncEventName> = (
+    event: SyncEventMap[E] & { id: string }
+) => ReturnType<SyncEventListener<E>>;
+
+export type SyncHooks = { [E in SyncEventName]?: SyncEventListener<E> };
+
+export interface SyncOptions {
+    dryRun?: boolean;                       // Fetch and plan the sync without writing anything - see SyncResult.plan
+    signal?: AbortSignal;                   // Cancels the sync - pages already written are kept, see SyncResult.aborted
+}
+
+export interface ShutdownOptions {
+    timeoutMs?: number;                     // Time in-flight syncs get to finish before they are aborted (default: 30000)
+}
+
+export interface ShutdownResult {
+    syncs: number;                          // Syncs in flight when shutdown started
+    aborted: number;                        // Of those, syncs that had to be aborted
+    durationMs: number;
+}
+
+export interface SyncAllContentOptions extends SyncOptions {
+    prune?: boolean;                        // Delete SDK-written pages the API no longer returns
+    maxPrunePercent?: number;               // Abort pruning if more than this % of tracked pages would go (default: 50)
+}
+
+export type PlannedAction = 'create' | 'update' | 'unchanged' | 'delete';
+
+export interface PlannedFile {
+    key: string;                            // Storage key, e.g. blog/post.html
+    action: PlannedAction;
+    bytes: number;                          // Size after the sync (0 for deletes)
+    previousBytes?: number;                 // Current size, for updates and deletes
+    diff?: string;                          // Unified diff of an update (not for binary files such as .xml.gz)
+}
+
+export interface SyncPlan {
+    files: PlannedFile[];                   // Sorted by key
+    counts: Record<PlannedAction, number>;
 }
 
 export interface SyncResult {
     success: boolean;
     message: string;
     filesCreated: string[];
+    filesUpdated?: string[];                // Existing files whose content changed
+    filesUnchanged?: string[];              // Files skipped because their content hash matched the manifest
+    filesDeleted?: string[];                // Pages pruned because the API no longer returns them
+    filesSkipped?: string[];                // Pages vetoed by a beforePageWrite listener
+    release?: string;                       // Id of the release activated by this sync (release mode only)
+    skipped?: boolean;                      // Not run because another instance holds the sync lock, or the fetcher is shutting down
+    aborted?: boolean;                      // Cancelled through SyncOptions.signal or shutdown() before it finished
+    audit?: AuditReport;
+    redirects?: Redirect[];                 // Redirects and 410 Gone entries added for pages this sync moved or removed
+    invalidation?: InvalidationResult[];    // One per configured invalidator, when the sync changed files
+    dryRun?: boolean;                       // Nothing was written - see plan
+    plan?: SyncPlan;                        // What a dry run would change
     errors?: string[];
+    failures?: Error[];                     // Error objects behind `errors`, in the same order - ApiError, ValidationError, WriteError, ...
+    attempts?: RequestAttempt[];            // Request/retry history of the API calls made during the sync
 }
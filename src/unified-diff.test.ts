@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { createUnifiedDiff } from './unified-diff';
+
+describe('createUnifiedDiff', () => {
+    it('is empty for equal texts', () => {
+        expect(createUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('');
+    });
+
+    it('writes hunks with context and diff -u line ranges', () => {
+        const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'x', ''].join('\n');
+        const newText = ['1', 'two', '3', '4', '5', '6', '7', '8', '9', '10', ''].join('\n');
+
+        expect(createUnifiedDiff(oldText, newText, { fromFile: 'old.html', toFile: 'new.html', context: 1 })).toBe([
+            '--- old.html',
+            '+++ new.html',
+            '@@ -1,3 +1,3 @@',
+            ' 1',
+            '-2',
+            '+two',
+            ' 3',
+            '@@ -10,2 +10 @@',
+            ' 10',
+            '-x',
+            ''
+        ].join('\n'));
+    });
+
+    it('numbers an empty range after the line it follows', () => {
+        expect(createUnifiedDiff('', 'a\n')).toBe('--- a\n+++ b\n@@ -0,0 +1 @@\n+a\n');
+    });
+
+    it('marks a missing final newline on the old side', () => {
+        expect(createUnifiedDiff('a\nb', 'a\nb\n')).toBe([
+            '--- a',
+            '+++ b',
+            '@@ -1,2 +1,2 @@',
+            ' a',
+            '-b',
+            '\\ No newline at end of file',
+            '+b',
+            ''
+        ].join('\n'));
+    });
+
+    it('marks a missing final newline on the new side', () => {
+        expect(createUnifiedDiff('a\n', 'a\nb')).toBe([
+            '--- a',
+            '+++ b',
+            '@@ -1 +1,2 @@',
+            ' a',
+            '+b',
+            '\\ No newline at end of file',
+            ''
+        ].join('\n'));
+    });
+
+    it('marks an unchanged last line without a newline on both sides', () => {
+        expect(createUnifiedDiff('a\nb', 'x\nb')).toBe([
+            '--- a',
+            '+++ b',
+            '@@ -1,2 +1,2 @@',
+            '-a',
+            '+x',
+            ' b',
+            '\\ No newline at end of file',
+            ''
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,173 @@
+interface DiffLine {
+    type: ' ' | '-' | '+';
+    text: string;
+}
+
+export interface UnifiedDiffOptions {
+    fromFile?: string;                      // Header names (default: a and b)
+    toFile?: string;
+    context?: number;                       // Unchanged lines around each change (default: 3)
+}
+
+// Appended to a last line that has no newline, so it differs from the same line with one
+const NO_NEWLINE = '\n';
+
+// Beyond this many edits the texts are treated as entirely rewritten - Myers' trace grows quadratically
+const MAX_EDIT_DISTANCE = 2000;
+
+function splitLines(text: string): string[] {
+    if (text === '') {
+        return [];
+    }
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    } else {
+        lines[lines.length - 1] += NO_NEWLINE;
+    }
+    return lines;
+}
+
+/**
+ * Myers' O(ND) shortest edit script between two line arrays, or null when more than
+ * MAX_EDIT_DISTANCE edits are needed
+ */
+function diffMiddle(a: string[], b: string[]): DiffLine[] | null {
+    const n = a.length;
+    const m = b.length;
+    const max = n + m;
+    const offset = max + 1;
+    const v = new Int32Array(2 * max + 3);
+    // trace[d] holds v[-d..d] as it was before step d
+    const trace: Int32Array[] = [];
+
+    let found = false;
+    for (let d = 0; d <= Math.min(max, MAX_EDIT_DISTANCE) && !found; d++) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && (v[offset + k - 1] as number) < (v[offset + k + 1] as number))
+                ? v[offset + k + 1] as number
+                : (v[offset + k - 1] as number) + 1;
+            let y = x - k;
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+            if (x >= n && y >= m) {
+                found = true;
+                break;
+            }
+        }
+    }
+    if (!found) {
+        return null;
+    }
+
+    const lines: DiffLine[] = [];
+    let x = n;
+    let y = m;
+    for (let d = trace.length - 1; d > 0; d--) {
+        const previous = trace[d] as Int32Array;
+        const get = (k: number) => previous[k + d] as number;
+        const k = x - y;
+        const previousK = k === -d || (k !== d && get(k - 1) < get(k + 1)) ? k + 1 : k - 1;
+        const previousX = get(previousK);
+        const previousY = previousX - previousK;
+        const startX = previousK === k + 1 ? previousX : previousX + 1;
+
+        while (x > startX) {
+            lines.push({ type: ' ', text: a[--x] as string });
+            y--;
+        }
+        if (previousK === k + 1) {
+            lines.push({ type: '+', text: b[previousY] as string });
+        } else {
+            lines.push({ type: '-', text: a[previousX] as string });
+        }
+        x = previousX;
+        y = previousY;
+    }
+    while (x > 0) {
+        lines.push({ type: ' ', text: a[--x] as string });
+    }
+    return lines.reverse();
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+    // Page updates usually touch a small part of the file - only diff what lies between the common ends
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const oldMiddle = a.slice(prefix, a.length - suffix);
+    const newMiddle = b.slice(prefix, b.length - suffix);
+    const middle = diffMiddle(oldMiddle, newMiddle) || [
+        ...oldMiddle.map((text): DiffLine => ({ type: '-', text })),
+        ...newMiddle.map((text): DiffLine => ({ type: '+', text }))
+    ];
+
+    return [
+        ...a.slice(0, prefix).map((text): DiffLine => ({ type: ' ', text })),
+        ...middle,
+        ...a.slice(a.length - suffix).map((text): DiffLine => ({ type: ' ', text }))
+    ];
+}
+
+/**
+ * Line-based unified diff, as produced by `diff -u`. Empty when the texts are equal.
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+    if (oldText === newText) {
+        return '';
+    }
+    const context = options.context ?? 3;
+    const lines = diffLines(splitLines(oldText), splitLines(newText));
+
+    // Line numbers before each entry, for hunk headers
+    const oldLine: number[] = [];
+    const newLine: number[] = [];
+    let oldCount = 0;
+    let newCount = 0;
+    for (const line of lines) {
+        oldLine.push(oldCount);
+        newLine.push(newCount);
+        if (line.type !== '+') {
+            oldCount++;
+        }
+        if (line.type !== '-') {
+            newCount++;
+        }
+    }
+
+    const changes = lines.flatMap((line, index) => line.type === ' ' ? [] : [index]);
+    const range = (start: number, length: number) => length === 1 ? `${start}` : `${start},${length}`;
+    const render = (line: DiffLine) => line.text.endsWith(NO_NEWLINE)
+        ? [`${line.type}${line.text.slice(0, -1)}`, '\\ No newline at end of file']
+        : [`${line.type}${line.text}`];
+
+    const output = [`--- ${options.fromFile ?? 'a'}`, `+++ ${options.toFile ?? 'b'}`];
+    let groupStart = 0;
+    for (let i = 1; i <= changes.length; i++) {
+        if (i < changes.length && (changes[i] as number) - (changes[i - 1] as number) <= 2 * context) {
+            continue;
+        }
+        const start = Math.max(0, (changes[groupStart] as number) - context);
+        const end = Math.min(lines.length, (changes[i - 1] as number) + context + 1);
+        const hunk = lines.slice(start, end);
+        const oldLength = hunk.filter(line => line.type !== '+').length;
+        const newLength = hunk.filter(line => line.type !== '-').length;
+        // An empty range is numbered after the line it follows, as in diff -u
+        const oldStart = (oldLine[start] as number) + (oldLength > 0 ? 1 : 0);
+        const newStart = (newLine[start] as number) + (newLength > 0 ? 1 : 0);
+        output.push(`@@ -${range(oldStart, oldLength)} +${range(newStart, newLength)} @@`);
+        output.push(...hunk.flatMap(render));
+        groupStart = i;
+    }
+    return output.join('\n') + '\n';
+}
@@ -0,0 +1,178 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryStorageAdapter } from './memory-storage-adapter';
+import { ContentScheduler } from './scheduler';
+import { FetchFunction } from './types';
+import { SIGNATURE_HEADER, signWebhookPayload, TIMESTAMP_HEADER, WebhookHandler } from './webhook-handler';
+
+const SECRET = 'webhook-secret';
+const silent = { debug: () => undefined, info: () => undefined, warn: () => undefined, error: () => undefined };
+
+function signedRequest(payload: unknown): Request {
+    const body = JSON.stringify(payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return new Request('https://app.test/webhook', {
+        method: 'POST',
+        headers: { [SIGNATURE_HEADER]: signWebhookPayload(SECRET, timestamp, body), [TIMESTAMP_HEADER]: timestamp },
+        body
+    });
+}
+
+function createScheduler(fetch: FetchFunction): ContentScheduler {
+    const scheduler = new ContentScheduler({ logger: silent });
+    scheduler.addFetcher('site', {
+        domain: 'example.com',
+        installId: 'install-1',
+        targetDirectory: '/tmp/unused',
+        storage: new MemoryStorageAdapter(),
+        circuitBreaker: false,
+        logger: silent,
+        transport: { fetch }
+    });
+    return scheduler;
+}
+
+describe('WebhookHandler body limit', () => {
+    it('rejects an oversized Content-Length without reading the body', async () => {
+        let pulled = false;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                pulled = true;
+                controller.close();
+            }
+        }, { highWaterMark: 0 });
+        const handler = new WebhookHandler({ scheduler: new ContentScheduler({ logger: silent }), secret: SECRET, maxBodyBytes: 10, logger: silent });
+
+        const response = await handler.handle(new Request('https://app.test/webhook', {
+            method: 'POST',
+            headers: { 'content-length': '1000' },
+            body,
+            duplex: 'half'
+        } as RequestInit));
+
+        expect(response.status).toBe(413);
+        expect(pulled).toBe(false);
+    });
+
+    it('stops reading a streamed body once it passes the limit', async () => {
+        let chunks = 0;
+        const body = new ReadableStream<Uint8Array>({
+            pull(controller) {
+                chunks++;
+                controller.enqueue(new Uint8Array(8));
+            }
+        });
+        const handler = new WebhookHandler({ scheduler: new ContentScheduler({ logger: silent }), secret: SECRET, maxBodyBytes: 20, logger: silent });
+
+        const response = await handler.handle(new Request('https://app.test/webhook', { method: 'POST', body, duplex: 'half' } as RequestInit));
+
+        expect(response.status).toBe(413);
+        expect(chunks).toBeLessThan(10);
+    });
+});
+
+describe('WebhookHandler middleware body limit', () => {
+    // Also reports whether the server had torn the request down by the time the response was sent
+    async function post(handler: WebhookHandler, write: (request: http.ClientRequest) => void, headers: http.OutgoingHttpHeaders = {}): Promise<{ status: number; body: string; destroyed: boolean }> {
+        const middleware = handler.middleware();
+        let destroyed = false;
+        const server = http.createServer((req, res) => {
+            res.on('finish', () => {
+                destroyed = req.destroyed;
+            });
+            middleware(req, res);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            return await new Promise((resolve, reject) => {
+                const request = http.request({ port: (server.address() as AddressInfo).port, host: '127.0.0.1', method: 'POST', headers }, response => {
+                    let body = '';
+                    response.setEncoding('utf-8');
+                    response.on('data', chunk => {
+                        body += chunk;
+                    });
+                    response.on('end', () => resolve({ status: response.statusCode || 0, body, destroyed }));
+                });
+                request.on('error', reject);
+                write(request);
+            });
+        } finally {
+            server.closeAllConnections();
+            await new Promise(resolve => server.close(resolve));
+        }
+    }
+
+    it('delivers the 413 for a streamed body over the limit', async () => {
+        const handler = new WebhookHandler({ scheduler: new ContentScheduler({ logger: silent }), secret: SECRET, maxBodyBytes: 1024, logger: silent });
+
+        const response = await post(handler, request => {
+            for (let i = 0; i < 64; i++) {
+                request.write(Buffer.alloc(16 * 1024, 'a'));
+            }
+            request.end();
+        });
+
+        expect(response.status).toBe(413);
+        expect(JSON.parse(response.body)).toEqual({ error: 'Payload too large' });
+        expect(response.destroyed).toBe(false);
+    });
+
+    it('delivers the 413 for an oversized Content-Length', async () => {
+        const handler = new WebhookHandler({ scheduler: new ContentScheduler({ logger: silent }), secret: SECRET, maxBodyBytes: 1024, logger: silent });
+        const body = Buffer.alloc(256 * 1024, 'a');
+
+        const response = await post(handler, request => request.end(body), { 'content-length': body.byteLength });
+
+        expect(response.status).toBe(413);
+    });
+});
+
+describe('WebhookHandler syncs', () => {
+    it('queues a sync behind the one still running instead of overlapping it', async () => {
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const pending: Array<() => void> = [];
+        const fetch: FetchFunction = () => {
+            inFlight++;
+            maxInFlight = Math.max(maxInFlight, inFlight);
+            return new Promise(resolve => pending.push(() => {
+                inFlight--;
+                resolve(new Response(JSON.stringify({ pages: [], sitemapXml: '', robotTxt: '' }), { status: 200 }));
+            }));
+        };
+        const scheduler = createScheduler(fetch);
+        const handler = new WebhookHandler({ scheduler, secret: SECRET, debounceMs: 0, logger: silent });
+
+        expect((await handler.handle(signedRequest({ domain: 'example.com', event: 'published' }))).status).toBe(202);
+        await vi.waitFor(() => expect(pending.length).toBeGreaterThan(0));
+        expect((await handler.handle(signedRequest({ domain: 'example.com', event: 'published', id: 2 }))).status).toBe(202);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        const firstSyncRequests = pending.length;
+
+        pending.splice(0).forEach(release => release());
+        await vi.waitFor(() => expect(pending.length).toBeGreaterThan(0));
+        pending.splice(0).forEach(release => release());
+
+        expect(firstSyncRequests).toBeGreaterThan(0);
+        expect(maxInFlight).toBe(firstSyncRequests);
+        await scheduler.shutdown({ timeoutMs: 1000 });
+    });
+
+    it('runs a new-content sync, even on a fetcher that never synced', async () => {
+        const urls: string[] = [];
+        const fetch: FetchFunction = async url => {
+            urls.push(url);
+            return new Response(JSON.stringify({ pages: [], sitemapXml: '', robotTxt: '' }), { status: 200 });
+        };
+        const scheduler = createScheduler(fetch);
+        const handler = new WebhookHandler({ scheduler, secret: SECRET, debounceMs: 0, logger: silent });
+
+        expect((await handler.handle(signedRequest({ domain: 'example.com', event: 'published' }))).status).toBe(202);
+        await vi.waitFor(() => expect(scheduler.getFetcher('site')?.getStatus().lastSyncAt).toBeTruthy());
+
+        expect(urls).toHaveLength(1);
+        expect(urls[0]).not.toContain('previously-published');
+        await scheduler.shutdown({ timeoutMs: 1000 });
+    });
+});
@@ -0,0 +1,281 @@
+import crypto from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { ScopedLogger } from './logger';
+import type { ContentScheduler } from './scheduler';
+import { WebhookHandlerOptions, WebhookPayload } from './types';
+
+export const SIGNATURE_HEADER = 'x-seotrove-signature';
+export const TIMESTAMP_HEADER = 'x-seotrove-timestamp';
+
+const DEFAULT_TOLERANCE_MS = 5 * 60 * 1000;
+const DEFAULT_DEBOUNCE_MS = 2000;
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024;
+
+interface WebhookResponse {
+    status: number;
+    body: Record<string, unknown>;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+/**
+ * HMAC-SHA256 signature over `<timestamp>.<raw body>`, as sent in the `X-SEOTrove-Signature` header
+ */
+export function signWebhookPayload(secret: string, timestamp: number | string, body: string | Uint8Array): string {
+    const hmac = crypto.createHmac('sha256', secret);
+    hmac.update(`${timestamp}.`);
+    hmac.update(body);
+    return `sha256=${hmac.digest('hex')}`;
+}
+
+export function verifyWebhookSignature(secret: string | string[], timestamp: string, body: string | Uint8Array, signature: string): boolean {
+    const received = Buffer.from(signature.trim());
+    return (Array.isArray(secret) ? secret : [secret]).some(candidate => {
+        const expected = Buffer.from(signWebhookPayload(candidate, timestamp, body));
+        return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+    });
+}
+
+/**
+ * Receives SEOTrove publish webhooks and runs a new-content sync of the matching fetcher of a
+ * ContentScheduler through `triggerSync`. Requests must carry a valid HMAC signature over a recent
+ * timestamp; a signature is accepted only once. Bursts of events for the same fetcher are debounced
+ * into one sync, which is queued behind a sync of that fetcher still in flight.
+ *
+ * Works as Express/Connect middleware or a Node `http` listener (`middleware()`) and with
+ * Web/Next.js route handlers (`handle(request)`).
+ */
+export class WebhookHandler {
+    private scheduler: ContentScheduler;
+    private secrets: string[];
+    private toleranceMs: number;
+    private debounceMs: number;
+    private maxBodyBytes: number;
+    private pending: Map<string, NodeJS.Timeout> = new Map();
+    private seenSignatures: Map<string, number> = new Map();
+    private logger: ScopedLogger;
+
+    constructor(options: WebhookHandlerOptions) {
+        this.secrets = (Array.isArray(options.secret) ? options.secret : [options.secret]).filter(Boolean);
+        if (this.secrets.length === 0) {
+            throw new Error('WebhookHandler needs a signing secret');
+        }
+        this.scheduler = options.scheduler;
+        this.toleranceMs = options.toleranceMs ?? DEFAULT_TOLERANCE_MS;
+        this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+        this.maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+        this.logger = new ScopedLogger({ logger: options.logger, level: options.logLevel, fields: { component: 'WebhookHandler' } });
+    }
+
+    /**
+     * Express/Connect middleware, also usable directly as a Node `http` request listener.
+     * The raw body is needed for signature checks - mount it before body parsers, or use
+     * `express.raw({ type: "application/json" })`.
+     */
+    middleware(): (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => void {
+        return (req, res, next) => {
+            this.readBody(req)
+                .then(body => body === null
+                    ? { status: 413, body: { error: 'Payload too large' } }
+                    : this.process(req.method || 'GET', body, header(req.headers[SIGNATURE_HEADER]), header(req.headers[TIMESTAMP_HEADER])))
+                .then(response => {
+                    res.writeHead(response.status, { 'Content-Type': 'application/json; charset=utf-8' });
+                    res.end(JSON.stringify(response.body));
+                })
+                .catch(error => {
+                    if (next) {
+                        next(error);
+                        return;
+                    }
+                    res.writeHead(500, { 'Content-Type': 'application/json; charset=utf-8' });
+                    res.end(JSON.stringify({ error: 'Internal error' }));
+                });
+        };
+    }
+
+    /**
+     * Web-standard handler for Next.js route handlers and similar runtimes
+     */
+    async handle(request: Request): Promise<Response> {
+        const body = await this.readRequestBody(request);
+        const response = body === null
+            ? { status: 413, body: { error: 'Payload too large' } }
+            : this.process(
+                request.method,
+                body,
+                request.headers.get(SIGNATURE_HEADER) || undefined,
+                request.headers.get(TIMESTAMP_HEADER) || undefined
+            );
+        return Response.json(response.body, { status: response.status });
+    }
+
+    /**
+     * Cancel debounced syncs that haven't started yet
+     */
+    close(): void {
+        for (const timer of this.pending.values()) {
+            clearTimeout(timer);
+        }
+        this.pending.clear();
+    }
+
+    private process(method: string, body: Uint8Array, signature?: string, timestamp?: string): WebhookResponse {
+        if (method !== 'POST') {
+            return { status: 405, body: { error: 'Method not allowed' } };
+        }
+
+        if (!signature || !timestamp) {
+            return { status: 401, body: { error: 'Missing signature' } };
+        }
+        const signedAt = Number(timestamp) * 1000;
+        if (!Number.isFinite(signedAt) || Math.abs(Date.now() - signedAt) > this.toleranceMs) {
+            return { status: 401, body: { error: 'Timestamp outside tolerance' } };
+        }
+        if (!verifyWebhookSignature(this.secrets, timestamp, body, signature)) {
+            return { status: 401, body: { error: 'Invalid signature' } };
+        }
+        if (!this.rememberSignature(signature, signedAt)) {
+            return { status: 409, body: { error: 'Replayed webhook' } };
+        }
+
+        let payload: WebhookPayload;
+        try {
+            payload = JSON.parse(Buffer.from(body).toString('utf-8')) as WebhookPayload;
+        } catch {
+            return { status: 400, body: { error: 'Invalid JSON payload' } };
+        }
+        if (!payload || (typeof payload.domain !== 'string' && typeof payload.installId !== 'string')) {
+            return { status: 400, body: { error: 'Payload needs a domain or installId' } };
+        }
+
+        const fetcherIds = this.findFetchers(payload);
+        if (fetcherIds.length === 0) {
+            // installIds are credentials - only the domain is logged
+            this.logger.info(`No fetcher for ${payload.domain ? `domain ${payload.domain}` : 'the payload installId'}`, { event: payload.event });
+            return { status: 404, body: { error: 'No matching fetcher' } };
+        }
+
+        for (const id of fetcherIds) {
+            this.scheduleSync(id);
+        }
+        this.logger.info(`${payload.event || 'Webhook'} received - sync scheduled for ${fetcherIds.join(', ')}`, { event: payload.event, fetcherIds });
+        return { status: 202, body: { accepted: true, fetchers: fetcherIds } };
+    }
+
+    private findFetchers(payload: WebhookPayload): string[] {
+        return this.scheduler.getActiveFetchers().filter(id => {
+            const config = this.scheduler.getFetcher(id)?.getConfig();
+            if (!config) {
+                return false;
+            }
+            return (payload.domain === undefined || config.domain === payload.domain)
+                && (payload.installId === undefined || config.installId === payload.installId);
+        });
+    }
+
+    private scheduleSync(id: string): void {
+        const existing = this.pending.get(id);
+        if (existing) {
+            clearTimeout(existing);
+        }
+        this.pending.set(id, setTimeout(() => {
+            this.pending.delete(id);
+            this.scheduler.triggerSync(id, fetcher => fetcher.syncNewContentOnly()).catch(error => {
+                this.logger.error(`Sync failed for ${id}`, { fetcherId: id, error });
+            });
+        }, this.debounceMs));
+    }
+
+    /**
+     * Record a signature until its timestamp leaves the tolerance window. Returns false when it was already used.
+     */
+    private rememberSignature(signature: string, signedAt: number): boolean {
+        const now = Date.now();
+        for (const [seen, expiresAt] of this.seenSignatures) {
+            if (expiresAt < now) {
+                this.seenSignatures.delete(seen);
+            }
+        }
+        if (this.seenSignatures.has(signature)) {
+            return false;
+        }
+        this.seenSignatures.set(signature, signedAt + this.toleranceMs);
+        return true;
+    }
+
+    /**
+     * Read the raw body, or null when it is larger than maxBodyBytes. An oversized Content-Length
+     * is rejected before anything is read, and buffering stops as soon as the limit is passed.
+     * The rest of the body is drained rather than destroyed, so the 413 still reaches the client.
+     */
+    private async readBody(req: IncomingMessage): Promise<Uint8Array | null> {
+        // Body already buffered by express.raw() or similar
+        const parsed = (req as IncomingMessage & { body?: unknown }).body;
+        if (Buffer.isBuffer(parsed) || typeof parsed === 'string') {
+            const body = Buffer.from(parsed);
+            return body.byteLength > this.maxBodyBytes ? null : body;
+        }
+        if (parsed !== undefined && req.readableEnded) {
+            throw new Error('WebhookHandler needs the raw request body - mount it before JSON body parsers');
+        }
+        if (Number(header(req.headers['content-length'])) > this.maxBodyBytes) {
+            req.resume();
+            return null;
+        }
+
+        return new Promise((resolve, reject) => {
+            let chunks: Buffer[] | null = [];
+            let size = 0;
+            req.on('data', (chunk: Buffer | string) => {
+                if (!chunks) {
+                    return;
+                }
+                const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+                size += buffer.byteLength;
+                if (size > this.maxBodyBytes) {
+                    chunks = null;
+                    resolve(null);
+                    return;
+                }
+                chunks.push(buffer);
+            });
+            req.on('end', () => resolve(chunks ? Buffer.concat(chunks) : null));
+            req.on('error', reject);
+        });
+    }
+
+    private async readRequestBody(request: Request): Promise<Uint8Array | null> {
+        if (Number(request.headers.get('content-length')) > this.maxBodyBytes) {
+            return null;
+        }
+        if (!request.body) {
+            return new Uint8Array(0);
+        }
+
+        const reader = request.body.getReader();
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        for (let next = await reader.read(); !next.done; next = await reader.read()) {
+            size += next.value.byteLength;
+            if (size > this.maxBodyBytes) {
+                await reader.cancel().catch(() => undefined);
+                return null;
+            }
+            chunks.push(next.value);
+        }
+        return Buffer.concat(chunks);
+    }
+}
+
+function header(value: string | string[] | undefined): string | undefined {
+    return Array.isArray(value) ? value[0] : value;
+}
+
+export function createWebhookMiddleware(options: WebhookHandlerOptions): (req: IncomingMessage, res: ServerResponse, next?: NextFunction) => void {
+    return new WebhookHandler(options).middleware();
+}
+
+export function createWebhookRouteHandler(options: WebhookHandlerOptions): (request: Request) => Promise<Response> {
+    const handler = new WebhookHandler(options);
+    return request => handler.handle(request);
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { ConfigError } from './errors';
+import { formatPath, parseYaml } from './yaml';
+
+function parseError(text: string): ConfigError {
+    try {
+        parseYaml(text, { source: 'seotrove.config.yaml' });
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            return error;
+        }
+        throw error;
+    }
+    throw new Error('expected a ConfigError');
+}
+
+describe('parseYaml', () => {
+    it('parses block mappings and lists, including lists at the key indentation', () => {
+        const text = [
+            'sites:',
+            '  blog:',
+            '    domain: blog.example.com',
+            '    headTags:',
+            '    - <meta name="a">',
+            '    - <meta name="b">',
+            '    invalidators:',
+            '      - type: http',
+            '        url: https://cdn.example.com/purge',
+            '      - type: trigger-file',
+            '        file: ./synced'
+        ].join('\n');
+
+        expect(parseYaml(text)).toEqual({
+            sites: {
+                blog: {
+                    domain: 'blog.example.com',
+                    headTags: ['<meta name="a">', '<meta name="b">'],
+                    invalidators: [{ type: 'http', url: 'https://cdn.example.com/purge' }, { type: 'trigger-file', file: './synced' }]
+                }
+            }
+        });
+    });
+
+    it('parses flow collections on one line', () => {
+        expect(parseYaml('formats: [netlify, "nginx", json]\nfileNames: { nginx: conf/redirects.conf, json: "a, b.json" }\nempty: []')).toEqual({
+            formats: ['netlify', 'nginx', 'json'],
+            fileNames: { nginx: 'conf/redirects.conf', json: 'a, b.json' },
+            empty: []
+        });
+        expect(parseYaml('nested: [[1, 2], { a: [true, null] }]')).toEqual({ nested: [[1, 2], { a: [true, null] }] });
+    });
+
+    it('resolves plain scalars with the core schema', () => {
+        expect(parseYaml('a: 10\nb: 0x1f\nc: -1.5e3\nd: true\ne: False\nf: ~\ng: null\nh:\ni: .inf\nj: 1.2.3\nk: 0755')).toEqual({
+            a: 10, b: 31, c: -1500, d: true, e: false, f: null, g: null, h: null, i: Infinity, j: '1.2.3', k: 755
+        });
+    });
+
+    it('keeps quoted scalars as strings and decodes escapes', () => {
+        expect(parseYaml(`a: "123"\nb: 'it''s # not a comment'\nc: "tab\\there \\u00e9 \\x41"\n"quoted key": yes`)).toEqual({
+            a: '123',
+            b: 'it\'s # not a comment',
+            c: 'tab\there é A',
+            'quoted key': 'yes'
+        });
+    });
+
+    it('strips comments but not # inside values', () => {
+        const text = '# leading comment\ndomain: example.com # trailing\nurl: https://example.com/#anchor\n\n  # indented comment\nlist: [a, b] # after a flow list';
+
+        expect(parseYaml(text)).toEqual({ domain: 'example.com', url: 'https://example.com/#anchor', list: ['a', 'b'] });
+    });
+
+    it('reads literal and folded block scalars', () => {
+        const text = 'layout: |\n  <html>\n    <body></body>\n  </html>\nsummary: >-\n  one\n  two\n\n  three\nnext: 1';
+
+        expect(parseYaml(text)).toEqual({ layout: '<html>\n  <body></body>\n</html>\n', summary: 'one two\nthree', next: 1 });
+    });
+
+    it('accepts a document start marker and a byte order mark', () => {
+        expect(parseYaml('\uFEFF---\nlogLevel: debug\n')).toEqual({ logLevel: 'debug' });
+        expect(parseYaml('')).toBeNull();
+    });
+
+    it('keeps __proto__ as a plain key', () => {
+        const parsed = parseYaml('__proto__:\n  polluted: true') as Record<string, unknown>;
+
+        expect(Object.keys(parsed)).toEqual(['__proto__']);
+        expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+    });
+
+    it('records the line of every key and list item', () => {
+        const positions = new Map<string, number>();
+
+        parseYaml('sites:\n  blog:\n    headTags:\n      - a\n      - b', { positions });
+
+        expect(Object.fromEntries(positions)).toEqual({ 'sites': 1, 'sites.blog': 2, 'sites.blog.headTags': 3, 'sites.blog.headTags[0]': 4, 'sites.blog.headTags[1]': 5 });
+    });
+
+    it.each([
+        ['base: &base\n  a: 1', 1, 'anchors, aliases and tags are not supported'],
+        ['site: *base', 1, 'anchors, aliases and tags are not supported'],
+        ['a: 1\nport: !!str 80', 2, 'anchors, aliases and tags are not supported'],
+        ['a: 1\n---\nb: 2', 2, 'multiple documents are not supported'],
+        ['- a\n...', 2, 'multiple documents are not supported'],
+        ['a:\n\tb: 1', 2, 'tabs are not allowed in indentation'],
+        ['a: 1\na: 2', 2, 'duplicate key "a"'],
+        ['a: [1, 2', 1, 'unterminated flow collection - [...] and {...} must close on the same line'],
+        ['a: "open', 1, 'unterminated quoted string - quoted strings must close on the same line'],
+        ['a: "bad \\q"', 1, 'invalid escape "\\q"'],
+        ['a:\n  b: 1\n    c: 2', 3, 'unexpected indentation'],
+        ['a: 1\n- b', 2, 'expected "key: value", got a list item']
+    ])('rejects %j at line %i', (text, line, message) => {
+        const error = parseError(text);
+
+        expect(error.issues).toEqual([{ path: '', message, source: `seotrove.config.yaml:${line}` }]);
+    });
+});
+
+describe('formatPath', () => {
+    it('uses dots for identifiers and brackets for indexes and other keys', () => {
+        expect(formatPath(['sites', 'blog', 'headTags', 0])).toBe('sites.blog.headTags[0]');
+        expect(formatPath(['sites', 'my.site', 'domain'])).toBe('sites["my.site"].domain');
+    });
+});
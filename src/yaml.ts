@@ -0,0 +1,454 @@
+import { ConfigError } from './errors';
+
+export type ConfigPath = Array<string | number>;
+
+export interface YamlParseOptions {
+    source?: string;                        // File name used in error messages
+    positions?: Map<string, number>;        // Filled with the 1-based line of every key and list item, by formatPath()
+}
+
+interface YamlLine {
+    indent: number;
+    text: string;                           // Without the indentation
+    number: number;                         // 1-based
+}
+
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = {
+    '0': '\0', 'a': '\x07', 'b': '\b', 't': '\t', '\t': '\t', 'n': '\n', 'v': '\v', 'f': '\f', 'r': '\r', 'e': '\x1b',
+    ' ': ' ', '"': '"', '/': '/', '\\': '\\', 'N': '\x85', '_': '\xa0', 'L': '\u2028', 'P': '\u2029'
+};
+
+const HEX_ESCAPE_LENGTHS: Record<string, number> = { x: 2, u: 4, U: 8 };
+
+/**
+ * Format a config path the way issues report it, e.g. `sites.blog.headTags[0]`
+ */
+export function formatPath(path: ConfigPath): string {
+    return path.reduce<string>((text, segment) => {
+        if (typeof segment === 'number') {
+            return `${text}[${segment}]`;
+        }
+        if (/^[A-Za-z_$][\w$-]*$/.test(segment)) {
+            return text ? `${text}.${segment}` : segment;
+        }
+        return `${text}[${JSON.stringify(segment)}]`;
+    }, '');
+}
+
+function isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+}
+
+function isDocumentMarker(line: YamlLine): boolean {
+    return line.indent === 0 && /^(---|\.\.\.)(\s|$)/.test(line.text);
+}
+
+function isBlank(text: string): boolean {
+    return text === '' || text.startsWith('#');
+}
+
+function stripComment(text: string): string {
+    if (text.startsWith('#')) {
+        return '';
+    }
+    const match = /\s#/.exec(text);
+    return (match ? text.slice(0, match.index) : text).trim();
+}
+
+function setKey(target: Record<string, unknown>, key: string, value: unknown): void {
+    // defineProperty so that a `__proto__` key stays a plain key
+    Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+/**
+ * Resolve a plain (unquoted) scalar with the YAML 1.2 core schema
+ */
+function resolvePlain(raw: string): unknown {
+    if (raw === '' || raw === '~' || /^(null|Null|NULL)$/.test(raw)) {
+        return null;
+    }
+    if (/^(true|True|TRUE)$/.test(raw)) {
+        return true;
+    }
+    if (/^(false|False|FALSE)$/.test(raw)) {
+        return false;
+    }
+    if (/^0x[0-9a-fA-F]+$/.test(raw)) {
+        return parseInt(raw.slice(2), 16);
+    }
+    if (/^0o[0-7]+$/.test(raw)) {
+        return parseInt(raw.slice(2), 8);
+    }
+    if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(raw)) {
+        return Number(raw);
+    }
+    if (/^[-+]?\.(inf|Inf|INF)$/.test(raw)) {
+        return raw.startsWith('-') ? -Infinity : Infinity;
+    }
+    if (/^\.(nan|NaN|NAN)$/.test(raw)) {
+        return NaN;
+    }
+    return raw;
+}
+
+/**
+ * Fold the lines of a `>` block scalar: single line breaks become spaces, blank lines become line
+ * breaks, and more-indented lines keep their breaks
+ */
+function foldLines(lines: string[]): string {
+    let text = '';
+    lines.forEach((line, index) => {
+        const previous = lines[index - 1];
+        if (index === 0 || previous === '') {
+            text += line;
+        } else if (line === '') {
+            text += '\n';
+        } else if (line.startsWith(' ') || previous?.startsWith(' ')) {
+            text += `\n${line}`;
+        } else {
+            text += ` ${line}`;
+        }
+    });
+    return text;
+}
+
+class YamlParser {
+    private lines: string[];
+    private index: number = 0;
+    private options: YamlParseOptions;
+
+    constructor(text: string, options: YamlParseOptions) {
+        this.lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+        this.options = options;
+    }
+
+    parse(): unknown {
+        const first = this.peek();
+        if (first && first.indent === 0 && /^---(\s|$)/.test(first.text)) {
+            if (!isBlank(first.text.slice(3).trim())) {
+                throw this.error(first.number, 'content after the document start marker is not supported');
+            }
+            this.index++;
+        }
+
+        const line = this.peek();
+        const value = line ? this.parseBlock(line.indent, []) : null;
+        const rest = this.peek();
+        if (rest) {
+            throw this.error(rest.number, isDocumentMarker(rest)
+                ? 'multiple documents are not supported'
+                : 'unexpected content - check the indentation');
+        }
+        return value;
+    }
+
+    /**
+     * Move to the next line with content, skipping blank and comment lines, without consuming it
+     */
+    private peek(): YamlLine | null {
+        while (this.index < this.lines.length) {
+            const raw = this.lines[this.index] as string;
+            const text = raw.trimStart();
+            if (!isBlank(text)) {
+                const indentation = raw.slice(0, raw.length - text.length);
+                if (indentation.includes('\t')) {
+                    throw this.error(this.index + 1, 'tabs are not allowed in indentation');
+                }
+                return { indent: indentation.length, text: text.trimEnd(), number: this.index + 1 };
+            }
+            this.index++;
+        }
+        return null;
+    }
+
+    private parseBlock(indent: number, path: ConfigPath): unknown {
+        const line = this.peek() as YamlLine;
+        if (isSequenceItem(line.text)) {
+            return this.parseSequence(indent, path);
+        }
+        if (this.splitKey(line)) {
+            return this.parseMapping(indent, path);
+        }
+        this.index++;
+        return this.parseInline(line.text, line.number);
+    }
+
+    private parseMapping(indent: number, path: ConfigPath): Record<string, unknown> {
+        const mapping: Record<string, unknown> = {};
+        // A document marker ends the mapping, so parse() can report it
+        for (let line = this.peek(); line && line.indent >= indent && !isDocumentMarker(line); line = this.peek()) {
+            if (line.indent > indent) {
+                throw this.error(line.number, 'unexpected indentation');
+            }
+            const entry = this.splitKey(line);
+            if (!entry) {
+                throw this.error(line.number, isSequenceItem(line.text) ? 'expected "key: value", got a list item' : 'expected "key: value"');
+            }
+            if (Object.prototype.hasOwnProperty.call(mapping, entry.key)) {
+                throw this.error(line.number, `duplicate key "${entry.key}"`);
+            }
+            const entryPath = [...path, entry.key];
+            this.options.positions?.set(formatPath(entryPath), line.number);
+            this.index++;
+            setKey(mapping, entry.key, this.parseValue(entry.rest, line, entryPath, true));
+        }
+        return mapping;
+    }
+
+    private parseSequence(indent: number, path: ConfigPath): unknown[] {
+        const items: unknown[] = [];
+        for (let line = this.peek(); line && line.indent >= indent; line = this.peek()) {
+            if (line.indent > indent) {
+                throw this.error(line.number, 'unexpected indentation');
+            }
+            if (!isSequenceItem(line.text)) {
+                break;
+            }
+            const itemPath = [...path, items.length];
+            this.options.positions?.set(formatPath(itemPath), line.number);
+
+            const rest = line.text.slice(1).trimStart();
+            const column = indent + line.text.length - rest.length;
+            if (!isBlank(rest) && (isSequenceItem(rest) || this.splitKey({ ...line, text: rest }))) {
+                // A mapping or list starting on the item's line - read it as if `- ` were indentation
+                this.lines[this.index] = ' '.repeat(column) + rest;
+                items.push(this.parseBlock(column, itemPath));
+            } else {
+                this.index++;
+                items.push(this.parseValue(rest, line, itemPath, false));
+            }
+        }
+        return items;
+    }
+
+    /**
+     * Value after `key:` or `- `: inline on the same line, or a nested block on the following lines
+     */
+    private parseValue(rest: string, line: YamlLine, path: ConfigPath, isMappingValue: boolean): unknown {
+        if (rest.startsWith('|') || rest.startsWith('>')) {
+            return this.parseBlockScalar(rest, line);
+        }
+        if (!isBlank(rest)) {
+            return this.parseInline(rest, line.number);
+        }
+        const next = this.peek();
+        // A list may sit at the same indentation as the key that holds it
+        if (next && (next.indent > line.indent || (isMappingValue && next.indent === line.indent && isSequenceItem(next.text)))) {
+            return this.parseBlock(next.indent, path);
+        }
+        return null;
+    }
+
+    private parseBlockScalar(header: string, line: YamlLine): string {
+        const match = /^([|>])([+-]?)\s*(#.*)?$/.exec(header);
+        if (!match) {
+            throw this.error(line.number, `unsupported block scalar header "${header}"`);
+        }
+
+        const lines: string[] = [];
+        let blockIndent = -1;
+        while (this.index < this.lines.length) {
+            const raw = this.lines[this.index] as string;
+            if (raw.trim() === '') {
+                lines.push('');
+                this.index++;
+                continue;
+            }
+            const indent = raw.length - raw.trimStart().length;
+            if (indent <= line.indent || (blockIndent !== -1 && indent < blockIndent)) {
+                break;
+            }
+            if (blockIndent === -1) {
+                blockIndent = indent;
+            }
+            lines.push(raw.slice(blockIndent).trimEnd());
+            this.index++;
+        }
+
+        let end = lines.length;
+        while (end > 0 && lines[end - 1] === '') {
+            end--;
+        }
+        if (end === 0) {
+            return '';
+        }
+        const content = lines.slice(0, end);
+        const text = match[1] === '|' ? content.join('\n') : foldLines(content);
+        if (match[2] === '-') {
+            return text;
+        }
+        return match[2] === '+' ? text + '\n'.repeat(lines.length - end + 1) : `${text}\n`;
+    }
+
+    private parseInline(text: string, lineNumber: number): unknown {
+        const first = text[0];
+        if (first === '"' || first === '\'') {
+            const quoted = this.readQuoted(text, 0, lineNumber);
+            this.expectEnd(text.slice(quoted.end), lineNumber);
+            return quoted.value;
+        }
+        if (first === '[' || first === '{') {
+            return this.parseFlow(text, lineNumber);
+        }
+        if (first === '&' || first === '*' || first === '!') {
+            throw this.error(lineNumber, 'anchors, aliases and tags are not supported');
+        }
+        return resolvePlain(stripComment(text));
+    }
+
+    /**
+     * `[a, b]` and `{ key: value }` collections. They must close on the line they open on.
+     */
+    private parseFlow(text: string, lineNumber: number): unknown {
+        let pos = 0;
+        const skipSpaces = () => {
+            while (text[pos] === ' ' || text[pos] === '\t') {
+                pos++;
+            }
+        };
+        const unexpected = (expected: string) => this.error(lineNumber, pos >= text.length
+            ? 'unterminated flow collection - [...] and {...} must close on the same line'
+            : `expected ${expected}, got "${text[pos]}"`);
+
+        const readScalar = (terminators: string): unknown => {
+            if (text[pos] === '"' || text[pos] === '\'') {
+                const quoted = this.readQuoted(text, pos, lineNumber);
+                pos = quoted.end;
+                return quoted.value;
+            }
+            const start = pos;
+            while (pos < text.length && !terminators.includes(text[pos] as string)) {
+                pos++;
+            }
+            return resolvePlain(text.slice(start, pos).trim());
+        };
+
+        const readValue = (terminators: string): unknown => {
+            skipSpaces();
+            if (text[pos] === '[') {
+                pos++;
+                const items: unknown[] = [];
+                for (skipSpaces(); text[pos] !== ']'; skipSpaces()) {
+                    items.push(readValue(',]'));
+                    skipSpaces();
+                    if (text[pos] === ',') {
+                        pos++;
+                    } else if (text[pos] !== ']') {
+                        throw unexpected('"," or "]"');
+                    }
+                }
+                pos++;
+                return items;
+            }
+            if (text[pos] === '{') {
+                pos++;
+                const mapping: Record<string, unknown> = {};
+                for (skipSpaces(); text[pos] !== '}'; skipSpaces()) {
+                    if (pos >= text.length) {
+                        throw unexpected('a key');
+                    }
+                    const key = String(readScalar(':,}'));
+                    skipSpaces();
+                    if (text[pos] !== ':') {
+                        throw unexpected('":"');
+                    }
+                    pos++;
+                    setKey(mapping, key, readValue(',}'));
+                    skipSpaces();
+                    if (text[pos] === ',') {
+                        pos++;
+                    } else if (text[pos] !== '}') {
+                        throw unexpected('"," or "}"');
+                    }
+                }
+                pos++;
+                return mapping;
+            }
+            return readScalar(terminators);
+        };
+
+        const value = readValue('');
+        this.expectEnd(text.slice(pos), lineNumber);
+        return value;
+    }
+
+    private readQuoted(text: string, start: number, lineNumber: number): { value: string; end: number } {
+        const quote = text[start];
+        let value = '';
+        for (let i = start + 1; i < text.length; i++) {
+            const char = text[i] as string;
+            if (quote === '\'') {
+                if (char !== '\'') {
+                    value += char;
+                } else if (text[i + 1] === '\'') {
+                    value += '\'';
+                    i++;
+                } else {
+                    return { value, end: i + 1 };
+                }
+                continue;
+            }
+
+            if (char === '"') {
+                return { value, end: i + 1 };
+            }
+            if (char !== '\\') {
+                value += char;
+                continue;
+            }
+            const escape = text[++i] ?? '';
+            const hexLength = HEX_ESCAPE_LENGTHS[escape];
+            if (hexLength !== undefined) {
+                const hex = text.slice(i + 1, i + 1 + hexLength);
+                if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== hexLength) {
+                    throw this.error(lineNumber, `invalid escape "\\${escape}${hex}"`);
+                }
+                value += String.fromCodePoint(parseInt(hex, 16));
+                i += hexLength;
+            } else if (DOUBLE_QUOTE_ESCAPES[escape] !== undefined) {
+                value += DOUBLE_QUOTE_ESCAPES[escape];
+            } else {
+                throw this.error(lineNumber, `invalid escape "\\${escape}"`);
+            }
+        }
+        throw this.error(lineNumber, 'unterminated quoted string - quoted strings must close on the same line');
+    }
+
+    private expectEnd(rest: string, lineNumber: number): void {
+        const trimmed = rest.trim();
+        if (trimmed !== '' && !trimmed.startsWith('#')) {
+            throw this.error(lineNumber, `unexpected "${trimmed}"`);
+        }
+    }
+
+    private splitKey(line: YamlLine): { key: string; rest: string } | null {
+        const text = line.text;
+        if (text.startsWith('"') || text.startsWith('\'')) {
+            const quoted = this.readQuoted(text, 0, line.number);
+            const separator = /^\s*:(\s+|$)/.exec(text.slice(quoted.end));
+            return separator ? { key: quoted.value, rest: text.slice(quoted.end + separator[0].length) } : null;
+        }
+        if (/^[[{#&*!|>]/.test(text) || isSequenceItem(text)) {
+            return null;
+        }
+        const separator = /:(\s+|$)/.exec(text);
+        if (!separator) {
+            return null;
+        }
+        return { key: text.slice(0, separator.index).trimEnd(), rest: text.slice(separator.index + separator[0].length) };
+    }
+
+    private error(lineNumber: number, message: string): ConfigError {
+        const source = this.options.source ? `${this.options.source}:${lineNumber}` : `line ${lineNumber}`;
+        return new ConfigError('Invalid YAML', [{ path: '', message, source }]);
+    }
+}
+
+/**
+ * Parse the YAML used by config files: block mappings and lists, one-line flow collections, quoted
+ * and plain scalars, `|`/`>` block scalars and comments. Anchors, aliases, tags and multi-document
+ * streams are not supported. Throws a ConfigError with the line of the first syntax error.
+ */
+export function parseYaml(text: string, options: YamlParseOptions = {}): unknown {
+    return new YamlParser(text, options).parse();
+}